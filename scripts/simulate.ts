@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { Campaign, Modifier, RuleSet } from '../src/types';
+import { BalanceReport, reportsToCsv, simulate } from '../src/game/balance';
+import { BOT_POLICIES, BotPolicy } from '../src/game/bot';
+import { MODIFIERS } from '../src/game/modifiers';
+import { RULE_SETS } from '../src/game/rules';
+import { parseCampaign } from '../src/game/waves';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --policy <name>        ${BOT_POLICIES.join(' | ')} | all (default: all)
+  --games <n>            games per policy (default: 200)
+  --seed <n>             seed of the first game (default: 1)
+  --rules <name>         ${RULE_SETS.join(' | ')} (default: classic)
+  --modifier <name>      ${MODIFIERS.join(' | ')}
+  --campaign <file>      campaign JSON to play instead of the built-in one
+  --format <json|csv>    (default: json)
+  --out <file>           write the report there instead of to stdout
+  --min-win-rate <rate>  exit with status 1 if any policy wins less often than this`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(2);
+}
+
+function nonNegativeInteger(value: string, name: string): number {
+  const n = Number(value);
+  if (!Number.isSafeInteger(n) || n < 0) fail(`--${name} must be a non-negative integer`);
+  return n;
+}
+
+function parseOptions() {
+  try {
+    return parseArgs({
+      options: {
+        policy: { type: 'string', default: 'all' },
+        games: { type: 'string', default: '200' },
+        seed: { type: 'string', default: '1' },
+        rules: { type: 'string', default: 'classic' },
+        modifier: { type: 'string' },
+        campaign: { type: 'string' },
+        format: { type: 'string', default: 'json' },
+        out: { type: 'string' },
+        'min-win-rate': { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }).values;
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+const args = parseOptions();
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+if (args.policy !== 'all' && !BOT_POLICIES.includes(args.policy as BotPolicy)) fail(`Unknown policy ${args.policy}`);
+const policies = args.policy === 'all' ? BOT_POLICIES : [args.policy as BotPolicy];
+const games = nonNegativeInteger(args.games!, 'games');
+const seed = nonNegativeInteger(args.seed!, 'seed');
+if (!RULE_SETS.includes(args.rules as RuleSet)) fail(`Unknown rules ${args.rules}`);
+const modifier = (args.modifier ?? null) as Modifier | null;
+if (modifier !== null && !MODIFIERS.includes(modifier)) fail(`Unknown modifier ${modifier}`);
+if (args.format !== 'json' && args.format !== 'csv') fail(`Unknown format ${args.format}`);
+const minWinRate = args['min-win-rate'] === undefined ? null : Number(args['min-win-rate']);
+if (minWinRate !== null && !(minWinRate >= 0 && minWinRate <= 1)) fail('--min-win-rate must be between 0 and 1');
+
+let campaign: Campaign | undefined;
+if (args.campaign !== undefined) {
+  try {
+    campaign = parseCampaign(JSON.parse(fs.readFileSync(args.campaign, 'utf8')));
+  } catch (err) {
+    fail(err instanceof Error ? err.message : String(err));
+  }
+}
+
+const reports: BalanceReport[] = policies.map(policy => {
+  const started = Date.now();
+  const report = simulate({
+    policy,
+    games,
+    seed,
+    rules: args.rules as RuleSet,
+    campaign,
+    modifier,
+  });
+  console.error(`${policy}: ${report.games} games in ${((Date.now() - started) / 1000).toFixed(1)}s, win rate ${report.winRate.toFixed(3)}`);
+  return report;
+});
+
+const output = args.format === 'csv' ? reportsToCsv(reports) : JSON.stringify(reports, null, 2);
+if (args.out) fs.writeFileSync(args.out, `${output}\n`);
+else console.log(output);
+
+const losing = minWinRate === null ? [] : reports.filter(r => r.winRate < minWinRate);
+if (losing.length > 0) {
+  console.error(`Win rate below ${minWinRate}: ${losing.map(r => `${r.policy} (${r.winRate.toFixed(3)})`).join(', ')}`);
+  process.exit(1);
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { DailySubmission, LeaderboardEntry, LeaderboardPeriod, Profile, RunSubmission } from '../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function openDatabase(file: string): Database.Database {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      player_name TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      level INTEGER NOT NULL,
+      cities_surviving INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS runs_created_at_score ON runs (created_at, score DESC);
+    CREATE INDEX IF NOT EXISTS runs_score ON runs (score DESC);
+    CREATE TABLE IF NOT EXISTS daily_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      date TEXT NOT NULL,
+      seed INTEGER NOT NULL,
+      modifier TEXT NOT NULL,
+      player_name TEXT NOT NULL,
+      score INTEGER NOT NULL,
+      level INTEGER NOT NULL,
+      cities_surviving INTEGER NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      UNIQUE (date, player_name)
+    );
+    CREATE INDEX IF NOT EXISTS daily_runs_date_score ON daily_runs (date, score DESC);
+    CREATE TABLE IF NOT EXISTS profiles (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+  return db;
+}
+
+interface RunRow {
+  id: number;
+  player_name: string;
+  score: number;
+  level: number;
+  cities_surviving: number;
+  duration_ms: number;
+  created_at: number;
+}
+
+function toEntry(row: RunRow): LeaderboardEntry {
+  return {
+    id: row.id,
+    playerName: row.player_name,
+    score: row.score,
+    level: row.level,
+    citiesSurviving: row.cities_surviving,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at,
+  };
+}
+
+/** Start of the period in unix ms. Days and weeks follow UTC; weeks start on Monday. */
+export function periodStart(period: LeaderboardPeriod, now: number): number {
+  if (period === 'all') return 0;
+  const day = Math.floor(now / DAY_MS) * DAY_MS;
+  if (period === 'day') return day;
+  const weekday = (new Date(day).getUTCDay() + 6) % 7;
+  return day - weekday * DAY_MS;
+}
+
+export function insertRun(db: Database.Database, run: RunSubmission, now: number): LeaderboardEntry {
+  const result = db
+    .prepare(
+      `INSERT INTO runs (player_name, score, level, cities_surviving, duration_ms, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+    )
+    .run(run.playerName, run.score, run.level, run.citiesSurviving, run.durationMs, now);
+  return { ...run, id: Number(result.lastInsertRowid), createdAt: now };
+}
+
+export function topRuns(db: Database.Database, period: LeaderboardPeriod, limit: number, now: number): LeaderboardEntry[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM runs WHERE created_at >= ?
+       ORDER BY score DESC, duration_ms ASC, created_at ASC LIMIT ?`,
+    )
+    .all(periodStart(period, now), limit) as RunRow[];
+  return rows.map(toEntry);
+}
+
+/** 1-based position the run holds on the all-time board. */
+export function rankOf(db: Database.Database, entry: LeaderboardEntry): number {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS better FROM runs
+       WHERE score > ? OR (score = ? AND duration_ms < ?) OR (score = ? AND duration_ms = ? AND created_at < ?)`,
+    )
+    .get(entry.score, entry.score, entry.durationMs, entry.score, entry.durationMs, entry.createdAt) as { better: number };
+  return row.better + 1;
+}
+
+/** Stores a ranked daily attempt, or returns null when that name already has one for the day. */
+export function insertDailyRun(db: Database.Database, run: DailySubmission, now: number): LeaderboardEntry | null {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO daily_runs
+         (date, seed, modifier, player_name, score, level, cities_surviving, duration_ms, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+    .run(run.date, run.seed, run.modifier, run.playerName, run.score, run.level, run.citiesSurviving, run.durationMs, now);
+  if (result.changes === 0) return null;
+  const { playerName, score, level, citiesSurviving, durationMs } = run;
+  return { playerName, score, level, citiesSurviving, durationMs, id: Number(result.lastInsertRowid), createdAt: now };
+}
+
+export function topDailyRuns(db: Database.Database, date: string, limit: number): LeaderboardEntry[] {
+  const rows = db
+    .prepare(
+      `SELECT * FROM daily_runs WHERE date = ?
+       ORDER BY score DESC, duration_ms ASC, created_at ASC LIMIT ?`,
+    )
+    .all(date, limit) as RunRow[];
+  return rows.map(toEntry);
+}
+
+/** 1-based position the run holds on its day's board. */
+export function dailyRankOf(db: Database.Database, date: string, entry: LeaderboardEntry): number {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS better FROM daily_runs
+       WHERE date = ? AND (score > ? OR (score = ? AND duration_ms < ?) OR (score = ? AND duration_ms = ? AND created_at < ?))`,
+    )
+    .get(date, entry.score, entry.score, entry.durationMs, entry.score, entry.durationMs, entry.createdAt) as { better: number };
+  return row.better + 1;
+}
+
+export function findProfile(db: Database.Database, id: string): Profile | null {
+  const row = db.prepare('SELECT data FROM profiles WHERE id = ?').get(id) as { data: string } | undefined;
+  return row ? JSON.parse(row.data) : null;
+}
+
+export function storeProfile(db: Database.Database, profile: Profile) {
+  db.prepare(
+    `INSERT INTO profiles (id, data, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`,
+  ).run(profile.id, JSON.stringify(profile), profile.updatedAt);
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { LeaderboardPeriod } from '../src/types';
+import { isProfile, mergeProfiles } from '../src/profile';
+import { isDate } from '../src/game/daily';
+import {
+  dailyRankOf,
+  findProfile,
+  insertDailyRun,
+  insertRun,
+  openDatabase,
+  rankOf,
+  storeProfile,
+  topDailyRuns,
+  topRuns,
+} from './db';
+import { attachMultiplayer } from './multiplayer';
+import { validateDailyRun, validateRun } from './validation';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const DATABASE_PATH = process.env.DATABASE_PATH ?? path.resolve('data', 'leaderboard.db');
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const PERIODS: LeaderboardPeriod[] = ['all', 'day', 'week'];
+
+const db = openDatabase(DATABASE_PATH);
+const app = express();
+
+app.use(express.json({ limit: '16kb' }));
+
+app.post('/api/runs', (req, res) => {
+  const result = validateRun(req.body);
+  if ('error' in result) {
+    res.status(422).json({ error: result.error });
+    return;
+  }
+  const entry = insertRun(db, result.run, Date.now());
+  res.status(201).json({ entry, rank: rankOf(db, entry) });
+});
+
+app.get('/api/leaderboard', (req, res) => {
+  const period = (req.query.period ?? 'all') as LeaderboardPeriod;
+  if (!PERIODS.includes(period)) {
+    res.status(400).json({ error: `period must be one of ${PERIODS.join(', ')}` });
+    return;
+  }
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.query.limit) || DEFAULT_LIMIT));
+  res.json({ period, entries: topRuns(db, period, limit, Date.now()) });
+});
+
+app.post('/api/daily/runs', (req, res) => {
+  const result = validateDailyRun(req.body, Date.now());
+  if ('error' in result) {
+    res.status(422).json({ error: result.error });
+    return;
+  }
+  const entry = insertDailyRun(db, result.run, Date.now());
+  if (!entry) {
+    res.status(409).json({ error: `${result.run.playerName} already has a ranked run for ${result.run.date}` });
+    return;
+  }
+  res.status(201).json({ entry, rank: dailyRankOf(db, result.run.date, entry) });
+});
+
+app.get('/api/daily/:date/leaderboard', (req, res) => {
+  if (!isDate(req.params.date)) {
+    res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+    return;
+  }
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Number(req.query.limit) || DEFAULT_LIMIT));
+  res.json({ date: req.params.date, entries: topDailyRuns(db, req.params.date, limit) });
+});
+
+// Stores the merge of the sent profile and the stored one, and returns it so the client can adopt it
+app.put('/api/profiles/:id', (req, res) => {
+  if (!isProfile(req.body) || req.body.id !== req.params.id) {
+    res.status(422).json({ error: 'Expected a profile matching the URL' });
+    return;
+  }
+  const stored = findProfile(db, req.params.id);
+  const profile = stored ? mergeProfiles(stored, req.body) : req.body;
+  storeProfile(db, profile);
+  res.json({ profile });
+});
+
+const server = app.listen(PORT, () => {
+  console.log(`Leaderboard and multiplayer server listening on http://localhost:${PORT}`);
+});
+
+attachMultiplayer(server);
@@ -0,0 +1,321 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomInt, randomUUID } from 'crypto';
+import type { Server } from 'http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { GameEvent, GameInput, GameState, GameStatus } from '../src/types';
+import { TICK_MS } from '../src/game/constants';
+import { createGameState, pause, resume, step } from '../src/game/engine';
+import { randomSeed } from '../src/game/random';
+import { isInput } from '../src/game/replay';
+import {
+  ClientMessage,
+  isRoomCode,
+  MAX_NAME_LENGTH,
+  NET_PATH,
+  PROTOCOL_VERSION,
+  RECONNECT_GRACE_MS,
+  ROOM_CODE_LENGTH,
+  RoomInfo,
+  RoomStatus,
+  ServerMessage,
+  SNAPSHOT_TICKS,
+} from '../src/net/protocol';
+
+const SEATS = 2;
+const MAX_PAYLOAD = 4096;
+// Inputs one client may have waiting for the next tick; the rest are dropped
+const MAX_QUEUED_INPUTS = 16;
+// Longest wall-clock gap simulated at once, as in the browser
+const MAX_CATCH_UP_MS = 250;
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // no I or O
+
+interface Client {
+  session: string;
+  name: string;
+  socket: WebSocket | null; // null while disconnected
+  room: Room | null;
+  ready: boolean;
+  acked: number; // highest input seq applied
+  queued: number;
+  dropTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface Room {
+  code: string;
+  status: RoomStatus;
+  seats: (Client | null)[];
+  state: GameState | null;
+  queue: { client: Client; seq: number; input: GameInput }[];
+  events: GameEvent[]; // since the last snapshot
+  timer: ReturnType<typeof setInterval> | null;
+  lastTime: number;
+  accumulator: number;
+  loops: number;
+}
+
+function send(client: Client, message: ServerMessage) {
+  if (client.socket?.readyState === WebSocket.OPEN) client.socket.send(JSON.stringify(message));
+}
+
+function seatOf(client: Client): number {
+  return client.room ? client.room.seats.indexOf(client) : -1;
+}
+
+function roomInfo(room: Room, client: Client): RoomInfo {
+  return {
+    code: room.code,
+    status: room.status,
+    seats: room.seats.map(c => c && { name: c.name, ready: c.ready, connected: c.socket !== null }),
+    you: seatOf(client),
+  };
+}
+
+/** Serves online co-op rooms on `server` at NET_PATH. */
+export function attachMultiplayer(server: Server) {
+  const wss = new WebSocketServer({ server, path: NET_PATH, maxPayload: MAX_PAYLOAD });
+  const sessions = new Map<string, Client>();
+  const rooms = new Map<string, Room>();
+
+  function broadcastRoom(room: Room) {
+    room.seats.forEach(c => c && send(c, { type: 'room', room: roomInfo(room, c) }));
+  }
+
+  function newCode(): string {
+    let code: string;
+    do {
+      code = Array.from({ length: ROOM_CODE_LENGTH }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  }
+
+  function snapshot(room: Room) {
+    const { campaign, ...state } = room.state!;
+    room.seats.forEach(c => c && send(c, { type: 'snapshot', state, events: room.events, acked: c.acked }));
+    room.events = [];
+  }
+
+  function stop(room: Room) {
+    if (room.timer) clearInterval(room.timer);
+    room.timer = null;
+  }
+
+  function tick(room: Room) {
+    const now = performance.now();
+    room.accumulator += Math.min(now - room.lastTime, MAX_CATCH_UP_MS);
+    room.lastTime = now;
+    const state = room.state!;
+    while (room.accumulator >= TICK_MS) {
+      const queue = room.queue;
+      room.queue = [];
+      queue.forEach(({ client, seq }) => {
+        client.acked = Math.max(client.acked, seq);
+        client.queued = 0;
+      });
+      room.events.push(...step(state, queue.map(q => q.input)));
+      room.accumulator -= TICK_MS;
+      room.loops += 1;
+      if (room.loops % SNAPSHOT_TICKS === 0) snapshot(room);
+    }
+    if (state.status === GameStatus.WON || state.status === GameStatus.LOST) {
+      snapshot(room);
+      stop(room);
+      room.status = 'finished';
+      room.seats.forEach(c => c && (c.ready = false));
+      broadcastRoom(room);
+    }
+  }
+
+  function start(room: Room) {
+    room.state = createGameState(randomSeed(), undefined, 'coop');
+    room.status = 'playing';
+    room.queue = [];
+    room.events = [];
+    room.loops = 0;
+    room.accumulator = 0;
+    room.lastTime = performance.now();
+    room.seats.forEach((c, player) => {
+      if (!c) return;
+      c.acked = 0;
+      send(c, { type: 'started', player, state: room.state! });
+    });
+    broadcastRoom(room);
+    room.timer = setInterval(() => tick(room), TICK_MS);
+  }
+
+  function leaveRoom(client: Client) {
+    const room = client.room;
+    if (!room) return;
+    room.seats[seatOf(client)] = null;
+    client.room = null;
+    client.ready = false;
+    send(client, { type: 'room', room: null });
+
+    // A co-op game cannot go on with one player, so the room closes
+    if (room.status === 'playing') {
+      stop(room);
+      room.seats.forEach(c => {
+        if (!c) return;
+        c.room = null;
+        c.ready = false;
+        send(c, { type: 'error', message: 'partnerLeft' });
+        send(c, { type: 'room', room: null });
+      });
+      rooms.delete(room.code);
+      return;
+    }
+    if (room.seats.every(c => c === null)) {
+      rooms.delete(room.code);
+      return;
+    }
+    broadcastRoom(room);
+  }
+
+  function createRoom(client: Client) {
+    leaveRoom(client);
+    const room: Room = {
+      code: newCode(),
+      status: 'lobby',
+      seats: Array(SEATS).fill(null),
+      state: null,
+      queue: [],
+      events: [],
+      timer: null,
+      lastTime: 0,
+      accumulator: 0,
+      loops: 0,
+    };
+    room.seats[0] = client;
+    client.room = room;
+    rooms.set(room.code, room);
+    broadcastRoom(room);
+  }
+
+  function joinRoom(client: Client, code: string) {
+    const room = rooms.get(code);
+    if (!room) return send(client, { type: 'error', message: 'roomNotFound' });
+    if (room === client.room) return;
+    const seat = room.seats.indexOf(null);
+    if (room.status === 'playing' || seat < 0) return send(client, { type: 'error', message: 'roomFull' });
+    leaveRoom(client);
+    room.seats[seat] = client;
+    client.room = room;
+    // A finished room goes back to the lobby for a rematch
+    room.status = 'lobby';
+    broadcastRoom(room);
+  }
+
+  function setReady(client: Client, ready: boolean) {
+    const room = client.room;
+    if (!room || room.status === 'playing') return;
+    client.ready = ready;
+    room.status = 'lobby';
+    if (room.seats.every(c => c?.ready && c.socket)) start(room);
+    else broadcastRoom(room);
+  }
+
+  function hello(socket: WebSocket, message: Extract<ClientMessage, { type: 'hello' }>): Client | null {
+    if (message.protocol !== PROTOCOL_VERSION) {
+      socket.send(JSON.stringify({ type: 'error', message: 'protocolMismatch' } satisfies ServerMessage));
+      socket.close();
+      return null;
+    }
+    const name = String(message.name ?? '').trim().slice(0, MAX_NAME_LENGTH) || 'Player';
+    let client = message.session ? sessions.get(message.session) : undefined;
+    if (client) {
+      if (client.dropTimer) clearTimeout(client.dropTimer);
+      client.dropTimer = null;
+      // A second tab with the same session takes the seat over
+      if (client.socket && client.socket !== socket) client.socket.close();
+    } else {
+      client = { session: randomUUID(), name, socket: null, room: null, ready: false, acked: 0, queued: 0, dropTimer: null };
+      sessions.set(client.session, client);
+    }
+    client.socket = socket;
+    client.name = name;
+    send(client, { type: 'welcome', session: client.session });
+
+    const room = client.room;
+    if (room) {
+      broadcastRoom(room);
+      if (room.status === 'playing' && room.state) {
+        // The client starts its game over with input seq 0; inputs the old connection
+        // left queued would otherwise acknowledge new ones before they are applied
+        client.acked = 0;
+        client.queued = 0;
+        room.queue = room.queue.filter(q => q.client !== client);
+        send(client, { type: 'started', player: seatOf(client), state: room.state });
+        if (room.seats.every(c => c?.socket)) room.events.push(...resume(room.state));
+        snapshot(room);
+      }
+    }
+    return client;
+  }
+
+  function disconnect(client: Client) {
+    client.socket = null;
+    const room = client.room;
+    if (room) {
+      if (room.status === 'playing' && room.state) room.events.push(...pause(room.state));
+      broadcastRoom(room);
+    }
+    client.dropTimer = setTimeout(() => {
+      leaveRoom(client);
+      sessions.delete(client.session);
+    }, RECONNECT_GRACE_MS);
+  }
+
+  function handle(client: Client, message: ClientMessage) {
+    switch (message.type) {
+      case 'createRoom':
+        return createRoom(client);
+      case 'joinRoom': {
+        const code = String(message.code ?? '').toUpperCase();
+        if (!isRoomCode(code)) return send(client, { type: 'error', message: 'roomNotFound' });
+        return joinRoom(client, code);
+      }
+      case 'leaveRoom':
+        return leaveRoom(client);
+      case 'ready':
+        return setReady(client, message.ready === true);
+      case 'input': {
+        const room = client.room;
+        if (room?.status !== 'playing' || !Number.isInteger(message.seq) || !isInput(message.input)) return;
+        if (client.queued >= MAX_QUEUED_INPUTS) return;
+        // Players only fire their own turrets, whatever the client claims
+        const input: GameInput = message.input.type === 'fire' ? { ...message.input, player: seatOf(client) } : message.input;
+        if (input.type === 'launch') return;
+        client.queued += 1;
+        room.queue.push({ client, seq: message.seq, input });
+        return;
+      }
+    }
+  }
+
+  wss.on('connection', socket => {
+    let client: Client | null = null;
+    socket.on('message', data => {
+      let message: ClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (typeof message !== 'object' || message === null) return;
+      if (message.type === 'hello') {
+        if (!client) client = hello(socket, message);
+        return;
+      }
+      if (client) handle(client, message);
+    });
+    socket.on('close', () => {
+      // A session taken over by a newer socket is not disconnected
+      if (client?.socket === socket) disconnect(client);
+    });
+  });
+
+  return wss;
+}
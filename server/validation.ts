@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Campaign, DailySubmission, RunSubmission } from '../src/types';
+import { INITIAL_CITIES, INITIAL_TURRETS } from '../src/game/constants';
+import { dailyChallenge, isDate, utcDate } from '../src/game/daily';
+import { ENEMY_POINTS, maxEnemyPoints } from '../src/game/enemies';
+import { MAX_COMBO } from '../src/game/scoring';
+import { maxCapacity } from '../src/game/upgrades';
+import { DEFAULT_CAMPAIGN, spawnOffsets } from '../src/game/waves';
+
+const MAX_NAME_LENGTH = 24;
+const MAX_DURATION_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ValidationResult = { ok: true; run: RunSubmission } | { ok: false; error: string };
+export type DailyValidationResult = { ok: true; run: DailySubmission } | { ok: false; error: string };
+
+function isInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value);
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+/** Every score the campaign can produce is a multiple of this. Combos only multiply kill points. */
+export function scoreGranularity(campaign: Campaign): number {
+  const kills = Object.values(ENEMY_POINTS).reduce(gcd);
+  return campaign.waves.reduce((g, w) => gcd(gcd(g, w.bonus.perInterceptor), w.bonus.perCity), kills);
+}
+
+/**
+ * Upper bound for a run that reached `level`: the most valuable enemies the
+ * waves up to that level could have spawned within the duration (as if each
+ * wave began at time zero), all at the top combo multiplier, plus the largest
+ * possible clear bonus per wave.
+ */
+export function maxPlausibleScore(campaign: Campaign, level: number, durationMs: number): number {
+  const maxAmmo = INITIAL_TURRETS.reduce((sum, t) => sum + maxCapacity(t), 0);
+  return campaign.waves.slice(0, level).reduce((total, wave) => {
+    const spawned = spawnOffsets(wave).filter(offset => wave.startDelay + offset <= durationMs).length;
+    const kills = wave.enemies
+      .flatMap(e => Array<number>(e.count).fill(maxEnemyPoints(e.type)))
+      .sort((a, b) => b - a)
+      .slice(0, spawned)
+      .reduce((sum, points) => sum + points, 0);
+    const bonus = maxAmmo * wave.bonus.perInterceptor + INITIAL_CITIES.length * wave.bonus.perCity;
+    return total + kills * MAX_COMBO + bonus;
+  }, 0);
+}
+
+export function validateRun(body: unknown): ValidationResult {
+  if (typeof body !== 'object' || body === null) return { ok: false, error: 'Expected a JSON object' };
+  const { playerName, score, level, citiesSurviving, durationMs } = body as Record<string, unknown>;
+
+  if (typeof playerName !== 'string' || playerName.trim().length === 0) {
+    return { ok: false, error: 'playerName is required' };
+  }
+  const name = playerName.trim();
+  if (name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `playerName must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (!isInteger(score) || score < 0) return { ok: false, error: 'score must be a non-negative integer' };
+  const waves = DEFAULT_CAMPAIGN.waves.length;
+  if (!isInteger(level) || level < 1 || level > waves) {
+    return { ok: false, error: `level must be between 1 and ${waves}` };
+  }
+  if (!isInteger(citiesSurviving) || citiesSurviving < 0 || citiesSurviving > INITIAL_CITIES.length) {
+    return { ok: false, error: `citiesSurviving must be between 0 and ${INITIAL_CITIES.length}` };
+  }
+  if (!isInteger(durationMs) || durationMs <= 0 || durationMs > MAX_DURATION_MS) {
+    return { ok: false, error: 'durationMs is out of range' };
+  }
+
+  const granularity = scoreGranularity(DEFAULT_CAMPAIGN);
+  if (score % granularity !== 0) {
+    return { ok: false, error: `score must be a multiple of ${granularity}` };
+  }
+  if (score > maxPlausibleScore(DEFAULT_CAMPAIGN, level, durationMs)) {
+    return { ok: false, error: 'score is not achievable in the reported duration' };
+  }
+
+  return { ok: true, run: { playerName: name, score, level, citiesSurviving, durationMs } };
+}
+
+/**
+ * A daily attempt must also name a challenge that is still open and match its
+ * seed and modifier. Runs that end just after midnight still count for the day
+ * they started on.
+ */
+export function validateDailyRun(body: unknown, now: number): DailyValidationResult {
+  const result = validateRun(body);
+  if ('error' in result) return result;
+  const { date, seed, modifier } = body as Record<string, unknown>;
+  if (!isDate(date)) return { ok: false, error: 'date must be YYYY-MM-DD' };
+  if (date !== utcDate(now) && date !== utcDate(now - DAY_MS)) {
+    return { ok: false, error: `the challenge for ${date} is closed` };
+  }
+  const challenge = dailyChallenge(date);
+  if (seed !== challenge.seed || modifier !== challenge.modifier) {
+    return { ok: false, error: `seed and modifier do not match the challenge for ${date}` };
+  }
+  return { ok: true, run: { ...result.run, ...challenge } };
+}
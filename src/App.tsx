@@ -3,354 +3,928 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Trophy, Skull, Play, RotateCcw, Shield, Target, Zap } from 'lucide-react';
-import { GameStatus, Point, Rocket, Interceptor, Explosion, City, Turret } from './types';
-
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
-const TARGET_SCORE = 1000;
-
-const INITIAL_TURRETS: Turret[] = [
-  { id: 't1', x: 80, y: 550, ammo: 20, maxAmmo: 20, active: true },
-  { id: 't2', x: 400, y: 550, ammo: 40, maxAmmo: 40, active: true },
-  { id: 't3', x: 720, y: 550, ammo: 20, maxAmmo: 20, active: true },
-];
-
-const INITIAL_CITIES: City[] = [
-  { id: 'c1', x: 180, y: 570, active: true },
-  { id: 'c2', x: 260, y: 570, active: true },
-  { id: 'c3', x: 340, y: 570, active: true },
-  { id: 'c4', x: 460, y: 570, active: true },
-  { id: 'c5', x: 540, y: 570, active: true },
-  { id: 'c6', x: 620, y: 570, active: true },
-];
+import { Trophy, Skull, Play, Pause, Home, Volume2, VolumeX, RotateCcw, Shield, Target, Zap, Download, Film, Upload, Award, Settings, History, PencilRuler } from 'lucide-react';
+import { Campaign, Commentary, DailyChallenge, DailyRun, GameInput, GameMode, GameState, GameStatus, LeaderboardEntry, Level, Locale, Point, Profile, RuleSet, Turret, UpgradeKind } from './types';
+import { WORLD_HEIGHT, WORLD_WIDTH, TICK_MS } from './game/constants';
+import { createGameState, nearestTurret, pause, resume, step } from './game/engine';
+import { drainSteps, frameElapsed, MAX_FRAME_MS } from './game/loop';
+import { randomSeed } from './game/random';
+import { DEFAULT_CAMPAIGN } from './game/waves';
+import { levelToCampaign, loadLevelDraft, saveLevelDraft } from './game/level';
+import { hasAttempted, saveAttempt } from './game/daily';
+import { difficultyTier, loadBestScores, loadRuleSet, RULE_SETS, RULES, saveBestScores, saveRuleSet, timeLeft, waveAt } from './game/rules';
+import { createReplay, createReplayPlayer, finishReplay, parseReplay, recordInputs, Replay, ReplayPlayer, serializeReplay } from './game/replay';
+import { Leaderboard, SubmitRunForm } from './components/Leaderboard';
+import { DailyChallengeCard } from './components/DailyChallengeCard';
+import { ReplayControls } from './components/ReplayControls';
+import { WaveTally } from './components/WaveTally';
+import { UpgradeShop } from './components/UpgradeShop';
+import { GamepadSettings } from './components/GamepadSettings';
+import { ScoreBreakdown } from './components/ScoreBreakdown';
+import { AudioSettingsPanel } from './components/AudioSettingsPanel';
+import { CommentaryPanel } from './components/CommentaryPanel';
+import { PlayerStatsTable } from './components/PlayerStatsTable';
+import { NetConnection, OnlineLobby } from './components/OnlineLobby';
+import { AchievementGallery } from './components/AchievementGallery';
+import { AchievementToast, AchievementToasts } from './components/AchievementToasts';
+import { SettingsScreen } from './components/SettingsScreen';
+import { LevelEditor } from './components/LevelEditor';
+import { createSoundEngine, SoundEngine } from './audio/engine';
+import { AudioSettings, loadAudioSettings, saveAudioSettings } from './audio/settings';
+import { AccessibilitySettings, loadAccessibilitySettings, saveAccessibilitySettings } from './accessibility/settings';
+import { announcements } from './accessibility/announcements';
+import { createSnapshot, Snapshot } from './save/snapshot';
+import { clearSavedRun, loadSavedRun, saveRun } from './save/storage';
+import { createEventBus } from './game/events';
+import { createRunStats } from './game/stats';
+import { createAchievementTracker } from './game/achievements';
+import { Bot, createBot } from './game/bot';
+import { ATTACKER, isAttacker } from './game/versus';
+import { createCommentaryProvider } from './commentary';
+import { loadProfile, mergeProfiles, recordGame, saveProfile, unlock } from './profile';
+import { syncProfile } from './api/profile';
+import { submitDailyRun } from './api/leaderboard';
+import { AttackMarker, Crosshair, livePopups, renderFrame, ScorePopup, scorePopups } from './render/renderer';
+import { THEMES } from './render/theme';
+import { createEffects, loadReducedMotion, saveReducedMotion } from './render/effects';
+import { backingSize, fitViewport, insideWorld, toWorld, Viewport } from './render/viewport';
+import { createTranslator, loadLocale, LOCALE_NAMES, LOCALES, MessageKey, saveLocale } from './i18n';
+import { CROSSHAIR_SPEED, heldDirection, keyAction, KeyScheme, loadKeyScheme, moveCrosshair, saveKeyScheme, turretInSlot } from './input/keyboard';
+import { assistAim } from './input/aimAssist';
+import { GamepadMapping, loadGamepadMapping, PadCursor, pollGamepads, rumble, saveGamepadMapping } from './input/gamepad';
+import { cycleTarget, GAME_MODES, InputSource, loadGameMode, ownedTurrets, playerFor, saveGameMode } from './input/players';
+import { createNetClient, NetClient, NetEvent } from './net/client';
+import { createOnlineGame, OnlineGame } from './net/online';
+import { ClientMessage, RoomInfo } from './net/protocol';
+
+// How long the first wave's briefing stays over the battlefield
+const OPENING_BRIEFING_MS = 8000;
+
+const MODE_LABELS: Record<GameMode, MessageKey> = { solo: 'modeSolo', coop: 'modeCoop', versus: 'modeVersus' };
+const MODE_HINTS: Record<GameMode, MessageKey> = { solo: 'modeHintSolo', coop: 'modeHintCoop', versus: 'modeHintVersus' };
+const RULE_LABELS: Record<RuleSet, MessageKey> = { classic: 'rulesClassic', endless: 'rulesEndless', timeAttack: 'rulesTimeAttack' };
+const RULE_HINTS: Record<RuleSet, MessageKey> = { classic: 'rulesHintClassic', endless: 'rulesHintEndless', timeAttack: 'rulesHintTimeAttack' };
+
+function formatClock(ms: number): string {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [gameState, setGameState] = useState<GameStatus>(GameStatus.START);
   const [score, setScore] = useState(0);
   const [level, setLevel] = useState(1);
-  const [language, setLanguage] = useState<'zh' | 'en'>('zh');
-
-  // Refs for game entities to avoid React state overhead in the loop
-  const rocketsRef = useRef<Rocket[]>([]);
-  const interceptorsRef = useRef<Interceptor[]>([]);
-  const explosionsRef = useRef<Explosion[]>([]);
-  const citiesRef = useRef<City[]>(INITIAL_CITIES.map(c => ({ ...c })));
-  const turretsRef = useRef<Turret[]>(INITIAL_TURRETS.map(t => ({ ...t })));
-  const lastSpawnTime = useRef(0);
+  const [credits, setCredits] = useState(0);
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const [submittedEntry, setSubmittedEntry] = useState<LeaderboardEntry | null>(null);
+  const [replayTick, setReplayTick] = useState(0);
+  const [playback, setPlayback] = useState({ speed: 1, paused: false });
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [keyScheme, setKeyScheme] = useState<KeyScheme>(loadKeyScheme);
+  const [gamepadMapping, setGamepadMapping] = useState<GamepadMapping>(loadGamepadMapping);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
+  const [reducedMotion, setReducedMotion] = useState(loadReducedMotion);
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+  const [openingBriefing, setOpeningBriefing] = useState<Commentary | null>(null);
+  const [mode, setMode] = useState<GameMode>(loadGameMode);
+  const [rules, setRules] = useState<RuleSet>(loadRuleSet);
+  const [bestScores, setBestScores] = useState(loadBestScores);
+  const [clock, setClock] = useState(0); // whole simulated seconds, for the timer in the footer
+  const [playerScores, setPlayerScores] = useState<number[]>([]);
+  const [netConnection, setNetConnection] = useState<NetConnection>('offline');
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [netError, setNetError] = useState<string | null>(null);
+  const [profile, setProfile] = useState<Profile>(loadProfile);
+  const [toasts, setToasts] = useState<AchievementToast[]>([]);
+  const [showAchievements, setShowAchievements] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  // Stays open under a playtest, so quitting one goes back to the level
+  const [showEditor, setShowEditor] = useState(false);
+  const [editorLevel, setEditorLevel] = useState(loadLevelDraft);
+  // What the screen reader live regions say; urgent news goes to the assertive one
+  const [spoken, setSpoken] = useState({ polite: '', assertive: '' });
+  // Set while the current run is a daily challenge
+  const [dailyRun, setDailyRun] = useState<DailyRun | null>(null);
+  // The autosaved offline run offered as Continue on the title screen
+  const [savedRun, setSavedRun] = useState<Snapshot | null>(null);
+
+  // The simulation lives in a ref to avoid React state overhead in the loop
+  const gameRef = useRef<GameState>({ ...createGameState(randomSeed()), status: GameStatus.START });
+  const pendingInputsRef = useRef<GameInput[]>([]);
+  const accumulatorRef = useRef(0);
+  const lastFrameRef = useRef<number | null>(null);
   const requestRef = useRef<number>(0);
+  const recordingRef = useRef<Replay | null>(null);
+  // Attract mode: a bot plays a demo game behind the title screen
+  const attractRef = useRef<{ game: GameState; bot: Bot } | null>(null);
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const playbackRef = useRef(playback);
+  playbackRef.current = playback;
+  // Live and replayed steps both report here; sound, popups and rumble listen
+  const eventBusRef = useRef(createEventBus());
+  const soundRef = useRef<SoundEngine | null>(null);
+  const crosshairRef = useRef<Point>({ x: WORLD_WIDTH / 2, y: WORLD_HEIGHT / 2 });
+  const heldKeysRef = useRef(new Set<string>());
+  // Turret last fired by key; shift+click keeps firing from it
+  const selectedTurretRef = useRef<string | null>(null);
+  // City or turret the versus attacker is aiming at
+  const attackTargetRef = useRef<string | null>(null);
+  const netRef = useRef<NetClient | null>(null);
+  // Set while playing online; the server owns the game and this predicts it
+  const onlineRef = useRef<OnlineGame | null>(null);
+  const padsRef = useRef(new Map<number, PadCursor>());
+  const popupsRef = useRef<ScorePopup[]>([]);
+  // Particles follow game time, so they freeze on pause and follow replay speed
+  const [effects] = useState(() => createEffects(reducedMotion));
+  const effectsTimeRef = useRef(0);
+  const [runStats] = useState(createRunStats);
+  const [achievements] = useState(() => createAchievementTracker());
+  const profileRef = useRef(profile);
+  const toastKeyRef = useRef(0);
+  const [commentary] = useState(() => createCommentaryProvider());
+  const viewportRef = useRef<Viewport>(fitViewport(WORLD_WIDTH, WORLD_HEIGHT, 1));
+  const gamepadMappingRef = useRef(gamepadMapping);
+  gamepadMappingRef.current = gamepadMapping;
+  const accessibilityRef = useRef(accessibility);
+  accessibilityRef.current = accessibility;
 
-  const t = {
-    zh: {
-      title: "LIAOZHIH星空防御",
-      start: "开始游戏",
-      win: "胜利！",
-      lose: "城市陷落",
-      restart: "再玩一次",
-      score: "得分",
-      level: "关卡",
-      ammo: "弹药",
-      mission: "目标：1000分",
-      instructions: "点击屏幕发射拦截导弹。保护城市和炮台！",
-    },
-    en: {
-      title: "LIAOZHIH Starry Defense",
-      start: "Start Game",
-      win: "Victory!",
-      lose: "Cities Fallen",
-      restart: "Play Again",
-      score: "Score",
-      level: "Level",
-      ammo: "Ammo",
-      mission: "Goal: 1000 Pts",
-      instructions: "Click to fire interceptors. Protect cities and turrets!",
-    }
-  }[language];
+  const t = useMemo(() => createTranslator(locale), [locale]);
+  const theme = THEMES[accessibility.palette];
+  // Canvas drawing runs outside React renders
+  const translateRef = useRef(t);
+  translateRef.current = t;
+
+  // Browsers only allow audio to start from a user gesture, so this runs from click handlers
+  const ensureSound = useCallback(() => {
+    if (soundRef.current || typeof AudioContext === 'undefined') return;
+    const sound = createSoundEngine(new AudioContext());
+    sound.setSettings(loadAudioSettings());
+    soundRef.current = sound;
+    eventBusRef.current.subscribe(sound.handleEvents);
+  }, []);
 
-  const resetGame = useCallback(() => {
+  // Daily challenges are always solo and take their seed and modifier from the challenge
+  const startGame = useCallback((challenge: DailyChallenge | null, campaign: Campaign = DEFAULT_CAMPAIGN) => {
+    ensureSound();
+    const seed = challenge?.seed ?? randomSeed();
+    const gameMode = challenge ? 'solo' : mode;
+    const modifier = challenge?.modifier ?? null;
+    const gameRules = challenge ? 'classic' : rules;
+    const game = createGameState(seed, campaign, gameMode, modifier, gameRules);
+    gameRef.current = game;
+    // A new run takes the save slot over
+    setSavedRun(null);
+    clearSavedRun().catch(() => {});
+    recordingRef.current = createReplay(seed, campaign, gameMode, modifier, gameRules);
+    if (challenge) {
+      setDailyRun({ challenge, ranked: !hasAttempted(challenge.date) });
+      saveAttempt(challenge.date);
+    } else {
+      setDailyRun(null);
+    }
+    runStats.reset();
+    achievements.reset(profileRef.current.stats.kills);
+    setOpeningBriefing(null);
+    commentary
+      .briefing({ locale, level: 1, totalWaves: game.campaign.waves.length, wave: game.campaign.waves[0], citiesLeft: game.cities.length })
+      .then(briefing => gameRef.current === game && setOpeningBriefing(briefing))
+      .catch(() => {});
+    replayPlayerRef.current = null;
+    pendingInputsRef.current = [];
+    accumulatorRef.current = 0;
+    selectedTurretRef.current = null;
+    attackTargetRef.current = null;
+    setSubmittedEntry(null);
+    setPlayerScores(game.players.map(p => p.score));
     setScore(0);
+    setCredits(0);
     setLevel(1);
     setGameState(GameStatus.PLAYING);
-    rocketsRef.current = [];
-    interceptorsRef.current = [];
-    explosionsRef.current = [];
-    citiesRef.current = INITIAL_CITIES.map(c => ({ ...c }));
-    turretsRef.current = INITIAL_TURRETS.map(t => ({ ...t }));
+  }, [ensureSound, locale, mode, rules, runStats, achievements, commentary]);
+
+  // Picks an autosaved run up where it stopped: paused, or between waves
+  const continueRun = useCallback((snapshot: Snapshot) => {
+    ensureSound();
+    const game = structuredClone(snapshot.state);
+    gameRef.current = game;
+    recordingRef.current = structuredClone(snapshot.replay);
+    setDailyRun(snapshot.daily);
+    runStats.restore(snapshot.stats);
+    achievements.resume(profileRef.current.stats.kills, snapshot.stats);
+    setOpeningBriefing(null);
+    replayPlayerRef.current = null;
+    pendingInputsRef.current = [];
+    accumulatorRef.current = 0;
+    selectedTurretRef.current = null;
+    attackTargetRef.current = null;
+    setSubmittedEntry(null);
+    setPlayerScores(game.players.map(p => p.score));
+    setScore(game.score);
+    setCredits(game.credits);
+    setLevel(game.level);
+    setClock(Math.floor(game.time / 1000));
+    setGameState(game.status);
+  }, [ensureSound, runStats, achievements]);
+
+  // Restarting a daily challenge replays the same day, unranked from then on; a custom level restarts itself
+  const resetGame = useCallback(
+    () => (dailyRun ? startGame(dailyRun.challenge) : startGame(null, gameRef.current.campaign)),
+    [startGame, dailyRun],
+  );
+
+  const startPlayback = useCallback((replay: Replay) => {
+    ensureSound();
+    const player = createReplayPlayer(replay);
+    replayPlayerRef.current = player;
+    gameRef.current = player.state;
+    accumulatorRef.current = 0;
+    setReplayError(null);
+    setReplayTick(0);
+    setPlayback({ speed: 1, paused: false });
+    setScore(0);
+    setLevel(1);
+    setGameState(GameStatus.REPLAY);
+  }, [ensureSound]);
+
+  const seekPlayback = useCallback((tick: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) return;
+    player.seek(tick);
+    gameRef.current = player.state;
+    setReplayTick(player.state.tick);
+    setScore(player.state.score);
+    setLevel(player.state.level);
   }, []);
 
-  const spawnRocket = useCallback(() => {
-    const targets = [...citiesRef.current.filter(c => c.active), ...turretsRef.current.filter(t => t.active)];
-    if (targets.length === 0) return;
-
-    const target = targets[Math.floor(Math.random() * targets.length)];
-    const startX = Math.random() * CANVAS_WIDTH;
-    
-    const newRocket: Rocket = {
-      id: Math.random().toString(36).substr(2, 9),
-      x: startX,
-      y: 0,
-      targetX: target.x,
-      targetY: target.y,
-      speed: 0.0005 + (level * 0.0002),
-      progress: 0,
-    };
-    rocketsRef.current.push(newRocket);
-  }, [level]);
+  // Stops following the online game; the server room is kept unless `leave`
+  const endOnlineGame = useCallback((leave: boolean) => {
+    onlineRef.current?.dispose();
+    onlineRef.current = null;
+    if (leave) netRef.current?.send({ type: 'leaveRoom' });
+  }, []);
+
+  // Abandons a run or a replay and shows the title screen
+  const quitToTitle = useCallback(() => {
+    const status = gameRef.current.status;
+    // Leaving mid-game closes the room; after the game both players go back to it for a rematch
+    if (onlineRef.current) endOnlineGame(status !== GameStatus.WON && status !== GameStatus.LOST);
+    replayPlayerRef.current = null;
+    gameRef.current = { ...createGameState(randomSeed()), status: GameStatus.START };
+    setDailyRun(null);
+    setScore(0);
+    setLevel(1);
+    setGameState(GameStatus.START);
+  }, [endOnlineGame]);
+
+  // Also runs when a dropped connection comes back and the server resends the game
+  const startOnlineGame = useCallback((player: number, state: GameState) => {
+    const resumed = onlineRef.current !== null;
+    onlineRef.current?.dispose();
+    const online = createOnlineGame(netRef.current!, player, state);
+    onlineRef.current = online;
+    gameRef.current = online.state;
+    replayPlayerRef.current = null;
+    recordingRef.current = null; // the server has the only authoritative run
+    pendingInputsRef.current = [];
+    if (!resumed) {
+      runStats.reset();
+      achievements.reset(profileRef.current.stats.kills);
+      setOpeningBriefing(null);
+      selectedTurretRef.current = null;
+      setSubmittedEntry(null);
+      setDailyRun(null);
+    }
+    setPlayerScores(state.players.map(p => p.score));
+    setScore(state.score);
+    setCredits(state.credits);
+    setLevel(state.level);
+    setGameState(state.status);
+  }, [runStats, achievements]);
+
+  const handleNetEvent = useCallback((event: NetEvent) => {
+    switch (event.type) {
+      case 'connection':
+        setNetConnection(event.open ? 'open' : 'connecting');
+        return;
+      case 'room':
+        setRoom(event.room);
+        if (event.room) setNetError(null);
+        // The room closing under a running game ends it here too
+        else if (onlineRef.current) quitToTitle();
+        return;
+      case 'started':
+        startOnlineGame(event.player, event.state);
+        return;
+      case 'error':
+        setNetError(event.message);
+        return;
+    }
+  }, [quitToTitle, startOnlineGame]);
+
+  const goOnline = (name: string) => {
+    netRef.current?.close();
+    const client = createNetClient(name);
+    client.subscribe(handleNetEvent);
+    netRef.current = client;
+    setNetError(null);
+    setNetConnection('connecting');
+  };
+
+  const goOffline = () => {
+    netRef.current?.close();
+    netRef.current = null;
+    setRoom(null);
+    setNetConnection('offline');
+  };
 
-  const handleCanvasClick = (e: React.MouseEvent | React.TouchEvent) => {
+  // Lobby clicks are the last user gesture before an online game starts, so sound starts here
+  const sendNet = (message: ClientMessage) => {
+    ensureSound();
+    netRef.current?.send(message);
+  };
+
+  useEffect(() => () => netRef.current?.close(), []);
+
+  // Online, every device on this tab controls this tab's seat
+  const localPlayer = useCallback(
+    (source: InputSource) => onlineRef.current?.player ?? playerFor(source, gameRef.current.mode),
+    [],
+  );
+
+  const downloadReplay = () => {
+    const replay = recordingRef.current;
+    if (!replay) return;
+    const url = URL.createObjectURL(new Blob([serializeReplay(replay)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `starry-defense-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const loadReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      startPlayback(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Briefing for the wave after the one just cleared
+  const loadNextBriefing = () => {
+    const game = gameRef.current;
+    return commentary.briefing({
+      locale,
+      level: game.level + 1,
+      totalWaves: Math.max(game.campaign.waves.length, game.level + 1),
+      wave: waveAt(game.campaign, game.wave.index + 1),
+      citiesLeft: game.cities.filter(c => c.active).length,
+    });
+  };
+
+  const loadDebrief = () => {
+    const game = gameRef.current;
+    return commentary.debrief({
+      locale,
+      won: game.status === GameStatus.WON,
+      score: game.score,
+      level: game.level,
+      stats: runStats.snapshot(),
+    });
+  };
+
+  const finishedRun = () => ({
+    score: gameRef.current.score,
+    level: gameRef.current.level,
+    citiesSurviving: gameRef.current.cities.filter(c => c.active).length,
+    durationMs: Math.round(gameRef.current.time),
+  });
+
+  // The end-screen best and board. Only classic solo runs are submitted; daily runs post to the day's board, and only their ranked attempt.
+  // Custom levels have neither
+  const renderRunSubmission = () => {
+    const challenge = dailyRun?.challenge;
+    const runRules = gameRef.current.rules;
+    if (gameRef.current.campaign.id !== DEFAULT_CAMPAIGN.id) return null;
+    return (
+      <>
+        <p className="text-[10px] text-white/40 font-mono">
+          {t('bestScore', { rules: t(RULE_LABELS[runRules]), score: bestScores[runRules] })}
+        </p>
+        {gameRef.current.mode === 'solo' && gameRef.current.rules === 'classic' && !challenge && (
+          <SubmitRunForm run={finishedRun()} t={t} onSubmitted={setSubmittedEntry} />
+        )}
+        {challenge && dailyRun.ranked && (
+          <SubmitRunForm
+            run={finishedRun()}
+            t={t}
+            onSubmitted={setSubmittedEntry}
+            submit={run => submitDailyRun({ ...run, ...challenge })}
+          />
+        )}
+        {challenge && !dailyRun.ranked && <p className="text-[10px] text-white/40 font-mono">{t('dailyPractice')}</p>}
+        <Leaderboard t={t} highlightId={submittedEntry?.id} refreshKey={submittedEntry?.id} daily={challenge?.date} />
+      </>
+    );
+  };
+
+  // Aim assist pulls a shot from `turret` onto a warhead close to where it was aimed
+  const assistedAim = useCallback(
+    (at: Point, turret: Turret | null) => (accessibilityRef.current.aimAssist ? assistAim(gameRef.current, at, turret) : at),
+    [],
+  );
+
+  // Each finger is its own pointer, so two touches fire two shots
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
     if (gameState !== GameStatus.PLAYING) return;
 
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = toWorld(viewportRef.current, e.clientX - rect.left, e.clientY - rect.top);
+    if (!insideWorld(point)) return; // a letterbox bar
+    // The pointer is player 1 offline; the keyboard crosshair and selection only follow it in solo
+    const game = gameRef.current;
+    const solo = game.mode === 'solo';
+    const player = localPlayer({ kind: 'pointer' });
+    const locked = e.shiftKey && solo ? selectedTurretRef.current : null;
+    // Assisted with the turret the engine will fire from
+    const turret = locked ? (game.turrets.find(t => t.id === locked) ?? null) : nearestTurret(game.turrets, point.x, player);
+    const at = assistedAim(point, turret);
+    // Rounded so recorded replays stay compact
+    const x = Math.round(at.x * 10) / 10;
+    const y = Math.round(at.y * 10) / 10;
+    if (solo) crosshairRef.current = { x, y };
+
+    const input: GameInput = locked ? { type: 'fire', x, y, turretId: locked } : { type: 'fire', x, y };
+    pendingInputsRef.current.push(player ? { ...input, player } : input);
+  };
+
+  // Match the backing store to the canvas's on-screen size and pixel density
+  useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const resize = () => {
+      const viewport = fitViewport(canvas.clientWidth, canvas.clientHeight, window.devicePixelRatio || 1);
+      const { width, height } = backingSize(viewport);
+      canvas.width = width;
+      canvas.height = height;
+      viewportRef.current = viewport;
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    observer.observe(canvas);
+    // Zooming or moving to another monitor changes the pixel ratio without resizing the element
+    window.addEventListener('resize', resize);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', resize);
+    };
+  }, []);
 
-    const rect = canvas.getBoundingClientRect();
-    let clientX, clientY;
-    
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = e.clientX;
-      clientY = e.clientY;
+  // The versus attacker's fire slots: left and right pick the previous or next target, centre launches
+  const aimAttack = useCallback((slot: number, at: Point) => {
+    const game = gameRef.current;
+    if (slot !== 1) {
+      attackTargetRef.current = cycleTarget(game, attackTargetRef.current, slot === 0 ? -1 : 1, at.x);
+      return;
     }
+    const targetId = cycleTarget(game, attackTargetRef.current, 0, at.x);
+    if (targetId) pendingInputsRef.current.push({ type: 'launch', x: Math.round(at.x * 10) / 10, targetId });
+  }, []);
+
+  // Fires from the player's left, center or right turret (slot 0-2) at `at`, and selects it
+  const fireFromSlot = useCallback((slot: number, at: Point, player = 0) => {
+    const game = gameRef.current;
+    if (isAttacker(game.mode, player)) {
+      aimAttack(slot, at);
+      return;
+    }
+    const turret = turretInSlot(ownedTurrets(game.turrets, player), slot);
+    if (!turret) return;
+    selectedTurretRef.current = turret.id;
+    const aim = assistedAim(at, turret);
+    const input: GameInput = { type: 'fire', x: Math.round(aim.x * 10) / 10, y: Math.round(aim.y * 10) / 10, turretId: turret.id };
+    pendingInputsRef.current.push(player ? { ...input, player } : input);
+  }, [aimAttack, assistedAim]);
+
+  // Online the server pauses, and only while a player is disconnected
+  const setPaused = useCallback((paused: boolean) => {
+    if (onlineRef.current) return;
+    const game = gameRef.current;
+    if (paused) pause(game);
+    else resume(game);
+    // Drop whatever wall-clock time built up so resuming neither bursts nor jumps
+    accumulatorRef.current = 0;
+    heldKeysRef.current.clear();
+    setGameState(game.status);
+  }, []);
+
+  const togglePause = useCallback(() => {
+    setPaused(gameRef.current.status === GameStatus.PLAYING);
+  }, [setPaused]);
+
+  const changeLocale = (next: Locale) => {
+    saveLocale(next);
+    setLocale(next);
+  };
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const updateProfile = useCallback((change: (profile: Profile) => Profile) => {
+    const next = change(profileRef.current);
+    if (next === profileRef.current) return;
+    profileRef.current = next;
+    saveProfile(next);
+    setProfile(next);
+  }, []);
+
+  // Without a server the profile simply stays local
+  const pushProfile = useCallback(() => {
+    syncProfile(profileRef.current)
+      .then(remote => updateProfile(local => mergeProfiles(local, remote)))
+      .catch(() => {});
+  }, [updateProfile]);
+
+  useEffect(pushProfile, [pushProfile]);
+
+  const dismissToast = useCallback((key: number) => {
+    setToasts(current => current.filter(toast => toast.key !== key));
+  }, []);
 
-    const scaleX = CANVAS_WIDTH / rect.width;
-    const scaleY = CANVAS_HEIGHT / rect.height;
-    const x = (clientX - rect.left) * scaleX;
-    const y = (clientY - rect.top) * scaleY;
-
-    // Find best turret
-    let bestTurret: Turret | null = null;
-    let minDist = Infinity;
-
-    turretsRef.current.forEach(t => {
-      if (t.active && t.ammo > 0) {
-        const dist = Math.abs(t.x - x);
-        if (dist < minDist) {
-          minDist = dist;
-          bestTurret = t;
-        }
+  useEffect(() => {
+    const bus = eventBusRef.current;
+    const unsubscribePopups = bus.subscribe((events, state) => {
+      popupsRef.current.push(...scorePopups(events, state.time, translateRef.current));
+    });
+    const unsubscribeEffects = bus.subscribe(effects.handleEvents);
+    const unsubscribeStats = bus.subscribe((events, state) => {
+      if (!replayPlayerRef.current) runStats.handleEvents(events, state);
+    });
+    const unsubscribeAnnouncements = bus.subscribe((events, state) => {
+      if (replayPlayerRef.current) return;
+      const lines = announcements(events, state, translateRef.current);
+      const polite = lines.filter(line => !line.urgent).map(line => line.text).join(' ');
+      const assertive = lines.filter(line => line.urgent).map(line => line.text).join(' ');
+      if (polite || assertive) setSpoken(current => ({ polite: polite || current.polite, assertive: assertive || current.assertive }));
+    });
+    const unsubscribeRumble = bus.subscribe(events => {
+      if (replayPlayerRef.current) return;
+      if (events.some(e => e.type === 'cityDestroyed' || e.type === 'turretDestroyed')) rumble();
+    });
+    // Subscribed after the run stats so a finished game is recorded with its last events counted
+    const unsubscribeProfile = bus.subscribe((events, state) => {
+      if (replayPlayerRef.current) return;
+      const fresh = achievements
+        .handleEvents(events, state)
+        .filter(id => profileRef.current.achievements[id] === undefined);
+      if (fresh.length > 0) {
+        updateProfile(current => unlock(current, fresh));
+        setToasts(current => [...current, ...fresh.map(id => ({ key: ++toastKeyRef.current, id }))]);
+      }
+      const over = events.some(e => e.type === 'statusChanged' && (e.status === GameStatus.WON || e.status === GameStatus.LOST));
+      if (over) {
+        updateProfile(current => recordGame(current, runStats.snapshot(), state));
+        pushProfile();
+        setBestScores(current => {
+          if (state.campaign.id !== DEFAULT_CAMPAIGN.id || state.score <= current[state.rules]) return current;
+          const next = { ...current, [state.rules]: state.score };
+          saveBestScores(next);
+          return next;
+        });
       }
     });
+    return () => {
+      unsubscribePopups();
+      unsubscribeEffects();
+      unsubscribeStats();
+      unsubscribeAnnouncements();
+      unsubscribeRumble();
+      unsubscribeProfile();
+    };
+  }, [updateProfile, pushProfile, runStats, achievements, effects]);
+
+  useEffect(() => () => soundRef.current?.dispose(), []);
+
+  useEffect(() => {
+    if (!openingBriefing) return;
+    const timer = setTimeout(() => setOpeningBriefing(null), OPENING_BRIEFING_MS);
+    return () => clearTimeout(timer);
+  }, [openingBriefing]);
 
-    if (bestTurret) {
-      (bestTurret as Turret).ammo -= 1;
-      interceptorsRef.current.push({
-        id: Math.random().toString(36).substr(2, 9),
-        x: (bestTurret as Turret).x,
-        y: (bestTurret as Turret).y,
-        startX: (bestTurret as Turret).x,
-        startY: (bestTurret as Turret).y,
-        targetX: x,
-        targetY: y,
-        speed: 0.02,
-        progress: 0,
-      });
+  useEffect(() => {
+    soundRef.current?.setSettings(audioSettings);
+  }, [audioSettings]);
+
+  // Without IndexedDB there is simply nothing to continue
+  useEffect(() => {
+    loadSavedRun()
+      .then(saved => saved && gameRef.current.status === GameStatus.START && setSavedRun(saved))
+      .catch(() => {});
+  }, []);
+
+  // Offline runs are saved between waves, again after each upgrade bought, and on pause,
+  // which also covers the tab being hidden or closed. A finished run has nothing left to save.
+  useEffect(() => {
+    if (onlineRef.current || replayPlayerRef.current) return;
+    if (gameState === GameStatus.NEXT_ROUND || gameState === GameStatus.PAUSED) {
+      const snapshot = createSnapshot(gameRef.current, runStats.snapshot(), recordingRef.current, dailyRun);
+      setSavedRun(snapshot);
+      saveRun(snapshot).catch(() => {});
+    } else if (gameState === GameStatus.WON || gameState === GameStatus.LOST) {
+      setSavedRun(null);
+      clearSavedRun().catch(() => {});
     }
+  }, [gameState, credits, dailyRun, runStats]);
+
+  useEffect(() => {
+    soundRef.current?.setMusicPlaying(gameState === GameStatus.PLAYING);
+  }, [gameState]);
+
+  const changeReducedMotion = (reduced: boolean) => {
+    saveReducedMotion(reduced);
+    effects.setReducedMotion(reduced);
+    setReducedMotion(reduced);
   };
 
-  const update = useCallback((time: number) => {
-    if (gameState !== GameStatus.PLAYING) return;
+  const changeAccessibility = (settings: AccessibilitySettings) => {
+    saveAccessibilitySettings(settings);
+    setAccessibility(settings);
+  };
 
-    // Spawn rockets
-    const spawnInterval = Math.max(500, 2000 - level * 200);
-    if (time - lastSpawnTime.current > spawnInterval) {
-      spawnRocket();
-      lastSpawnTime.current = time;
-    }
+  const changeEditorLevel = (next: Level) => {
+    saveLevelDraft(next);
+    setEditorLevel(next);
+  };
+
+  const changeAudioSettings = (settings: AudioSettings) => {
+    saveAudioSettings(settings);
+    setAudioSettings(settings);
+  };
+
+  const changeMode = (next: GameMode) => {
+    saveGameMode(next);
+    setMode(next);
+  };
 
-    // Update rockets
-    rocketsRef.current = rocketsRef.current.filter(r => {
-      r.progress += r.speed;
-      r.x = r.x + (r.targetX - r.x) * r.speed / (1 - r.progress + 0.001);
-      r.y = r.y + (r.targetY - r.y) * r.speed / (1 - r.progress + 0.001);
-
-      if (r.progress >= 1) {
-        // Hit target
-        const city = citiesRef.current.find(c => Math.abs(c.x - r.targetX) < 5 && Math.abs(c.y - r.targetY) < 5);
-        if (city) city.active = false;
-        const turret = turretsRef.current.find(t => Math.abs(t.x - r.targetX) < 5 && Math.abs(t.y - r.targetY) < 5);
-        if (turret) turret.active = false;
-
-        // Check loss condition
-        if (turretsRef.current.every(t => !t.active)) {
-          setGameState(GameStatus.LOST);
-        }
-        return false;
+  const changeRules = (next: RuleSet) => {
+    saveRuleSet(next);
+    setRules(next);
+  };
+
+  const changeKeyScheme = (scheme: KeyScheme) => {
+    saveKeyScheme(scheme);
+    setKeyScheme(scheme);
+  };
+
+  const changeGamepadMapping = useCallback((mapping: GamepadMapping) => {
+    saveGamepadMapping(mapping);
+    setGamepadMapping(mapping);
+  }, []);
+
+  useEffect(() => {
+    const held = heldKeysRef.current;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      // Enter starts a game from the title screen unless it is activating a focused control
+      if (e.code === 'Enter' && gameState === GameStatus.START && !showAchievements && !showSettings && !showEditor && !(e.target instanceof HTMLElement && e.target.closest('button, a, select, summary'))) {
+        e.preventDefault();
+        startGame(null);
+        return;
       }
-      return true;
-    });
+      const action = keyAction(e.code, keyScheme);
+      if (action?.type === 'pause' && (gameState === GameStatus.PLAYING || gameState === GameStatus.PAUSED)) {
+        e.preventDefault();
+        if (!e.repeat) togglePause();
+        return;
+      }
+      if (!action || action.type === 'pause' || gameState !== GameStatus.PLAYING) return;
+      e.preventDefault();
+      if (action.type === 'move') {
+        held.add(e.code);
+        return;
+      }
+      if (!e.repeat) fireFromSlot(action.slot, crosshairRef.current, localPlayer({ kind: 'keyboard' }));
+    };
+    const onKeyUp = (e: KeyboardEvent) => held.delete(e.code);
+    const onBlur = () => held.clear();
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      held.clear();
+    };
+  }, [gameState, showAchievements, showSettings, showEditor, keyScheme, fireFromSlot, togglePause, localPlayer, startGame]);
 
-    // Update interceptors
-    interceptorsRef.current = interceptorsRef.current.filter(i => {
-      i.progress += i.speed;
-      const dx = i.targetX - i.startX;
-      const dy = i.targetY - i.startY;
-      i.x = i.startX + dx * i.progress;
-      i.y = i.startY + dy * i.progress;
-
-      if (i.progress >= 1) {
-        explosionsRef.current.push({
-          id: Math.random().toString(36).substr(2, 9),
-          x: i.targetX,
-          y: i.targetY,
-          radius: 0,
-          maxRadius: 40,
-          expanding: true,
-          life: 1,
-        });
-        return false;
+  // Pause when the player looks away; they resume by hand
+  useEffect(() => {
+    const onHidden = () => {
+      if (gameRef.current.status === GameStatus.PLAYING) setPaused(true);
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) onHidden();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', onHidden);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', onHidden);
+    };
+  }, [setPaused]);
+
+  // Steps the live game once and records the inputs for its replay
+  const runStep = useCallback((inputs: GameInput[]) => {
+    const game = gameRef.current;
+    const tick = game.tick + 1;
+    eventBusRef.current.emit(step(game, inputs, TICK_MS), game);
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordInputs(recording, tick, inputs);
+    if (game.status === GameStatus.WON || game.status === GameStatus.LOST) {
+      finishReplay(recording, game);
+    }
+  }, []);
+
+  // Between waves inputs apply at once rather than on the next tick
+  const applyNow = useCallback((input: GameInput) => {
+    const online = onlineRef.current;
+    if (!online) return runStep([input]);
+    eventBusRef.current.emit(online.act(input), online.state);
+  }, [runStep]);
+
+  const buyUpgrade = useCallback((turretId: string, upgrade: UpgradeKind) => {
+    applyNow({ type: 'buyUpgrade', turretId, upgrade });
+    setCredits(gameRef.current.credits);
+  }, [applyNow]);
+
+  const continueToNextWave = useCallback(() => {
+    applyNow({ type: 'continue' });
+    accumulatorRef.current = 0;
+    setGameState(gameRef.current.status);
+  }, [applyNow]);
+
+  // Only re-renders when a player's score actually changed
+  const syncPlayerScores = useCallback((game: GameState) => {
+    setPlayerScores(scores =>
+      scores.length === game.players.length && scores.every((points, k) => points === game.players[k].score)
+        ? scores
+        : game.players.map(p => p.score),
+    );
+  }, []);
+
+  // The demo never touches the event bus, so it makes no sound and counts toward no stats
+  const stepAttract = useCallback((elapsed: number) => {
+    accumulatorRef.current = drainSteps(accumulatorRef.current, elapsed, () => true, () => {
+      let demo = attractRef.current;
+      if (!demo || (demo.game.status !== GameStatus.PLAYING && demo.game.status !== GameStatus.NEXT_ROUND)) {
+        demo = { game: createGameState(randomSeed()), bot: createBot('intercept', randomSeed()) };
+        attractRef.current = demo;
       }
-      return true;
+      step(demo.game, demo.bot.decide(demo.game), TICK_MS);
     });
+  }, []);
 
-    // Update explosions
-    explosionsRef.current = explosionsRef.current.filter(e => {
-      if (e.expanding) {
-        e.radius += 2;
-        if (e.radius >= e.maxRadius) e.expanding = false;
-      } else {
-        e.life -= 0.02;
-        e.radius -= 0.5;
-      }
+  const update = useCallback((time: number) => {
+    const elapsed = frameElapsed(lastFrameRef.current, time);
+    lastFrameRef.current = time;
 
-      // Check collisions with rockets
-      rocketsRef.current = rocketsRef.current.filter(r => {
-        const dist = Math.sqrt((r.x - e.x) ** 2 + (r.y - e.y) ** 2);
-        if (dist < e.radius) {
-          setScore(prev => {
-            const newScore = prev + 20;
-            if (newScore >= TARGET_SCORE) {
-              setGameState(GameStatus.WON);
-            }
-            return newScore;
-          });
-          return false;
-        }
-        return true;
-      });
-
-      return e.life > 0;
+    const player = replayPlayerRef.current;
+    if (player) {
+      if (playbackRef.current.paused || player.finished()) return;
+      accumulatorRef.current = drainSteps(
+        accumulatorRef.current,
+        elapsed * playbackRef.current.speed,
+        () => !player.finished(),
+        () => eventBusRef.current.emit(player.advance(), player.state),
+      );
+      setReplayTick(player.state.tick);
+      setScore(player.state.score);
+      syncPlayerScores(player.state);
+      setLevel(player.state.level);
+      return;
+    }
+
+    const game = gameRef.current;
+    const padEvents = pollGamepads(padsRef.current, gamepadMappingRef.current, elapsed);
+    const pads = [...padsRef.current.keys()];
+    padEvents.forEach(e => {
+      if (e.type === 'pause') togglePause();
+      else if (game.status === GameStatus.PLAYING) {
+        fireFromSlot(e.slot, e.at, localPlayer({ kind: 'pad', slot: pads.indexOf(e.pad), pads: pads.length }));
+      }
     });
+    const online = onlineRef.current;
+    if (game.status === GameStatus.START) {
+      stepAttract(elapsed);
+      return;
+    }
+    if (game.status !== GameStatus.PLAYING && !online) {
+      accumulatorRef.current = 0;
+      return;
+    }
+
+    // The crosshair is UI, not simulation: it moves on wall-clock time
+    const { dx, dy } = heldDirection(heldKeysRef.current, keyScheme);
+    if (dx || dy) {
+      crosshairRef.current = moveCrosshair(crosshairRef.current, dx, dy, (CROSSHAIR_SPEED * elapsed) / 1000);
+    }
 
-    // Level up logic (optional, but adds progression)
-    if (score > level * 200 && level < 5) {
-      setLevel(prev => prev + 1);
-      // Refill ammo on level up
-      turretsRef.current.forEach(t => {
-        if (t.active) t.ammo = t.maxAmmo;
-      });
+    if (online) {
+      // Snapshots can arrive in any status, so the prediction is updated every frame
+      const inputs = pendingInputsRef.current;
+      pendingInputsRef.current = [];
+      eventBusRef.current.emit(online.update(elapsed, inputs), online.state);
+      gameRef.current = online.state;
+    } else {
+      // Run as many fixed steps as the elapsed wall-clock time covers, slowed by the game speed setting
+      accumulatorRef.current = drainSteps(
+        accumulatorRef.current,
+        elapsed * accessibilityRef.current.gameSpeed,
+        () => game.status === GameStatus.PLAYING,
+        () => {
+          const inputs = pendingInputsRef.current;
+          pendingInputsRef.current = [];
+          runStep(inputs);
+        },
+      );
     }
 
-  }, [gameState, level, score, spawnRocket]);
+    const current = gameRef.current;
+    setScore(current.score);
+    syncPlayerScores(current);
+    setLevel(current.level);
+    setClock(Math.floor(current.time / 1000));
+    setCredits(current.credits);
+    setGameState(current.status);
+  }, [runStep, stepAttract, keyScheme, fireFromSlot, togglePause, syncPlayerScores, localPlayer]);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
+    const attract = gameRef.current.status === GameStatus.START ? attractRef.current : null;
+    const game = attract?.game ?? gameRef.current;
+    const live = !replayPlayerRef.current && !attract;
+    const aiming = live && game.status === GameStatus.PLAYING;
+    const solo = game.mode === 'solo';
+    const theme = THEMES[accessibilityRef.current.palette];
 
-    // Clear
-    ctx.fillStyle = '#0a0a0a';
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Draw Ground
-    ctx.fillStyle = '#1a1a1a';
-    ctx.fillRect(0, 550, CANVAS_WIDTH, 50);
-
-    // Draw Cities
-    citiesRef.current.forEach(c => {
-      if (c.active) {
-        ctx.fillStyle = '#3b82f6';
-        ctx.fillRect(c.x - 15, c.y - 10, 30, 20);
-        ctx.fillStyle = '#60a5fa';
-        ctx.fillRect(c.x - 10, c.y - 15, 10, 10);
-        ctx.fillRect(c.x + 2, c.y - 12, 8, 8);
-      } else {
-        ctx.fillStyle = '#451a03';
-        ctx.beginPath();
-        ctx.arc(c.x, c.y, 10, 0, Math.PI * 2);
-        ctx.fill();
-      }
-    });
-
-    // Draw Turrets
-    turretsRef.current.forEach(t => {
-      if (t.active) {
-        ctx.fillStyle = '#10b981';
-        ctx.beginPath();
-        ctx.moveTo(t.x - 20, t.y + 20);
-        ctx.lineTo(t.x + 20, t.y + 20);
-        ctx.lineTo(t.x, t.y - 10);
-        ctx.closePath();
-        ctx.fill();
-        
-        // Ammo indicator
-        ctx.fillStyle = '#fff';
-        ctx.font = '10px monospace';
-        ctx.textAlign = 'center';
-        ctx.fillText(t.ammo.toString(), t.x, t.y + 35);
-      } else {
-        ctx.fillStyle = '#ef4444';
-        ctx.beginPath();
-        ctx.moveTo(t.x - 15, t.y + 15);
-        ctx.lineTo(t.x + 15, t.y - 15);
-        ctx.moveTo(t.x + 15, t.y + 15);
-        ctx.lineTo(t.x - 15, t.y - 15);
-        ctx.stroke();
-      }
+    // Each pad's crosshair in its player's colour; the attacker's pad steers the launch marker instead
+    const padIds = [...padsRef.current.keys()];
+    const padPlayer = (k: number) => localPlayer({ kind: 'pad', slot: k, pads: padIds.length });
+    const pads: Crosshair[] = [];
+    let attackCursor = crosshairRef.current;
+    [...padsRef.current.values()].forEach((pad, k) => {
+      const player = padPlayer(k);
+      if (isAttacker(game.mode, player)) attackCursor = pad.position;
+      else pads.push({ position: pad.position, color: solo ? theme.pads[k % theme.pads.length] : theme.players[player] });
     });
+    const keyboardPlayer = localPlayer({ kind: 'keyboard' });
 
-    // Draw Rockets
-    ctx.lineWidth = 1;
-    rocketsRef.current.forEach(r => {
-      ctx.strokeStyle = '#ef4444';
-      ctx.beginPath();
-      ctx.moveTo(r.x - (r.targetX - r.x) * 0.1, r.y - (r.targetY - r.y) * 0.1);
-      ctx.lineTo(r.x, r.y);
-      ctx.stroke();
-      
-      ctx.fillStyle = '#f87171';
-      ctx.beginPath();
-      ctx.arc(r.x, r.y, 2, 0, Math.PI * 2);
-      ctx.fill();
-    });
+    let attack: AttackMarker | null = null;
+    if (aiming && game.mode === 'versus') {
+      attackTargetRef.current = cycleTarget(game, attackTargetRef.current, 0, attackCursor.x);
+      const target = [...game.cities, ...game.turrets].find(t => t.id === attackTargetRef.current) ?? null;
+      attack = {
+        x: attackCursor.x,
+        target,
+        ready: game.time >= game.attackReadyAt && game.wave.schedule.length > 0,
+        remaining: game.wave.schedule.length,
+        color: theme.players[ATTACKER],
+      };
+    }
 
-    // Draw Interceptors
-    interceptorsRef.current.forEach(i => {
-      ctx.strokeStyle = '#fff';
-      ctx.beginPath();
-      ctx.moveTo(i.startX, i.startY);
-      ctx.lineTo(i.x, i.y);
-      ctx.stroke();
-
-      // Target X
-      ctx.strokeStyle = '#fff';
-      ctx.beginPath();
-      ctx.moveTo(i.targetX - 5, i.targetY - 5);
-      ctx.lineTo(i.targetX + 5, i.targetY + 5);
-      ctx.moveTo(i.targetX + 5, i.targetY - 5);
-      ctx.lineTo(i.targetX - 5, i.targetY + 5);
-      ctx.stroke();
-    });
+    popupsRef.current = livePopups(popupsRef.current, game.time);
+    // Time going backwards or jumping means a new game or a replay seek
+    const advanced = game.time - effectsTimeRef.current;
+    effectsTimeRef.current = game.time;
+    if (advanced < 0 || advanced > MAX_FRAME_MS * 8) effects.reset();
+    else effects.update(advanced, game);
 
-    // Draw Explosions
-    explosionsRef.current.forEach(e => {
-      const gradient = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
-      gradient.addColorStop(0, `rgba(255, 255, 255, ${e.life})`);
-      gradient.addColorStop(0.4, `rgba(251, 191, 36, ${e.life})`);
-      gradient.addColorStop(1, `rgba(239, 68, 68, 0)`);
-      
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
-      ctx.fill();
+    renderFrame(ctx, viewportRef.current, game, {
+      selectedTurretId: live ? selectedTurretRef.current : null,
+      crosshair:
+        aiming && !isAttacker(game.mode, keyboardPlayer)
+          ? { position: crosshairRef.current, color: theme.players[keyboardPlayer] }
+          : null,
+      pads: aiming ? pads : [],
+      attack,
+      popups: popupsRef.current,
+      effects,
+      theme,
+      t: translateRef.current,
     });
-
-  }, []);
+  }, [localPlayer, effects]);
 
   const gameLoop = useCallback((time: number) => {
     update(time);
@@ -372,37 +946,83 @@ export default function App() {
             <Shield className="text-black w-6 h-6" />
           </div>
           <div>
-            <h1 className="text-xl font-bold tracking-tight">{t.title}</h1>
-            <p className="text-[10px] uppercase tracking-widest text-emerald-500 font-mono">{t.mission}</p>
+            <h1 className="text-xl font-bold tracking-tight">{t('title')}</h1>
+            <p className="text-[10px] uppercase tracking-widest text-emerald-500 font-mono">
+              {gameRef.current.rules === 'classic' ? t('mission', { waves: gameRef.current.campaign.waves.length }) : t(RULE_LABELS[gameRef.current.rules])}
+            </p>
           </div>
         </div>
 
         <div className="flex items-center gap-6">
           <div className="flex flex-col items-end">
-            <span className="text-[10px] uppercase text-white/40 font-mono">{t.score}</span>
+            <span className="text-[10px] uppercase text-white/40 font-mono">{t('score')}</span>
             <span className="text-2xl font-bold font-mono text-emerald-400">{score.toString().padStart(4, '0')}</span>
+            {gameRef.current.mode !== 'solo' && gameState !== GameStatus.START && (
+              <span className="flex gap-2 text-[10px] font-mono">
+                {playerScores.map((points, k) => (
+                  <span key={k} style={{ color: theme.players[k] }}>
+                    {t('player', { n: k + 1 })} {points}
+                  </span>
+                ))}
+              </span>
+            )}
           </div>
-          <button 
-            onClick={() => setLanguage(l => l === 'zh' ? 'en' : 'zh')}
-            className="px-3 py-1 rounded-full border border-white/10 text-xs hover:bg-white/5 transition-colors"
+          <button
+            onClick={() => changeAudioSettings({ ...audioSettings, muted: !audioSettings.muted })}
+            title={audioSettings.muted ? t('unmute') : t('mute')}
+            className="p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
           >
-            {language === 'zh' ? 'EN' : '中文'}
+            {audioSettings.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
           </button>
+          {(gameState === GameStatus.PLAYING || gameState === GameStatus.PAUSED) && !onlineRef.current && (
+            <button
+              onClick={togglePause}
+              title={gameState === GameStatus.PAUSED ? t('resume') : t('pause')}
+              className="p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+            >
+              {gameState === GameStatus.PAUSED ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            </button>
+          )}
+          <select
+            value={locale}
+            onChange={e => changeLocale(e.target.value as Locale)}
+            aria-label={t('language')}
+            className="px-3 py-1 rounded-full border border-white/10 bg-transparent text-xs hover:bg-white/5 transition-colors"
+          >
+            {LOCALES.map(l => (
+              <option key={l} value={l} className="bg-neutral-900">
+                {LOCALE_NAMES[l]}
+              </option>
+            ))}
+          </select>
         </div>
       </header>
 
       {/* Main Game Area */}
       <main className="relative w-full h-screen flex items-center justify-center overflow-hidden pt-16">
-        <div className="relative aspect-[4/3] w-full max-w-4xl bg-black shadow-2xl shadow-black/50 border border-white/5 rounded-lg overflow-hidden">
+        <div className="relative w-full h-full sm:h-auto sm:aspect-[4/3] max-w-4xl bg-black shadow-2xl shadow-black/50 border border-white/5 rounded-lg overflow-hidden">
           <canvas
             ref={canvasRef}
-            width={CANVAS_WIDTH}
-            height={CANVAS_HEIGHT}
-            onMouseDown={handleCanvasClick}
-            onTouchStart={handleCanvasClick}
-            className="w-full h-full cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
           />
 
+          <AnimatePresence>
+            {openingBriefing && gameState === GameStatus.PLAYING && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+                aria-live="polite"
+                className="absolute top-3 left-1/2 -translate-x-1/2 w-[90%] max-w-md px-4 py-2 rounded-xl bg-black/70 border border-emerald-500/30 text-center pointer-events-none"
+              >
+                <p className="text-[10px] uppercase text-emerald-400 font-mono">{t('briefing')}</p>
+                <p className="text-xs">{openingBriefing.text}</p>
+                <p className="text-[10px] text-white/40">{openingBriefing.translation}</p>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
           {/* Overlays */}
           <AnimatePresence>
             {gameState === GameStatus.START && (
@@ -410,49 +1030,258 @@ export default function App() {
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
                 exit={{ opacity: 0 }}
-                className="absolute inset-0 bg-black/80 backdrop-blur-sm flex flex-center items-center justify-center p-8 text-center"
+                className="absolute inset-0 bg-black/80 backdrop-blur-sm flex flex-center items-center justify-center p-8 text-center overflow-y-auto"
               >
                 <div className="max-w-md">
                   <motion.div
                     initial={{ scale: 0.9, y: 20 }}
                     animate={{ scale: 1, y: 0 }}
-                    className="space-y-8"
+                    className="space-y-6"
                   >
                     <div className="space-y-2">
-                      <h2 className="text-5xl font-black tracking-tighter italic text-emerald-500">{t.title}</h2>
-                      <p className="text-white/60 text-sm">{t.instructions}</p>
+                      <h2 className="text-5xl font-black tracking-tighter italic text-emerald-500">{t('title')}</h2>
+                      <p className="text-white/60 text-sm">{t('instructions')}</p>
                     </div>
                     
                     <div className="grid grid-cols-3 gap-4 py-4">
                       <div className="p-4 rounded-2xl bg-white/5 border border-white/10 flex flex-col items-center gap-2">
                         <Target className="w-5 h-5 text-emerald-400" />
-                        <span className="text-[10px] uppercase font-mono">Precision</span>
+                        <span className="text-[10px] uppercase font-mono">{t('featurePrecision')}</span>
                       </div>
                       <div className="p-4 rounded-2xl bg-white/5 border border-white/10 flex flex-col items-center gap-2">
                         <Zap className="w-5 h-5 text-amber-400" />
-                        <span className="text-[10px] uppercase font-mono">Speed</span>
+                        <span className="text-[10px] uppercase font-mono">{t('featureSpeed')}</span>
                       </div>
                       <div className="p-4 rounded-2xl bg-white/5 border border-white/10 flex flex-col items-center gap-2">
                         <Shield className="w-5 h-5 text-blue-400" />
-                        <span className="text-[10px] uppercase font-mono">Defense</span>
+                        <span className="text-[10px] uppercase font-mono">{t('featureDefense')}</span>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="inline-flex rounded-full border border-white/10 p-0.5 text-xs font-mono">
+                        {GAME_MODES.map(m => (
+                          <button
+                            key={m}
+                            onClick={() => changeMode(m)}
+                            className={`px-4 py-1 rounded-full transition-colors ${mode === m ? 'bg-emerald-500 text-black' : 'text-white/60 hover:bg-white/5'}`}
+                          >
+                            {t(MODE_LABELS[m])}
+                          </button>
+                        ))}
                       </div>
+                      <p className="text-white/40 text-[10px] font-mono">{t(MODE_HINTS[mode])}</p>
                     </div>
 
+                    <div className="space-y-2">
+                      <div className="inline-flex rounded-full border border-white/10 p-0.5 text-xs font-mono">
+                        {RULE_SETS.map(r => (
+                          <button
+                            key={r}
+                            onClick={() => changeRules(r)}
+                            className={`px-4 py-1 rounded-full transition-colors ${rules === r ? 'bg-emerald-500 text-black' : 'text-white/60 hover:bg-white/5'}`}
+                          >
+                            {t(RULE_LABELS[r])}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-white/40 text-[10px] font-mono">{t(RULE_HINTS[rules])}</p>
+                      {bestScores[rules] > 0 && (
+                        <p className="text-white/40 text-[10px] font-mono">{t('bestScore', { rules: t(RULE_LABELS[rules]), score: bestScores[rules] })}</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <p className="text-white/40 text-[10px] font-mono">{t('controls')}</p>
+                      <div className="inline-flex rounded-full border border-white/10 p-0.5 text-[10px] font-mono">
+                        {(['arrows', 'wasd'] as const).map(scheme => (
+                          <button
+                            key={scheme}
+                            onClick={() => changeKeyScheme(scheme)}
+                            className={`px-3 py-1 rounded-full transition-colors ${keyScheme === scheme ? 'bg-emerald-500 text-black' : 'text-white/60 hover:bg-white/5'}`}
+                          >
+                            {scheme === 'arrows' ? t('keySchemeArrows') : t('keySchemeWasd')}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <GamepadSettings mapping={gamepadMapping} t={t} onChange={changeGamepadMapping} />
+                    <AudioSettingsPanel settings={audioSettings} t={t} onChange={changeAudioSettings} />
+                    <OnlineLobby
+                      connection={netConnection}
+                      room={room}
+                      error={netError}
+                      colors={theme.players}
+                      t={t}
+                      onConnect={goOnline}
+                      onDisconnect={goOffline}
+                      send={sendNet}
+                    />
+
+                    <Leaderboard t={t} />
+
+                    <DailyChallengeCard t={t} onPlay={startGame} />
+
+                    <div className="flex justify-center gap-2">
+                      <button
+                        onClick={() => setShowAchievements(true)}
+                        className="inline-flex items-center gap-1 px-4 py-2 rounded-full border border-white/10 text-xs hover:bg-white/5 transition-colors"
+                      >
+                        <Award className="w-3 h-3" />
+                        {t('achievements')}
+                      </button>
+                      <button
+                        onClick={() => setShowSettings(true)}
+                        className="inline-flex items-center gap-1 px-4 py-2 rounded-full border border-white/10 text-xs hover:bg-white/5 transition-colors"
+                      >
+                        <Settings className="w-3 h-3" />
+                        {t('settings')}
+                      </button>
+                      <button
+                        onClick={() => setShowEditor(true)}
+                        className="inline-flex items-center gap-1 px-4 py-2 rounded-full border border-white/10 text-xs hover:bg-white/5 transition-colors"
+                      >
+                        <PencilRuler className="w-3 h-3" />
+                        {t('levelEditor')}
+                      </button>
+                    </div>
+
+                    {savedRun && (
+                      <button
+                        onClick={() => continueRun(savedRun)}
+                        className="w-full px-6 py-3 rounded-2xl border border-emerald-500/40 bg-emerald-500/10 text-sm font-bold flex items-center justify-center gap-2 hover:bg-emerald-500/20 transition-colors"
+                      >
+                        <History className="w-4 h-4" />
+                        {t('continueRun')}
+                        <span className="text-[10px] font-mono font-normal text-white/60">
+                          {t('continueRunDetail', { level: savedRun.state.level, score: savedRun.state.score })}
+                        </span>
+                      </button>
+                    )}
+
                     <button
-                      onClick={resetGame}
+                      onClick={() => startGame(null)}
+                      autoFocus
                       className="group relative px-12 py-4 bg-emerald-500 text-black font-bold rounded-full overflow-hidden transition-all hover:scale-105 active:scale-95 shadow-xl shadow-emerald-500/20"
                     >
                       <span className="relative z-10 flex items-center gap-2">
                         <Play className="w-5 h-5 fill-current" />
-                        {t.start}
+                        {t('start')}
                       </span>
                       <div className="absolute inset-0 bg-white translate-y-full group-hover:translate-y-0 transition-transform duration-300 opacity-20" />
                     </button>
+
+                    <div className="space-y-1">
+                      <label className="inline-flex items-center gap-1 px-4 py-2 rounded-full border border-white/10 text-xs cursor-pointer hover:bg-white/5 transition-colors">
+                        <Upload className="w-3 h-3" />
+                        {t('loadReplay')}
+                        <input type="file" accept="application/json,.json" onChange={loadReplayFile} className="hidden" />
+                      </label>
+                      {replayError && <p className="text-[10px] text-red-400 font-mono">{replayError}</p>}
+                    </div>
                   </motion.div>
                 </div>
               </motion.div>
             )}
 
+            {gameState === GameStatus.START && showAchievements && (
+              <AchievementGallery profile={profile} t={t} onClose={() => setShowAchievements(false)} />
+            )}
+
+            {gameState === GameStatus.START && showSettings && (
+              <SettingsScreen
+                settings={accessibility}
+                reducedMotion={reducedMotion}
+                t={t}
+                onChange={changeAccessibility}
+                onReducedMotionChange={changeReducedMotion}
+                onClose={() => setShowSettings(false)}
+              />
+            )}
+
+            {gameState === GameStatus.START && showEditor && (
+              <LevelEditor
+                level={editorLevel}
+                theme={theme}
+                t={t}
+                onChange={changeEditorLevel}
+                onPlaytest={() => startGame(null, levelToCampaign(editorLevel))}
+                onClose={() => setShowEditor(false)}
+              />
+            )}
+
+            {gameState === GameStatus.PAUSED && onlineRef.current && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-8 text-center"
+              >
+                <div className="space-y-4 w-full max-w-xs">
+                  <h2 className="text-4xl font-black italic tracking-tighter text-white">{t('paused')}</h2>
+                  <p className="text-white/60 text-sm">{t('partnerAway')}</p>
+                  <button
+                    onClick={quitToTitle}
+                    className="w-full py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                  >
+                    <Home className="w-3 h-3" />
+                    {t('quitToTitle')}
+                  </button>
+                </div>
+              </motion.div>
+            )}
+
+            {gameState === GameStatus.PAUSED && !onlineRef.current && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-8 text-center"
+              >
+                <div className="space-y-4 w-full max-w-xs">
+                  <h2 className="text-4xl font-black italic tracking-tighter text-white">{t('paused')}</h2>
+                  <button
+                    onClick={() => setPaused(false)}
+                    className="w-full py-3 bg-emerald-500 text-black font-bold rounded-2xl hover:bg-emerald-400 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Play className="w-5 h-5 fill-current" />
+                    {t('resume')}
+                  </button>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={resetGame}
+                      className="py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {t('restart')}
+                    </button>
+                    <button
+                      onClick={quitToTitle}
+                      className="py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                    >
+                      <Home className="w-3 h-3" />
+                      {t('quitToTitle')}
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            )}
+
+            {gameState === GameStatus.NEXT_ROUND && gameRef.current.tally && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                className="absolute inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-8 text-center"
+              >
+                <WaveTally tally={gameRef.current.tally} t={t} onContinue={continueToNextWave}>
+                  <UpgradeShop turrets={gameRef.current.turrets} credits={credits} t={t} onBuy={buyUpgrade} />
+                  <CommentaryPanel title={t('briefing')} load={loadNextBriefing} requestKey={`${locale}-${level}`} t={t} />
+                </WaveTally>
+              </motion.div>
+            )}
+
             {gameState === GameStatus.WON && (
               <motion.div 
                 initial={{ opacity: 0 }}
@@ -462,19 +1291,55 @@ export default function App() {
                 <motion.div
                   initial={{ scale: 0.5, rotate: -10 }}
                   animate={{ scale: 1, rotate: 0 }}
-                  className="bg-black p-12 rounded-[3rem] border-4 border-emerald-500 shadow-2xl shadow-emerald-500/40 space-y-6"
+                  className="bg-black p-10 rounded-[3rem] border-4 border-emerald-500 shadow-2xl shadow-emerald-500/40 space-y-5 w-full max-w-sm max-h-full overflow-y-auto"
                 >
-                  <Trophy className="w-24 h-24 text-emerald-500 mx-auto animate-bounce" />
+                  <Trophy className="w-16 h-16 text-emerald-500 mx-auto animate-bounce" />
                   <div className="space-y-2">
-                    <h2 className="text-6xl font-black italic tracking-tighter text-white">{t.win}</h2>
-                    <p className="text-emerald-400 font-mono text-xl">{t.score}: {score}</p>
+                    <h2 className="text-6xl font-black italic tracking-tighter text-white">{t('win')}</h2>
+                    {gameRef.current.mode === 'versus' && <p className="font-bold" style={{ color: theme.players[0] }}>{t('defenderWins')}</p>}
+                    {gameRef.current.rules === 'timeAttack' && <p className="font-bold text-amber-400">{t('timeUp')}</p>}
+                    <p className="text-emerald-400 font-mono text-xl">{t('score')}: {score}</p>
                   </div>
+                  <ScoreBreakdown breakdown={gameRef.current.scoreBreakdown} t={t} />
+                  {gameRef.current.mode !== 'solo' && <PlayerStatsTable players={gameRef.current.players} mode={gameRef.current.mode} colors={theme.players} t={t} />}
+                  <CommentaryPanel title={t('debrief')} load={loadDebrief} requestKey={`${locale}-${recordingRef.current?.seed}`} t={t} />
+                  {renderRunSubmission()}
+                  {recordingRef.current && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => startPlayback(recordingRef.current)}
+                        className="py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                      >
+                        <Film className="w-3 h-3" />
+                        {t('watchReplay')}
+                      </button>
+                      <button
+                        onClick={downloadReplay}
+                        className="py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                      >
+                        <Download className="w-3 h-3" />
+                        {t('saveReplay')}
+                      </button>
+                    </div>
+                  )}
+                  {gameRef.current.campaign.id !== DEFAULT_CAMPAIGN.id && (
+                    <button
+                      onClick={() => {
+                        setShowEditor(true);
+                        quitToTitle();
+                      }}
+                      className="w-full py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                    >
+                      <PencilRuler className="w-3 h-3" />
+                      {t('backToEditor')}
+                    </button>
+                  )}
                   <button
-                    onClick={resetGame}
+                    onClick={onlineRef.current ? quitToTitle : resetGame}
                     className="w-full py-4 bg-emerald-500 text-black font-bold rounded-2xl hover:bg-emerald-400 transition-colors flex items-center justify-center gap-2"
                   >
                     <RotateCcw className="w-5 h-5" />
-                    {t.restart}
+                    {onlineRef.current ? t('backToRoom') : t('restart')}
                   </button>
                 </motion.div>
               </motion.div>
@@ -489,24 +1354,78 @@ export default function App() {
                 <motion.div
                   initial={{ scale: 0.5, y: 50 }}
                   animate={{ scale: 1, y: 0 }}
-                  className="bg-black p-12 rounded-[3rem] border-4 border-red-500 shadow-2xl shadow-red-500/40 space-y-6"
+                  className="bg-black p-10 rounded-[3rem] border-4 border-red-500 shadow-2xl shadow-red-500/40 space-y-5 w-full max-w-sm max-h-full overflow-y-auto"
                 >
-                  <Skull className="w-24 h-24 text-red-500 mx-auto" />
+                  <Skull className="w-16 h-16 text-red-500 mx-auto" />
                   <div className="space-y-2">
-                    <h2 className="text-6xl font-black italic tracking-tighter text-white">{t.lose}</h2>
-                    <p className="text-red-400 font-mono text-xl">{t.score}: {score}</p>
+                    <h2 className="text-6xl font-black italic tracking-tighter text-white">{t('lose')}</h2>
+                    {gameRef.current.mode === 'versus' && <p className="font-bold" style={{ color: theme.players[ATTACKER] }}>{t('attackerWins')}</p>}
+                    <p className="text-red-400 font-mono text-xl">{t('score')}: {score}</p>
                   </div>
+                  <ScoreBreakdown breakdown={gameRef.current.scoreBreakdown} t={t} />
+                  {gameRef.current.mode !== 'solo' && <PlayerStatsTable players={gameRef.current.players} mode={gameRef.current.mode} colors={theme.players} t={t} />}
+                  <CommentaryPanel title={t('debrief')} load={loadDebrief} requestKey={`${locale}-${recordingRef.current?.seed}`} t={t} />
+                  {renderRunSubmission()}
+                  {recordingRef.current && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <button
+                        onClick={() => startPlayback(recordingRef.current)}
+                        className="py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                      >
+                        <Film className="w-3 h-3" />
+                        {t('watchReplay')}
+                      </button>
+                      <button
+                        onClick={downloadReplay}
+                        className="py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                      >
+                        <Download className="w-3 h-3" />
+                        {t('saveReplay')}
+                      </button>
+                    </div>
+                  )}
+                  {gameRef.current.campaign.id !== DEFAULT_CAMPAIGN.id && (
+                    <button
+                      onClick={() => {
+                        setShowEditor(true);
+                        quitToTitle();
+                      }}
+                      className="w-full py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center justify-center gap-1 hover:bg-white/20 transition-colors"
+                    >
+                      <PencilRuler className="w-3 h-3" />
+                      {t('backToEditor')}
+                    </button>
+                  )}
                   <button
-                    onClick={resetGame}
+                    onClick={onlineRef.current ? quitToTitle : resetGame}
                     className="w-full py-4 bg-red-500 text-white font-bold rounded-2xl hover:bg-red-400 transition-colors flex items-center justify-center gap-2"
                   >
                     <RotateCcw className="w-5 h-5" />
-                    {t.restart}
+                    {onlineRef.current ? t('backToRoom') : t('restart')}
                   </button>
                 </motion.div>
               </motion.div>
             )}
           </AnimatePresence>
+
+          <AchievementToasts toasts={toasts} t={t} onDismiss={dismissToast} />
+
+          <div className="sr-only" aria-live="polite">{spoken.polite}</div>
+          <div className="sr-only" aria-live="assertive">{spoken.assertive}</div>
+
+          {gameState === GameStatus.REPLAY && replayPlayerRef.current && (
+            <ReplayControls
+              tick={replayTick}
+              finalTick={replayPlayerRef.current.replay.finalTick}
+              speed={playback.speed}
+              paused={playback.paused}
+              t={t}
+              onTogglePause={() => setPlayback(p => ({ ...p, paused: !p.paused }))}
+              onSpeedChange={speed => setPlayback(p => ({ ...p, speed }))}
+              onSeek={seekPlayback}
+              onExit={quitToTitle}
+            />
+          )}
         </div>
       </main>
 
@@ -514,9 +1433,9 @@ export default function App() {
       <footer className="fixed bottom-0 left-0 right-0 p-6 flex justify-center gap-12 pointer-events-none">
         <div className="flex gap-8 bg-black/60 backdrop-blur-xl px-8 py-4 rounded-3xl border border-white/10 shadow-2xl">
           <div className="flex flex-col items-center">
-            <span className="text-[10px] uppercase text-white/40 font-mono mb-1">{t.level}</span>
+            <span className="text-[10px] uppercase text-white/40 font-mono mb-1">{t('level')}</span>
             <div className="flex gap-1">
-              {[1, 2, 3, 4, 5].map(l => (
+              {gameRef.current.campaign.waves.map((_, i) => i + 1).map(l => (
                 <div 
                   key={l} 
                   className={`w-2 h-6 rounded-full transition-all duration-500 ${l <= level ? 'bg-emerald-500 shadow-[0_0_10px_rgba(16,185,129,0.5)]' : 'bg-white/10'}`} 
@@ -525,18 +1444,41 @@ export default function App() {
             </div>
           </div>
           
+          {RULES[gameRef.current.rules].endless && (
+            <>
+              <div className="w-px h-10 bg-white/10 self-center" />
+              <div className="flex flex-col items-center">
+                <span className="text-[10px] uppercase text-white/40 font-mono mb-1">{t('tier')}</span>
+                <span className="text-lg font-bold font-mono text-amber-400">{difficultyTier(gameRef.current)}</span>
+              </div>
+              <div className="flex flex-col items-center">
+                <span className="text-[10px] uppercase text-white/40 font-mono mb-1">
+                  {timeLeft(gameRef.current) === null ? t('survived') : t('timeLeft')}
+                </span>
+                <span className="text-lg font-bold font-mono tabular-nums">
+                  {formatClock(timeLeft(gameRef.current) ?? clock * 1000)}
+                </span>
+              </div>
+            </>
+          )}
+
           <div className="w-px h-10 bg-white/10 self-center" />
 
           <div className="flex flex-col items-center">
-            <span className="text-[10px] uppercase text-white/40 font-mono mb-1">Cities</span>
-            <div className="flex gap-1">
-              {citiesRef.current.map((c, i) => (
-                <div 
-                  key={i} 
-                  className={`w-4 h-4 rounded-sm transition-all duration-300 ${c.active ? 'bg-blue-500' : 'bg-red-900/50'}`} 
+            <span className="text-[10px] uppercase text-white/40 font-mono mb-1">{t('cities')}</span>
+            {/* A lost city drops to a flat pip, so its status does not rest on colour alone */}
+            <div className="flex items-end gap-1 h-4">
+              {gameRef.current.cities.map((c, i) => (
+                <div
+                  key={i}
+                  className={`w-4 rounded-sm transition-all duration-300 ${c.active ? 'h-4' : 'h-1'}`}
+                  style={{ backgroundColor: c.active ? theme.city : theme.wreck }}
                 />
               ))}
             </div>
+            <span className="text-[10px] text-white/40 font-mono mt-1">
+              {t('citiesRemaining', { count: gameRef.current.cities.filter(c => c.active).length })}
+            </span>
           </div>
         </div>
       </footer>
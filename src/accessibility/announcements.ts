@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState, GameStatus } from '../types';
+import { Translate } from '../i18n';
+
+/** A line for screen readers. Urgent ones interrupt whatever is being read. */
+export interface Announcement {
+  text: string;
+  urgent: boolean;
+}
+
+/** What a player who cannot see the battlefield needs to hear about `events`. */
+export function announcements(events: GameEvent[], state: GameState, t: Translate): Announcement[] {
+  return events.flatMap((e): Announcement[] => {
+    switch (e.type) {
+      case 'waveStarted':
+        return [{ text: t('announceWave', { level: e.level }), urgent: false }];
+      case 'waveCleared':
+        return [{ text: t('announceWaveCleared', { level: e.tally.level, score: state.score }), urgent: false }];
+      case 'cityDestroyed':
+        return [{ text: t('announceCityLost', { count: state.cities.filter(c => c.active).length }), urgent: true }];
+      case 'statusChanged':
+        if (e.status === GameStatus.WON) return [{ text: t('announceWon', { score: state.score }), urgent: true }];
+        if (e.status === GameStatus.LOST) return [{ text: t('announceLost', { score: state.score }), urgent: true }];
+        return [];
+      default:
+        return [];
+    }
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Palette, PALETTES } from '../render/theme';
+
+export interface AccessibilitySettings {
+  palette: Palette;
+  aimAssist: boolean; // detonations snap onto a nearby warhead's predicted position
+  gameSpeed: number; // share of real time the simulation runs at, MIN_GAME_SPEED to 1
+}
+
+export const MIN_GAME_SPEED = 0.5;
+
+export const DEFAULT_ACCESSIBILITY_SETTINGS: AccessibilitySettings = { palette: 'standard', aimAssist: false, gameSpeed: 1 };
+
+const ACCESSIBILITY_KEY = 'starry-defense:accessibility';
+
+export function loadAccessibilitySettings(): AccessibilitySettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ACCESSIBILITY_KEY) ?? 'null');
+    if (
+      PALETTES.includes(saved?.palette) &&
+      typeof saved.aimAssist === 'boolean' &&
+      typeof saved.gameSpeed === 'number' &&
+      saved.gameSpeed >= MIN_GAME_SPEED &&
+      saved.gameSpeed <= 1
+    ) {
+      return saved;
+    }
+  } catch {
+    // Corrupt value: fall back to the defaults
+  }
+  return { ...DEFAULT_ACCESSIBILITY_SETTINGS };
+}
+
+export function saveAccessibilitySettings(settings: AccessibilitySettings) {
+  localStorage.setItem(ACCESSIBILITY_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,36 @@
+import { DailySubmission, LeaderboardEntry, LeaderboardPeriod, RunSubmission } from '../types';
+
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(body.error ?? `Request failed (${res.status})`);
+  return body as T;
+}
+
+export async function fetchLeaderboard(period: LeaderboardPeriod, limit = 10): Promise<LeaderboardEntry[]> {
+  const { entries } = await request<{ entries: LeaderboardEntry[] }>(
+    `/api/leaderboard?period=${period}&limit=${limit}`,
+  );
+  return entries;
+}
+
+export async function submitRun(run: RunSubmission): Promise<{ entry: LeaderboardEntry; rank: number }> {
+  return request('/api/runs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(run),
+  });
+}
+
+export async function fetchDailyLeaderboard(date: string, limit = 10): Promise<LeaderboardEntry[]> {
+  const { entries } = await request<{ entries: LeaderboardEntry[] }>(`/api/daily/${date}/leaderboard?limit=${limit}`);
+  return entries;
+}
+
+export async function submitDailyRun(run: DailySubmission): Promise<{ entry: LeaderboardEntry; rank: number }> {
+  return request('/api/daily/runs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(run),
+  });
+}
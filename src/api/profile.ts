@@ -0,0 +1,12 @@
+import { Profile } from '../types';
+import { request } from './leaderboard';
+
+/** Sends the local profile and returns the server's merge of it with its stored copy. */
+export async function syncProfile(profile: Profile): Promise<Profile> {
+  const body = await request<{ profile: Profile }>(`/api/profiles/${encodeURIComponent(profile.id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(profile),
+  });
+  return body.profile;
+}
@@ -0,0 +1,239 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { GameEvent, GameState } from '../types';
+import { createEventBus } from '../game/events';
+import { AudioContextLike, createSoundEngine, LOW_AMMO, panFor, SoundEngine } from './engine';
+
+type ParamCall = [method: string, value: number, time: number];
+
+class FakeParam {
+  calls: ParamCall[] = [];
+  setValueAtTime(value: number, time: number) {
+    this.calls.push(['setValueAtTime', value, time]);
+  }
+  exponentialRampToValueAtTime(value: number, time: number) {
+    this.calls.push(['exponentialRampToValueAtTime', value, time]);
+  }
+  setTargetAtTime(value: number, time: number) {
+    this.calls.push(['setTargetAtTime', value, time]);
+  }
+}
+
+class FakeNode {
+  outputs: FakeNode[] = [];
+  type = '';
+  gain = new FakeParam();
+  pan = new FakeParam();
+  frequency = new FakeParam();
+  startAt: number | null = null;
+  stopAt: number | null = null;
+  constructor(readonly kind: string) {}
+  connect(node: FakeNode) {
+    this.outputs.push(node);
+    return node;
+  }
+  start(time: number) {
+    this.startAt = time;
+  }
+  stop(time: number) {
+    this.stopAt = time;
+  }
+}
+
+/** Records every node the engine creates, in order. */
+class FakeAudioContext {
+  currentTime = 10;
+  sampleRate = 100;
+  destination = new FakeNode('destination');
+  nodes: FakeNode[] = [];
+  closed = false;
+  private node(kind: string) {
+    const node = new FakeNode(kind);
+    this.nodes.push(node);
+    return node;
+  }
+  createGain() {
+    return this.node('gain');
+  }
+  createOscillator() {
+    return this.node('oscillator');
+  }
+  createBiquadFilter() {
+    return this.node('filter');
+  }
+  createBufferSource() {
+    return this.node('bufferSource');
+  }
+  createStereoPanner() {
+    return this.node('panner');
+  }
+  createBuffer(_channels: number, length: number) {
+    const data = new Float32Array(length);
+    return { getChannelData: () => data };
+  }
+  resume() {
+    return Promise.resolve();
+  }
+  close() {
+    this.closed = true;
+    return Promise.resolve();
+  }
+}
+
+/** The nodes `from` feeds, following the first connection of each, down to the destination. */
+function route(from: FakeNode): FakeNode[] {
+  const path: FakeNode[] = [];
+  for (let node = from.outputs[0]; node; node = node.outputs[0]) path.push(node);
+  return path;
+}
+
+/** Where a source is panned to, or null when it plays centred. */
+function panOf(source: FakeNode): number | null {
+  const panner = route(source).find(n => n.kind === 'panner');
+  return panner ? panner.pan.calls[0][1] : null;
+}
+
+let ctx: FakeAudioContext;
+let engine: SoundEngine;
+let bus: ReturnType<typeof createEventBus>;
+let state: GameState;
+// Nodes created before each test's events: the buses and the noise buffer
+let setupNodes: number;
+
+function sources() {
+  return ctx.nodes.slice(setupNodes).filter(n => n.kind === 'oscillator' || n.kind === 'bufferSource');
+}
+
+function emit(...events: unknown[]) {
+  bus.emit(events as GameEvent[], state);
+}
+
+beforeEach(() => {
+  ctx = new FakeAudioContext();
+  engine = createSoundEngine(ctx as unknown as AudioContextLike);
+  bus = createEventBus();
+  bus.subscribe(engine.handleEvents);
+  state = { turrets: [{ id: 't1', x: 600, ammo: 10 }] } as unknown as GameState;
+  setupNodes = ctx.nodes.length;
+});
+
+describe('panFor', () => {
+  it('pans from the left edge to the right edge of the world', () => {
+    expect(panFor(0)).toBe(-1);
+    expect(panFor(400)).toBe(0);
+    expect(panFor(800)).toBe(1);
+    expect(panFor(-50)).toBe(-1);
+    expect(panFor(900)).toBe(1);
+  });
+});
+
+describe('sound engine', () => {
+  it('routes the buses into the destination', () => {
+    const [master, sfx, music] = ctx.nodes;
+    expect(master.outputs).toEqual([ctx.destination]);
+    expect(sfx.outputs).toEqual([master]);
+    expect(music.outputs).toEqual([master]);
+  });
+
+  it('whistles a falling warhead from where it spawned, at most once per gap', () => {
+    emit({ type: 'enemySpawned', enemy: { type: 'rocket', x: 0 } }, { type: 'enemySpawned', enemy: { type: 'mirv', x: 800 } });
+    expect(sources()).toHaveLength(1);
+    const [whistle] = sources();
+    expect(whistle).toMatchObject({ kind: 'oscillator', type: 'sine', startAt: 10 });
+    expect(panOf(whistle)).toBe(-1);
+
+    ctx.currentTime = 10.2;
+    emit({ type: 'enemySpawned', enemy: { type: 'mirv', x: 800 } }, { type: 'enemySpawned', enemy: { type: 'bomber', x: 400 } });
+    expect(sources()).toHaveLength(2);
+    expect(sources()[1].startAt).toBe(10.2);
+    expect(panOf(sources()[1])).toBe(1);
+  });
+
+  it('sounds an explosion where it went off, shorter for a chain blast', () => {
+    emit({ type: 'explosion', explosion: { x: 200, chain: 0 } }, { type: 'explosion', explosion: { x: 600, chain: 1 } });
+    const [blast, chain] = sources();
+    expect(blast.kind).toBe('bufferSource');
+    expect(route(blast)[0].kind).toBe('filter');
+    expect(panOf(blast)).toBe(-0.5);
+    expect(panOf(chain)).toBe(0.5);
+    expect(blast.startAt).toBe(10);
+    expect(chain.stopAt!).toBeLessThan(blast.stopAt!);
+  });
+
+  it('plays a launch from the firing turret and warns when its ammo runs low', () => {
+    emit({ type: 'interceptorLaunched', turretId: 't1', interceptors: [] });
+    expect(sources().map(s => s.kind)).toEqual(['oscillator', 'bufferSource']);
+    sources().forEach(s => expect(panOf(s)).toBe(0.5));
+
+    state.turrets[0].ammo = LOW_AMMO;
+    emit({ type: 'interceptorLaunched', turretId: 't1', interceptors: [] });
+    const beeps = sources().slice(4);
+    expect(beeps.map(s => [s.type, s.startAt])).toEqual([
+      ['square', 10],
+      ['square', 10.12],
+    ]);
+  });
+
+  it('plays destroyed cities and turrets from where they stood', () => {
+    emit({ type: 'cityDestroyed', city: { x: 0 } }, { type: 'turretDestroyed', turret: { x: 800 } });
+    expect(sources().map(panOf)).toEqual([-1, -1, 1, 1]);
+  });
+
+  it('plays an unpanned arpeggio when a wave is cleared', () => {
+    emit({ type: 'waveCleared', tally: {} });
+    const notes = sources();
+    expect(notes.map(n => n.startAt)).toEqual([10, 10.12, 10.24, 10.36]);
+    notes.forEach(n => {
+      expect(n.type).toBe('triangle');
+      expect(panOf(n)).toBeNull();
+      expect(route(n)[1]).toBe(ctx.nodes[1]); // the sfx bus
+    });
+  });
+
+  it('ignores events it has no sound for', () => {
+    emit({ type: 'score', reason: 'direct', points: 25 });
+    expect(sources()).toEqual([]);
+  });
+
+  it('queues music notes up to the lookahead, on the music bus', () => {
+    engine.scheduleMusic(11);
+    const notes = sources();
+    expect(notes.length).toBeGreaterThan(0);
+    notes.forEach(n => {
+      expect(n.startAt!).toBeGreaterThanOrEqual(10);
+      expect(n.startAt!).toBeLessThan(11);
+      expect(route(n)[1]).toBe(ctx.nodes[2]);
+    });
+    const gaps = notes.slice(1).map((n, i) => n.startAt! - notes[i].startAt!);
+    gaps.forEach(gap => expect(gap).toBeCloseTo(gaps[0]));
+
+    // Calling again only adds what is new
+    engine.scheduleMusic(11);
+    expect(sources()).toHaveLength(notes.length);
+
+    // After a stall the queue picks up at the clock rather than catching up
+    ctx.currentTime = 20;
+    engine.scheduleMusic(20.1);
+    expect(sources()[notes.length].startAt).toBe(20);
+  });
+
+  it('applies volume settings to the buses', () => {
+    const [master, sfx, music] = ctx.nodes;
+    engine.setSettings({ master: 0.8, sfx: 0.5, music: 0.3, muted: false });
+    expect(master.gain.calls.at(-1)).toEqual(['setTargetAtTime', 0.8, 10]);
+    expect(sfx.gain.calls.at(-1)).toEqual(['setTargetAtTime', 0.5, 10]);
+    expect(music.gain.calls.at(-1)).toEqual(['setTargetAtTime', 0.3, 10]);
+
+    engine.setSettings({ master: 0.8, sfx: 0.5, music: 0.3, muted: true });
+    expect(master.gain.calls.at(-1)).toEqual(['setTargetAtTime', 0, 10]);
+  });
+
+  it('closes the context when disposed', () => {
+    engine.dispose();
+    expect(ctx.closed).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState } from '../types';
+import { WORLD_WIDTH } from '../game/constants';
+import { AudioSettings } from './settings';
+
+/** The slice of `AudioContext` the engine uses, so tests can pass a fake. */
+export type AudioContextLike = Pick<
+  AudioContext,
+  | 'currentTime'
+  | 'sampleRate'
+  | 'destination'
+  | 'createGain'
+  | 'createOscillator'
+  | 'createBiquadFilter'
+  | 'createBuffer'
+  | 'createBufferSource'
+  | 'createStereoPanner'
+  | 'resume'
+  | 'close'
+>;
+
+export type SoundName = 'launch' | 'whistle' | 'explosion' | 'cityDestroyed' | 'lowAmmo' | 'waveClear';
+
+export interface SoundEngine {
+  /** Plays a sound panned to world position `x`; `intensity` scales loudness and length. */
+  play(sound: SoundName, x?: number, intensity?: number): void;
+  /** Game event listener: turns what happened in a step into sounds. */
+  handleEvents(events: GameEvent[], state: GameState): void;
+  setSettings(settings: AudioSettings): void;
+  setMusicPlaying(playing: boolean): void;
+  /** Queues music notes that start before `until` (context seconds). Called on a timer while music plays. */
+  scheduleMusic(until: number): void;
+  dispose(): void;
+}
+
+export const LOW_AMMO = 3;
+
+// Seconds of music queued ahead of the clock, and how often the queue is topped up (ms)
+const MUSIC_LOOKAHEAD = 0.5;
+const MUSIC_TIMER_MS = 100;
+const MUSIC_STEP = 60 / 110 / 2; // eighth notes at 110 BPM
+// Bass line in Hz, one note per step
+const MUSIC_NOTES = [110, 110, 130.81, 110, 146.83, 110, 130.81, 98];
+
+// Seconds two whistles must be apart, so a salvo does not turn into noise
+const WHISTLE_GAP = 0.15;
+
+/** Stereo position for a world `x`: -1 at the left edge, 1 at the right. */
+export function panFor(x: number): number {
+  return Math.max(-1, Math.min(1, (x / WORLD_WIDTH) * 2 - 1));
+}
+
+export function createSoundEngine(ctx: AudioContextLike): SoundEngine {
+  const master = ctx.createGain();
+  const sfx = ctx.createGain();
+  const music = ctx.createGain();
+  sfx.connect(master);
+  music.connect(master);
+  master.connect(ctx.destination);
+
+  const noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+  let lastWhistle = -Infinity;
+  let musicTimer: ReturnType<typeof setInterval> | null = null;
+  let musicStep = 0;
+  let nextNoteAt = 0;
+
+  /** Envelope and panner feeding `bus`; returns the node sources connect to. */
+  function voice(start: number, duration: number, gain: number, x: number | undefined, bus: GainNode): AudioNode {
+    const envelope = ctx.createGain();
+    envelope.gain.setValueAtTime(0.0001, start);
+    envelope.gain.exponentialRampToValueAtTime(gain, start + 0.01);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    if (x === undefined) {
+      envelope.connect(bus);
+    } else {
+      const panner = ctx.createStereoPanner();
+      panner.pan.setValueAtTime(panFor(x), start);
+      envelope.connect(panner);
+      panner.connect(bus);
+    }
+    return envelope;
+  }
+
+  function tone(type: OscillatorType, from: number, to: number, start: number, duration: number, gain: number, x?: number, bus = sfx) {
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(to, start + duration);
+    osc.connect(voice(start, duration, gain, x, bus));
+    osc.start(start);
+    osc.stop(start + duration + 0.05);
+  }
+
+  function burst(filterFrom: number, filterTo: number, start: number, duration: number, gain: number, x?: number, filterType: BiquadFilterType = 'lowpass') {
+    const source = ctx.createBufferSource();
+    source.buffer = noise;
+    source.loop = true;
+    const filter = ctx.createBiquadFilter();
+    filter.type = filterType;
+    filter.frequency.setValueAtTime(filterFrom, start);
+    filter.frequency.exponentialRampToValueAtTime(filterTo, start + duration);
+    source.connect(filter);
+    filter.connect(voice(start, duration, gain, x, sfx));
+    source.start(start);
+    source.stop(start + duration + 0.05);
+  }
+
+  const engine: SoundEngine = {
+    play(sound, x, intensity = 1) {
+      const now = ctx.currentTime;
+      switch (sound) {
+        case 'launch':
+          tone('sawtooth', 220, 880, now, 0.2, 0.08, x);
+          burst(800, 3000, now, 0.25, 0.15, x, 'bandpass');
+          break;
+        case 'whistle':
+          if (now - lastWhistle < WHISTLE_GAP) return;
+          lastWhistle = now;
+          tone('sine', 1800, 500, now, 1.4, 0.03, x);
+          break;
+        case 'explosion':
+          burst(1500, 80, now, 0.4 + 0.4 * intensity, 0.5 * intensity, x);
+          break;
+        case 'cityDestroyed':
+          tone('sine', 90, 30, now, 1.2, 0.5, x);
+          burst(600, 40, now, 1.4, 0.6, x);
+          break;
+        case 'lowAmmo':
+          tone('square', 880, 880, now, 0.08, 0.06, x);
+          tone('square', 660, 660, now + 0.12, 0.08, 0.06, x);
+          break;
+        case 'waveClear':
+          [523.25, 659.25, 783.99, 1046.5].forEach((f, k) => tone('triangle', f, f, now + k * 0.12, 0.3, 0.12));
+          break;
+      }
+    },
+
+    handleEvents(events, state) {
+      events.forEach(e => {
+        switch (e.type) {
+          case 'enemySpawned':
+            if (e.enemy.type === 'rocket' || e.enemy.type === 'mirv') engine.play('whistle', e.enemy.x);
+            break;
+          case 'interceptorLaunched': {
+            const turret = state.turrets.find(t => t.id === e.turretId);
+            engine.play('launch', turret?.x);
+            if (turret && turret.ammo <= LOW_AMMO) engine.play('lowAmmo', turret.x);
+            break;
+          }
+          case 'explosion':
+            // Chain blasts are smaller than an interceptor's, and sound it
+            engine.play('explosion', e.explosion.x, e.explosion.chain > 0 ? 0.5 : 1);
+            break;
+          case 'cityDestroyed':
+            engine.play('cityDestroyed', e.city.x);
+            break;
+          case 'turretDestroyed':
+            engine.play('cityDestroyed', e.turret.x);
+            break;
+          case 'waveCleared':
+            engine.play('waveClear');
+            break;
+        }
+      });
+    },
+
+    setSettings(settings) {
+      const now = ctx.currentTime;
+      master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.02);
+      sfx.gain.setTargetAtTime(settings.sfx, now, 0.02);
+      music.gain.setTargetAtTime(settings.music, now, 0.02);
+    },
+
+    setMusicPlaying(playing) {
+      if (playing === (musicTimer !== null)) return;
+      if (!playing) {
+        clearInterval(musicTimer!);
+        musicTimer = null;
+        return;
+      }
+      nextNoteAt = ctx.currentTime + 0.05;
+      engine.scheduleMusic(ctx.currentTime + MUSIC_LOOKAHEAD);
+      musicTimer = setInterval(() => engine.scheduleMusic(ctx.currentTime + MUSIC_LOOKAHEAD), MUSIC_TIMER_MS);
+    },
+
+    scheduleMusic(until) {
+      // After a stall, skip ahead rather than playing the missed notes at once
+      if (nextNoteAt < ctx.currentTime) nextNoteAt = ctx.currentTime;
+      while (nextNoteAt < until) {
+        const f = MUSIC_NOTES[musicStep % MUSIC_NOTES.length];
+        tone('triangle', f, f, nextNoteAt, MUSIC_STEP * 0.9, 0.15, undefined, music);
+        musicStep += 1;
+        nextNoteAt += MUSIC_STEP;
+      }
+    },
+
+    dispose() {
+      engine.setMusicPlaying(false);
+      ctx.close().catch(() => {});
+    },
+  };
+  return engine;
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export interface AudioSettings {
+  master: number; // 0 to 1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+
+const AUDIO_SETTINGS_KEY = 'starry-defense:audio';
+
+function isVolume(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUDIO_SETTINGS_KEY) ?? 'null');
+    if (isVolume(saved?.master) && isVolume(saved.sfx) && isVolume(saved.music) && typeof saved.muted === 'boolean') {
+      return saved;
+    }
+  } catch {
+    // Corrupt value: fall back to the defaults
+  }
+  return { ...DEFAULT_AUDIO_SETTINGS };
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(AUDIO_SETTINGS_KEY, JSON.stringify(settings));
+}
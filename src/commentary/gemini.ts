@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GoogleGenAI, Type } from '@google/genai';
+import { Commentary } from '../types';
+import { briefingPrompt, CommentaryProvider, debriefPrompt, parseCommentary } from './index';
+
+const MODEL = 'gemini-2.5-flash';
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    translation: { type: Type.STRING },
+  },
+  required: ['text', 'translation'],
+};
+
+export function createGeminiProvider(apiKey: string, model = MODEL): CommentaryProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  async function generate(prompt: string): Promise<Commentary> {
+    const response = await ai.models.generateContent({
+      model,
+      contents: prompt,
+      config: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA },
+    });
+    return parseCommentary(response.text);
+  }
+
+  return {
+    briefing: request => generate(briefingPrompt(request)),
+    debrief: request => generate(debriefPrompt(request)),
+  };
+}
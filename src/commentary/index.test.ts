@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BriefingRequest, Commentary, DebriefRequest } from '../types';
+import { DEFAULT_CAMPAIGN } from '../game/waves';
+import { CommentaryProvider, createCommentaryProvider, createStubProvider, parseCommentary, withFallback } from './index';
+
+const briefing: BriefingRequest = {
+  locale: 'en',
+  level: 2,
+  totalWaves: 10,
+  wave: { ...DEFAULT_CAMPAIGN.waves[0], enemies: [{ type: 'rocket', count: 13 }, { type: 'mirv', count: 2 }] },
+  citiesLeft: 6,
+};
+
+const debrief: DebriefRequest = {
+  locale: 'en',
+  won: false,
+  score: 4200,
+  level: 3,
+  stats: {
+    shots: 40,
+    hitShots: 30,
+    kills: 35,
+    losses: [
+      { kind: 'turret', id: 't1', level: 1, time: 20000 },
+      { kind: 'city', id: 'c2', level: 2, time: 50000 },
+      { kind: 'city', id: 'c3', level: 3, time: 90000 },
+    ],
+  },
+};
+
+const GEMINI: Commentary = { text: 'From the model', translation: '来自模型' };
+
+/** A provider whose every call goes the way `answer` says. */
+function provider(answer: () => Promise<Commentary>): CommentaryProvider {
+  return { briefing: answer, debrief: answer };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.doUnmock('./gemini');
+  vi.resetModules();
+});
+
+describe('stub provider', () => {
+  const stub = createStubProvider();
+
+  it('writes the briefing from the wave, with a Chinese translation', async () => {
+    expect(await stub.briefing(briefing)).toEqual({
+      text: 'Wave 2 of 10: 15 hostiles inbound — 13 rockets and 2 MIRVs. Hold the line, commander.',
+      translation: '第 2/10 波：15 个目标来袭——13 枚导弹和2 枚分导弹头。坚守阵地，指挥官。',
+    });
+  });
+
+  it('writes the debrief from the run stats', async () => {
+    expect((await stub.debrief(debrief)).text).toBe(
+      'The defense fell in wave 3 with 4200 points. Accuracy 75%, 10 interceptors wasted. 2 cities fell, the first in wave 2.',
+    );
+    expect((await stub.debrief({ ...debrief, won: true, stats: { ...debrief.stats, losses: [] } })).text).toBe(
+      'All waves repelled with 4200 points. Accuracy 75%, 10 interceptors wasted. Not a single city was lost.',
+    );
+  });
+
+  it('translates into English for players in other languages', async () => {
+    const commentary = await stub.debrief({ ...debrief, locale: 'zh' });
+    expect(commentary.text).toBe('防线在第 3 波失守，得分 4200。命中率 75%，浪费拦截弹 10 枚。2 座城市陷落，第一座在第 2 波。');
+    expect(commentary.translation).toBe((await stub.debrief(debrief)).text);
+  });
+
+  it('always says the same thing for the same request', async () => {
+    expect(await stub.briefing(briefing)).toEqual(await createStubProvider().briefing(structuredClone(briefing)));
+    expect(await stub.debrief(debrief)).toEqual(await createStubProvider().debrief(structuredClone(debrief)));
+  });
+});
+
+describe('withFallback', () => {
+  const stub = createStubProvider();
+
+  it('answers from the primary provider when it succeeds in time', async () => {
+    const commentary = withFallback(provider(() => Promise.resolve(GEMINI)), stub);
+    expect(await commentary.briefing(briefing)).toEqual(GEMINI);
+    expect(await commentary.debrief(debrief)).toEqual(GEMINI);
+  });
+
+  it('falls back to the canned text when the call rejects', async () => {
+    const commentary = withFallback(provider(() => Promise.reject(new Error('quota exceeded'))), stub);
+    expect(await commentary.briefing(briefing)).toEqual(await stub.briefing(briefing));
+    expect(await commentary.debrief(debrief)).toEqual(await stub.debrief(debrief));
+  });
+
+  it('falls back to the canned text once the call has taken 8 seconds', async () => {
+    vi.useFakeTimers();
+    const commentary = withFallback(provider(() => new Promise(() => {})), stub);
+    let answer: Commentary | null = null;
+    commentary.briefing(briefing).then(c => (answer = c));
+
+    await vi.advanceTimersByTimeAsync(7999);
+    expect(answer).toBeNull();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(answer).toEqual(await stub.briefing(briefing));
+  });
+
+  it('keeps a slow answer that arrives before the timeout', async () => {
+    vi.useFakeTimers();
+    const commentary = withFallback(provider(() => new Promise(resolve => setTimeout(() => resolve(GEMINI), 5000))), stub);
+    const answer = commentary.debrief(debrief);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await answer).toEqual(GEMINI);
+  });
+});
+
+describe('createCommentaryProvider', () => {
+  it('uses the canned text without a key', async () => {
+    const stub = createStubProvider();
+    for (const key of ['', 'MY_GEMINI_API_KEY']) {
+      const commentary = createCommentaryProvider(key);
+      expect(await commentary.briefing(briefing)).toEqual(await stub.briefing(briefing));
+      expect(await commentary.debrief(debrief)).toEqual(await stub.debrief(debrief));
+    }
+  });
+
+  it('loads the Gemini client on the first call, once', async () => {
+    const createGeminiProvider = vi.fn(() => provider(() => Promise.resolve(GEMINI)));
+    vi.doMock('./gemini', () => ({ createGeminiProvider }));
+    const commentary = createCommentaryProvider('test-key');
+    await new Promise(resolve => setTimeout(resolve, 50)); // time for an eager import to have landed
+    expect(createGeminiProvider).not.toHaveBeenCalled();
+
+    expect(await commentary.briefing(briefing)).toEqual(GEMINI);
+    expect(await commentary.debrief(debrief)).toEqual(GEMINI);
+    expect(createGeminiProvider).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the canned text when the Gemini client fails to load', async () => {
+    vi.doMock('./gemini', () => {
+      throw new Error('chunk failed to load');
+    });
+    const commentary = createCommentaryProvider('test-key');
+    expect(await commentary.briefing(briefing)).toEqual(await createStubProvider().briefing(briefing));
+  });
+});
+
+describe('parseCommentary', () => {
+  it('reads a model reply', () => {
+    expect(parseCommentary('{"text": " Hold fast. ", "translation": "坚守。"}')).toEqual({ text: 'Hold fast.', translation: '坚守。' });
+  });
+
+  it('rejects a reply without text', () => {
+    expect(() => parseCommentary('{"text": " ", "translation": "x"}')).toThrow();
+    expect(() => parseCommentary('not json')).toThrow();
+    expect(() => parseCommentary(undefined)).toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BriefingRequest, Commentary, DebriefRequest, EnemyType, Locale } from '../types';
+import { createTranslator, LOCALE_NAMES, MessageKey } from '../i18n';
+import { totalEnemies } from '../game/waves';
+import { accuracy, wastedShots } from '../game/stats';
+
+/** Anything that can write briefings and debriefs: Gemini, or the local stub. */
+export interface CommentaryProvider {
+  briefing(request: BriefingRequest): Promise<Commentary>;
+  debrief(request: DebriefRequest): Promise<Commentary>;
+}
+
+// A briefing that takes longer than this is dropped for the canned one
+const TIMEOUT_MS = 8000;
+// .env.example ships this placeholder; treat it as no key at all
+const PLACEHOLDER_KEY = 'MY_GEMINI_API_KEY';
+
+const ENEMY_KEYS: Record<EnemyType, MessageKey> = {
+  rocket: 'enemyRocket',
+  mirv: 'enemyMirv',
+  smartBomb: 'enemySmartBomb',
+  bomber: 'enemyBomber',
+  satellite: 'enemySatellite',
+};
+
+/** The language a commentary's translation is in: English, or Chinese for English players. */
+export function translationLocale(locale: Locale): Locale {
+  return locale === 'en' ? 'zh' : 'en';
+}
+
+function cannedBriefing(request: BriefingRequest, locale: Locale): string {
+  const t = createTranslator(locale);
+  const composition = new Intl.ListFormat(locale).format(
+    request.wave.enemies.map(e => t(ENEMY_KEYS[e.type], { count: e.count })),
+  );
+  return t('briefingCanned', {
+    level: request.level,
+    waves: request.totalWaves,
+    count: totalEnemies(request.wave),
+    composition,
+  });
+}
+
+function cannedDebrief(request: DebriefRequest, locale: Locale): string {
+  const t = createTranslator(locale);
+  const { stats } = request;
+  const cities = stats.losses.filter(l => l.kind === 'city');
+  return [
+    t(request.won ? 'debriefWon' : 'debriefLost', { score: request.score, level: request.level }),
+    t('debriefAccuracy', { accuracy: Math.round(accuracy(stats) * 100), count: wastedShots(stats) }),
+    cities.length === 0 ? t('debriefNoLosses') : t('debriefLosses', { count: cities.length, first: cities[0].level }),
+  ].join(locale === 'en' ? ' ' : ''); // Chinese and Japanese sentences run on without spaces
+}
+
+/** Fills canned templates from the request, so the same input always gives the same text. */
+export function createStubProvider(): CommentaryProvider {
+  return {
+    async briefing(request) {
+      return {
+        text: cannedBriefing(request, request.locale),
+        translation: cannedBriefing(request, translationLocale(request.locale)),
+      };
+    },
+    async debrief(request) {
+      return {
+        text: cannedDebrief(request, request.locale),
+        translation: cannedDebrief(request, translationLocale(request.locale)),
+      };
+    },
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms} ms`)), ms);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/** Uses `primary`, answering from `fallback` when it fails or is too slow. */
+export function withFallback(primary: CommentaryProvider, fallback: CommentaryProvider, timeoutMs = TIMEOUT_MS): CommentaryProvider {
+  return {
+    briefing: request => withTimeout(primary.briefing(request), timeoutMs).catch(() => fallback.briefing(request)),
+    debrief: request => withTimeout(primary.debrief(request), timeoutMs).catch(() => fallback.debrief(request)),
+  };
+}
+
+/** Prompt for the briefing before `request.level`, asking for JSON `{ text, translation }`. */
+export function briefingPrompt(request: BriefingRequest): string {
+  const { wave } = request;
+  return [
+    'You are the gruff commander of a missile defense grid in an arcade game.',
+    `Write a briefing of at most two sentences for wave ${request.level} of ${request.totalWaves}.`,
+    `Incoming: ${wave.enemies.map(e => `${e.count} ${e.type}`).join(', ')}${wave.name ? ` (codename "${wave.name}")` : ''}.`,
+    `Enemy speed ${wave.speed.min}-${wave.speed.max}; ${request.citiesLeft} cities still stand.`,
+    languageInstructions(request.locale),
+  ].join('\n');
+}
+
+/** Prompt for the post-game debrief, asking for JSON `{ text, translation }`. */
+export function debriefPrompt(request: DebriefRequest): string {
+  const { stats } = request;
+  const losses = stats.losses.map(l => `${l.kind} ${l.id} in wave ${l.level} at ${Math.round(l.time / 1000)}s`);
+  return [
+    'You are the commander of a missile defense grid in an arcade game, debriefing the player after the battle.',
+    `Outcome: ${request.won ? 'victory' : 'defeat'} in wave ${request.level}, score ${request.score}.`,
+    `Shots ${stats.shots}, hits ${stats.hitShots} (${Math.round(accuracy(stats) * 100)}% accuracy), ${wastedShots(stats)} wasted, ${stats.kills} enemies destroyed.`,
+    `Losses: ${losses.length > 0 ? losses.join('; ') : 'none'}.`,
+    'In at most three sentences, judge the run and give one concrete tip.',
+    languageInstructions(request.locale),
+  ].join('\n');
+}
+
+function languageInstructions(locale: Locale): string {
+  return `Reply with JSON: "text" in ${LOCALE_NAMES[locale]} (${locale}), "translation" the same in ${LOCALE_NAMES[translationLocale(locale)]}.`;
+}
+
+/** Parses a model reply; throws if it is not the `{ text, translation }` asked for. */
+export function parseCommentary(reply: string | undefined): Commentary {
+  const data = JSON.parse(reply ?? '');
+  if (typeof data?.text !== 'string' || typeof data?.translation !== 'string' || !data.text.trim()) {
+    throw new Error('Commentary reply is missing text or translation');
+  }
+  return { text: data.text.trim(), translation: data.translation.trim() };
+}
+
+/**
+ * Gemini when a key is configured, falling back to the stub on any error;
+ * the stub alone otherwise. The SDK is only loaded on the first call, so a
+ * chunk that fails to load surfaces there and falls back like any other error.
+ */
+export function createCommentaryProvider(apiKey = process.env.GEMINI_API_KEY): CommentaryProvider {
+  const stub = createStubProvider();
+  if (!apiKey || apiKey === PLACEHOLDER_KEY) return stub;
+  let gemini: Promise<CommentaryProvider> | null = null;
+  const load = () => (gemini ??= import('./gemini').then(m => m.createGeminiProvider(apiKey)));
+  return withFallback(
+    {
+      briefing: request => load().then(p => p.briefing(request)),
+      debrief: request => load().then(p => p.debrief(request)),
+    },
+    stub,
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import {
+  ArrowLeft,
+  ArrowLeftToLine,
+  Castle,
+  Crosshair,
+  Flame,
+  Lock,
+  LucideIcon,
+  Medal,
+  ShieldCheck,
+  Sparkles,
+  Swords,
+  Target,
+  Trophy,
+} from 'lucide-react';
+import { AchievementId, LifetimeStats, Profile } from '../types';
+import { ACHIEVEMENTS } from '../game/achievements';
+import { lifetimeAccuracy } from '../profile';
+import { MessageKey, Translate } from '../i18n';
+
+export const ACHIEVEMENT_TEXT: Record<AchievementId, { title: MessageKey; hint: MessageKey; icon: LucideIcon }> = {
+  firstContact: { title: 'achFirstContact', hint: 'achFirstContactHint', icon: Crosshair },
+  chainReaction: { title: 'achChainReaction', hint: 'achChainReactionHint', icon: Sparkles },
+  maxCombo: { title: 'achMaxCombo', hint: 'achMaxComboHint', icon: Flame },
+  southpaw: { title: 'achSouthpaw', hint: 'achSouthpawHint', icon: ArrowLeftToLine },
+  victory: { title: 'achVictory', hint: 'achVictoryHint', icon: Trophy },
+  flawless: { title: 'achFlawless', hint: 'achFlawlessHint', icon: ShieldCheck },
+  lastStand: { title: 'achLastStand', hint: 'achLastStandHint', icon: Castle },
+  sharpshooter: { title: 'achSharpshooter', hint: 'achSharpshooterHint', icon: Target },
+  centurion: { title: 'achCenturion', hint: 'achCenturionHint', icon: Swords },
+  veteran: { title: 'achVeteran', hint: 'achVeteranHint', icon: Medal },
+};
+
+const STAT_ROWS: [MessageKey, (stats: LifetimeStats) => string | number][] = [
+  ['statGamesPlayed', s => s.gamesPlayed],
+  ['statGamesWon', s => s.gamesWon],
+  ['statKills', s => s.kills],
+  ['statInterceptors', s => s.shots],
+  ['lifetimeAccuracy', s => `${Math.round(lifetimeAccuracy(s) * 100)}%`],
+  ['statBestScore', s => s.bestScore],
+  ['statHighestLevel', s => s.highestLevel],
+  ['statCitiesSaved', s => s.citiesSaved],
+];
+
+interface AchievementGalleryProps {
+  profile: Profile;
+  t: Translate;
+  onClose: () => void;
+}
+
+export function AchievementGallery({ profile, t, onClose }: AchievementGalleryProps) {
+  const unlocked = ACHIEVEMENTS.filter(a => profile.achievements[a.id] !== undefined).length;
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/90 backdrop-blur-sm p-8 overflow-y-auto"
+    >
+      <div className="max-w-md mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onClose}
+            title={t('back')}
+            className="p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <h2 className="text-3xl font-black italic tracking-tighter text-emerald-500">{t('achievements')}</h2>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-[10px] uppercase text-white/40 font-mono">{t('lifetimeStats')}</h3>
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs font-mono">
+            {STAT_ROWS.map(([key, value]) => (
+              <div key={key} className="flex justify-between">
+                <dt className="text-white/60">{t(key)}</dt>
+                <dd className="font-bold">{value(profile.stats)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-[10px] uppercase text-white/40 font-mono">
+            {t('unlockedCount', { count: unlocked, total: ACHIEVEMENTS.length })}
+          </h3>
+          <ul className="grid grid-cols-2 gap-2">
+            {ACHIEVEMENTS.map(({ id }) => {
+              const { title, hint, icon: Icon } = ACHIEVEMENT_TEXT[id];
+              const at = profile.achievements[id];
+              return (
+                <li
+                  key={id}
+                  className={`p-3 rounded-2xl border flex gap-2 ${at !== undefined ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-white/5 border-white/10 opacity-50'}`}
+                >
+                  {at !== undefined ? <Icon className="w-5 h-5 shrink-0 text-emerald-400" /> : <Lock className="w-5 h-5 shrink-0 text-white/40" />}
+                  <div className="text-left">
+                    <p className="text-xs font-bold">{t(title)}</p>
+                    <p className="text-[10px] text-white/60">{t(hint)}</p>
+                    {at !== undefined && (
+                      <p className="text-[10px] text-white/30 font-mono">{new Date(at).toLocaleDateString(document.documentElement.lang)}</p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
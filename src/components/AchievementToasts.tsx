@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { AchievementId } from '../types';
+import { Translate } from '../i18n';
+import { ACHIEVEMENT_TEXT } from './AchievementGallery';
+
+const TOAST_MS = 4000;
+
+export interface AchievementToast {
+  key: number;
+  id: AchievementId;
+}
+
+interface AchievementToastsProps {
+  toasts: AchievementToast[];
+  t: Translate;
+  onDismiss: (key: number) => void;
+}
+
+function Toast({ toast, t, onDismiss }: { toast: AchievementToast; t: Translate; onDismiss: (key: number) => void }) {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(toast.key), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toast.key, onDismiss]);
+
+  const { title, icon: Icon } = ACHIEVEMENT_TEXT[toast.id];
+  return (
+    <motion.li
+      layout
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0 }}
+      className="flex items-center gap-2 px-4 py-2 rounded-xl bg-black/80 border border-amber-400/40 shadow-lg"
+    >
+      <Icon className="w-5 h-5 text-amber-400" />
+      <div>
+        <p className="text-[10px] uppercase text-amber-400 font-mono">{t('achievementUnlocked')}</p>
+        <p className="text-xs font-bold">{t(title)}</p>
+      </div>
+    </motion.li>
+  );
+}
+
+export function AchievementToasts({ toasts, t, onDismiss }: AchievementToastsProps) {
+  return (
+    <ul aria-live="polite" className="absolute top-3 right-3 space-y-2 pointer-events-none">
+      <AnimatePresence>
+        {toasts.map(toast => (
+          <Toast key={toast.key} toast={toast} t={t} onDismiss={onDismiss} />
+        ))}
+      </AnimatePresence>
+    </ul>
+  );
+}
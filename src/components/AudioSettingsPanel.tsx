@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Volume2 } from 'lucide-react';
+import { AudioSettings } from '../audio/settings';
+import { MessageKey, Translate } from '../i18n';
+
+const SLIDERS: { key: 'master' | 'sfx' | 'music'; label: MessageKey }[] = [
+  { key: 'master', label: 'volumeMaster' },
+  { key: 'sfx', label: 'volumeSfx' },
+  { key: 'music', label: 'volumeMusic' },
+];
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  t: Translate;
+  onChange: (settings: AudioSettings) => void;
+}
+
+export function AudioSettingsPanel({ settings, t, onChange }: AudioSettingsPanelProps) {
+  return (
+    <details className="text-left text-xs bg-white/5 border border-white/10 rounded-2xl px-4 py-2">
+      <summary className="cursor-pointer flex items-center gap-2 text-white/60">
+        <Volume2 className="w-4 h-4" />
+        {t('sound')}
+      </summary>
+      <div className="space-y-1 pt-2 font-mono">
+        {SLIDERS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2">
+            <span className="w-20 text-white/60">{t(label)}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings[key]}
+              onChange={e => onChange({ ...settings, [key]: Number(e.target.value) })}
+              className="flex-1 accent-emerald-500"
+            />
+            <span className="w-8 text-right text-white/40">{Math.round(settings[key] * 100)}</span>
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Radio } from 'lucide-react';
+import { Commentary } from '../types';
+import { Translate } from '../i18n';
+
+interface CommentaryPanelProps {
+  title: string;
+  load: () => Promise<Commentary>;
+  requestKey: string; // loads again whenever this changes
+  t: Translate;
+}
+
+export function CommentaryPanel({ title, load, requestKey, t }: CommentaryPanelProps) {
+  const [commentary, setCommentary] = useState<Commentary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCommentary(null);
+    // Providers fall back to canned text themselves, so this only fails on a bug
+    load()
+      .then(result => !cancelled && setCommentary(result))
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+    // `load` is a fresh closure every render; `requestKey` says when it asks for something new
+  }, [requestKey]);
+
+  return (
+    <div className="w-full rounded-2xl bg-white/5 border border-white/10 p-3 space-y-1 text-left" aria-live="polite">
+      <p className="flex items-center gap-1 text-[10px] uppercase text-white/40 font-mono">
+        <Radio className="w-3 h-3" />
+        {title}
+      </p>
+      {commentary ? (
+        <>
+          <p className="text-xs">{commentary.text}</p>
+          <p className="text-[10px] text-white/40">{commentary.translation}</p>
+        </>
+      ) : (
+        <p className="text-xs text-white/40 animate-pulse">{t('receiving')}</p>
+      )}
+    </div>
+  );
+}
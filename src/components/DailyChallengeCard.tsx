@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { CalendarDays, Play } from 'lucide-react';
+import { DailyChallenge, Modifier } from '../types';
+import { dailyChallenge, hasAttempted, utcDate } from '../game/daily';
+import { MessageKey, Translate } from '../i18n';
+import { Leaderboard } from './Leaderboard';
+
+export const MODIFIER_TEXT: Record<Modifier, { name: MessageKey; hint: MessageKey }> = {
+  halfAmmo: { name: 'modHalfAmmo', hint: 'modHalfAmmoHint' },
+  fastRockets: { name: 'modFastRockets', hint: 'modFastRocketsHint' },
+  noCenterTurret: { name: 'modNoCenterTurret', hint: 'modNoCenterTurretHint' },
+  ruinedCities: { name: 'modRuinedCities', hint: 'modRuinedCitiesHint' },
+};
+
+interface DailyChallengeCardProps {
+  t: Translate;
+  onPlay: (challenge: DailyChallenge) => void;
+}
+
+export function DailyChallengeCard({ t, onPlay }: DailyChallengeCardProps) {
+  // Fixed for as long as the title screen is open, so the card never flips at midnight mid-read
+  const [challenge] = useState(() => dailyChallenge(utcDate(Date.now())));
+  const attempted = hasAttempted(challenge.date);
+  const { name, hint } = MODIFIER_TEXT[challenge.modifier];
+
+  return (
+    <div className="text-left space-y-3 bg-white/5 border border-white/10 rounded-2xl p-4">
+      <div className="flex items-center gap-3">
+        <CalendarDays className="w-5 h-5 text-amber-400 shrink-0" />
+        <div className="flex-1">
+          <p className="text-xs font-bold">{t('dailyChallenge')}</p>
+          <p className="text-[10px] text-white/40 font-mono">{challenge.date} UTC</p>
+        </div>
+        <button
+          onClick={() => onPlay(challenge)}
+          className="px-4 py-2 rounded-full bg-amber-400 text-black text-xs font-bold flex items-center gap-1 hover:bg-amber-300 transition-colors"
+        >
+          <Play className="w-3 h-3 fill-current" />
+          {attempted ? t('practiceDaily') : t('playDaily')}
+        </button>
+      </div>
+      <p className="text-[10px] font-mono">
+        <span className="text-amber-400">{t(name)}</span>
+        <span className="text-white/40"> · {t(hint)}</span>
+      </p>
+      <Leaderboard t={t} daily={challenge.date} />
+    </div>
+  );
+}
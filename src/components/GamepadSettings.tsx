@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, RotateCcw } from 'lucide-react';
+import { Translate } from '../i18n';
+import { DEFAULT_GAMEPAD_MAPPING, GAMEPAD_ACTIONS, GamepadAction, GamepadMapping, pressedButton } from '../input/gamepad';
+
+interface GamepadSettingsProps {
+  mapping: GamepadMapping;
+  t: Translate;
+  onChange: (mapping: GamepadMapping) => void;
+}
+
+export function GamepadSettings({ mapping, t, onChange }: GamepadSettingsProps) {
+  const [listening, setListening] = useState<GamepadAction | null>(null);
+
+  // Wait for the next button pressed on any pad and bind it
+  useEffect(() => {
+    if (!listening) return;
+    let frame = 0;
+    const poll = () => {
+      const button = pressedButton();
+      if (button === null) {
+        frame = requestAnimationFrame(poll);
+        return;
+      }
+      onChange({ ...mapping, [listening]: button });
+      setListening(null);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening, mapping, onChange]);
+
+  return (
+    <details className="text-left text-xs bg-white/5 border border-white/10 rounded-2xl px-4 py-2">
+      <summary className="cursor-pointer flex items-center gap-2 text-white/60">
+        <Gamepad2 className="w-4 h-4" />
+        {t('gamepad')}
+      </summary>
+      <div className="space-y-1 pt-2 font-mono">
+        {GAMEPAD_ACTIONS.map(action => (
+          <div key={action} className="flex items-center gap-2">
+            <span className="flex-1 text-white/60">{t(action)}</span>
+            <button
+              onClick={() => setListening(l => (l === action ? null : action))}
+              className={`px-3 py-1 rounded-full border transition-colors ${listening === action ? 'border-amber-400 text-amber-400' : 'border-white/10 hover:bg-white/5'}`}
+            >
+              {listening === action ? t('pressButton') : t('button', { n: mapping[action] })}
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => onChange({ ...DEFAULT_GAMEPAD_MAPPING })}
+          className="mt-1 flex items-center gap-1 text-[10px] text-white/40 hover:text-white transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          {t('resetMapping')}
+        </button>
+      </div>
+    </details>
+  );
+}
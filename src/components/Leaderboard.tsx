@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { LeaderboardEntry, LeaderboardPeriod, RunSubmission } from '../types';
+import { fetchDailyLeaderboard, fetchLeaderboard, submitRun } from '../api/leaderboard';
+import { Translate } from '../i18n';
+
+export const PLAYER_NAME_KEY = 'starry-defense:player-name';
+const PERIODS: LeaderboardPeriod[] = ['all', 'day', 'week'];
+
+interface LeaderboardProps {
+  t: Translate;
+  highlightId?: number;
+  refreshKey?: number;
+  /** Shows the board for this daily challenge date instead of the period boards. */
+  daily?: string;
+}
+
+export function Leaderboard({ t, highlightId, refreshKey, daily }: LeaderboardProps) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('all');
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    setError(false);
+    (daily ? fetchDailyLeaderboard(daily) : fetchLeaderboard(period))
+      .then(result => !cancelled && setEntries(result))
+      .catch(() => !cancelled && setError(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [period, refreshKey, daily]);
+
+  const periodLabel = { all: t('periodAll'), day: t('periodDay'), week: t('periodWeek') };
+
+  return (
+    <div className="w-full space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] uppercase text-white/40 font-mono">{t(daily ? 'dailyLeaderboard' : 'leaderboard')}</span>
+        <div className={`flex gap-1 ${daily ? 'hidden' : ''}`}>
+          {PERIODS.map(p => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={`px-2 py-0.5 rounded-full text-[10px] font-mono uppercase transition-colors ${p === period ? 'bg-emerald-500 text-black' : 'bg-white/5 text-white/60 hover:bg-white/10'}`}
+            >
+              {periodLabel[p]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-2xl bg-white/5 border border-white/10 divide-y divide-white/5 max-h-48 overflow-y-auto">
+        {error && <p className="p-3 text-xs text-white/40">{t('unavailable')}</p>}
+        {!error && entries === null && <p className="p-3 text-xs text-white/40">{t('loading')}</p>}
+        {entries?.length === 0 && <p className="p-3 text-xs text-white/40">{t('noScores')}</p>}
+        {entries?.map((entry, i) => (
+          <div
+            key={entry.id}
+            className={`flex items-center gap-3 px-3 py-1.5 font-mono text-xs ${entry.id === highlightId ? 'bg-emerald-500/20 text-emerald-300' : ''}`}
+          >
+            <span className="w-5 text-white/40">{i + 1}</span>
+            <span className="flex-1 truncate">{entry.playerName}</span>
+            <span className="text-white/40">L{entry.level}</span>
+            <span className="w-12 text-right font-bold">{entry.score}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface SubmitRunFormProps {
+  run: Omit<RunSubmission, 'playerName'>;
+  t: Translate;
+  onSubmitted: (entry: LeaderboardEntry, rank: number) => void;
+  /** Where the run goes; daily challenge runs post to their own board. */
+  submit?: (run: RunSubmission) => Promise<{ entry: LeaderboardEntry; rank: number }>;
+}
+
+export function SubmitRunForm({ run, t, onSubmitted, submit = submitRun }: SubmitRunFormProps) {
+  const [name, setName] = useState(() => localStorage.getItem(PLAYER_NAME_KEY) ?? '');
+  const [pending, setPending] = useState(false);
+  const [rank, setRank] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || pending) return;
+    setPending(true);
+    setError(null);
+    localStorage.setItem(PLAYER_NAME_KEY, name.trim());
+    try {
+      const result = await submit({ ...run, playerName: name.trim() });
+      setRank(result.rank);
+      onSubmitted(result.entry, result.rank);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('unavailable'));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (rank !== null) {
+    return <p className="text-xs font-mono text-emerald-400">{t('submitted', { rank })}</p>;
+  }
+
+  return (
+    <form onSubmit={send} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={e => setName(e.target.value)}
+          maxLength={24}
+          placeholder={t('playerName')}
+          className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-sm focus:outline-none focus:border-emerald-500"
+        />
+        <button
+          type="submit"
+          disabled={pending || !name.trim()}
+          className="px-3 py-2 rounded-xl bg-white/10 text-xs font-bold flex items-center gap-1 hover:bg-white/20 disabled:opacity-40 transition-colors"
+        >
+          <Send className="w-3 h-3" />
+          {t('submitScore')}
+        </button>
+      </div>
+      {error && <p className="text-[10px] text-red-400 font-mono">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,581 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft, Download, Play, Plus, Trash2, Upload } from 'lucide-react';
+import { BaseLayout, EnemyType, Level, LevelWave, ScriptedSpawn } from '../types';
+import { WORLD_WIDTH } from '../game/constants';
+import { ENEMY_TYPES } from '../game/enemies';
+import {
+  createWave,
+  EDGE_MARGIN,
+  levelIssues,
+  MAX_CITIES,
+  MAX_SPAWN_TIME,
+  MAX_SPAWNS,
+  MAX_TURRET_AMMO,
+  MAX_TURRETS,
+  MAX_WAVES,
+  parseLevel,
+  serializeLevel,
+  SPEED_RANGE,
+  unusedId,
+} from '../game/level';
+import { Theme } from '../render/theme';
+import { MessageKey, Translate } from '../i18n';
+
+const TYPE_LABELS: Record<EnemyType, MessageKey> = {
+  rocket: 'spawnRocket',
+  mirv: 'spawnMirv',
+  smartBomb: 'spawnSmartBomb',
+  bomber: 'spawnBomber',
+  satellite: 'spawnSatellite',
+};
+
+// Height of the battlefield preview in world units; the ground strip is at its bottom
+const PREVIEW_HEIGHT = 180;
+const PREVIEW_GROUND = 150;
+// Timeline markers snap to this many ms
+const TIME_STEP = 100;
+// The timeline shows at least this long, and always this much past the last spawn
+const MIN_TIMELINE_MS = 10000;
+const TIMELINE_TAIL_MS = 2000;
+const NEW_TURRET_AMMO = 20;
+const MAX_ISSUES_SHOWN = 8;
+
+type Drag = { kind: 'structure'; id: string } | { kind: 'spawn'; index: number };
+
+/** Middle of the widest stretch of open ground, for a new structure. */
+function openSpot(layout: BaseLayout): number {
+  const xs = [EDGE_MARGIN, ...[...layout.cities, ...layout.turrets].map(s => s.x).sort((a, b) => a - b), WORLD_WIDTH - EDGE_MARGIN];
+  let widest = 0;
+  xs.slice(1).forEach((x, i) => {
+    if (x - xs[i] > xs[widest + 1] - xs[widest]) widest = i;
+  });
+  return Math.round((xs[widest] + xs[widest + 1]) / 2);
+}
+
+// Horizontal pointer position as a share of the element's width
+function pointerFraction(e: React.PointerEvent<SVGSVGElement>): number {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+}
+
+const inputClass = 'w-full px-2 py-1 rounded-lg bg-white/5 border border-white/10 font-mono text-xs';
+
+interface LevelEditorProps {
+  level: Level;
+  theme: Theme;
+  t: Translate;
+  onChange: (level: Level) => void;
+  onPlaytest: () => void;
+  onClose: () => void;
+}
+
+export function LevelEditor({ level, theme, t, onChange, onPlaytest, onClose }: LevelEditorProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [waveIndex, setWaveIndex] = useState(0);
+  const [selectedSpawn, setSelectedSpawn] = useState<number | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const issues = levelIssues(level);
+  const { layout } = level;
+  const current = Math.min(waveIndex, level.waves.length - 1);
+  const wave = level.waves[current];
+  const duration = Math.max(MIN_TIMELINE_MS, ...wave.spawns.map(s => s.at + TIMELINE_TAIL_MS));
+  const structures = [...layout.cities, ...layout.turrets];
+  const selectedCity = layout.cities.find(c => c.id === selectedId);
+  const selectedTurret = layout.turrets.find(tu => tu.id === selectedId);
+  const canRemove = selectedCity ? layout.cities.length > 1 : selectedTurret ? layout.turrets.length > 1 : false;
+
+  const changeLayout = (next: BaseLayout) => onChange({ ...level, layout: next });
+  const changeWave = (next: LevelWave) => onChange({ ...level, waves: level.waves.map((w, i) => (i === current ? next : w)) });
+  const changeSpawn = (index: number, change: Partial<ScriptedSpawn>) =>
+    changeWave({ ...wave, spawns: wave.spawns.map((s, i) => (i === index ? { ...s, ...change } : s)) });
+
+  const moveStructure = (id: string, x: number) =>
+    changeLayout({
+      cities: layout.cities.map(c => (c.id === id ? { ...c, x } : c)),
+      turrets: layout.turrets.map(tu => (tu.id === id ? { ...tu, x } : tu)),
+    });
+
+  const addCity = () => {
+    const id = unusedId(layout, 'c');
+    changeLayout({ ...layout, cities: [...layout.cities, { id, x: openSpot(layout) }] });
+    setSelectedId(id);
+  };
+
+  const addTurret = () => {
+    const id = unusedId(layout, 't');
+    changeLayout({ ...layout, turrets: [...layout.turrets, { id, x: openSpot(layout), ammo: NEW_TURRET_AMMO }] });
+    setSelectedId(id);
+  };
+
+  // Spawns aimed at the removed structure go for the first one left instead
+  const removeSelected = () => {
+    const remaining = {
+      cities: layout.cities.filter(c => c.id !== selectedId),
+      turrets: layout.turrets.filter(tu => tu.id !== selectedId),
+    };
+    const fallback = remaining.cities[0]?.id ?? remaining.turrets[0].id;
+    onChange({
+      ...level,
+      layout: remaining,
+      waves: level.waves.map(w => ({ ...w, spawns: w.spawns.map(s => (s.target === selectedId ? { ...s, target: fallback } : s)) })),
+    });
+    setSelectedId(null);
+  };
+
+  const addWave = () => {
+    onChange({ ...level, waves: [...level.waves, createWave(layout)] });
+    setWaveIndex(level.waves.length);
+    setSelectedSpawn(null);
+  };
+
+  const removeWave = () => {
+    onChange({ ...level, waves: level.waves.filter((_, i) => i !== current) });
+    setWaveIndex(Math.max(0, current - 1));
+    setSelectedSpawn(null);
+  };
+
+  // A new spawn repeats the last one a second later
+  const addSpawn = () => {
+    const last = wave.spawns[wave.spawns.length - 1];
+    const spawn: ScriptedSpawn = last
+      ? { ...last, at: Math.min(MAX_SPAWN_TIME, last.at + 1000) }
+      : { at: 1000, type: 'rocket', x: WORLD_WIDTH / 2, target: structures[0].id, speed: 0.05 };
+    changeWave({ ...wave, spawns: [...wave.spawns, spawn] });
+    setSelectedSpawn(wave.spawns.length);
+  };
+
+  const removeSpawn = (index: number) => {
+    changeWave({ ...wave, spawns: wave.spawns.filter((_, i) => i !== index) });
+    setSelectedSpawn(null);
+  };
+
+  const onPreviewMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (drag?.kind !== 'structure') return;
+    const x = Math.round(pointerFraction(e) * WORLD_WIDTH);
+    moveStructure(drag.id, Math.min(WORLD_WIDTH - EDGE_MARGIN, Math.max(EDGE_MARGIN, x)));
+  };
+
+  const onTimelineMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (drag?.kind !== 'spawn') return;
+    changeSpawn(drag.index, { at: Math.round((pointerFraction(e) * duration) / TIME_STEP) * TIME_STEP });
+  };
+
+  const startDrag = (e: React.PointerEvent<SVGElement>, next: Drag) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag(next);
+  };
+
+  const exportLevel = () => {
+    const url = URL.createObjectURL(new Blob([serializeLevel(level)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.name.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'level'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importLevel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseLevel(await file.text()));
+      setImportError(null);
+      setWaveIndex(0);
+      setSelectedId(null);
+      setSelectedSpawn(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const structureX = (id: string) => structures.find(s => s.id === id)?.x;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/90 backdrop-blur-sm p-6 overflow-y-auto"
+    >
+      <div className="max-w-3xl mx-auto space-y-5 text-left">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onClose}
+            title={t('back')}
+            className="p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <h2 className="text-3xl font-black italic tracking-tighter text-emerald-500">{t('levelEditor')}</h2>
+        </div>
+
+        <label className="block space-y-1 text-xs">
+          <span className="text-[10px] uppercase text-white/40 font-mono">{t('levelName')}</span>
+          <input value={level.name} maxLength={60} onChange={e => onChange({ ...level, name: e.target.value })} className={inputClass} />
+        </label>
+
+        <section className="space-y-2">
+          <h3 className="text-[10px] uppercase text-white/40 font-mono">{t('baseLayout')}</h3>
+          <p className="text-[10px] text-white/40">{t('baseLayoutHint')}</p>
+          <svg
+            viewBox={`0 0 ${WORLD_WIDTH} ${PREVIEW_HEIGHT}`}
+            onPointerMove={onPreviewMove}
+            onPointerUp={() => setDrag(null)}
+            className="w-full rounded-xl border border-white/10 touch-none select-none"
+            style={{ backgroundColor: theme.sky }}
+          >
+            {/* Where each spawn of this wave enters and what it is aimed at */}
+            {wave.spawns.map((s, i) => {
+              const targetX = structureX(s.target);
+              if (targetX === undefined) return null;
+              return (
+                <line
+                  key={i}
+                  x1={s.x}
+                  y1={0}
+                  x2={targetX}
+                  y2={PREVIEW_GROUND - 8}
+                  stroke={theme.rocket}
+                  strokeWidth={i === selectedSpawn ? 3 : 1}
+                  opacity={i === selectedSpawn ? 1 : 0.35}
+                />
+              );
+            })}
+            <rect x={0} y={PREVIEW_GROUND} width={WORLD_WIDTH} height={PREVIEW_HEIGHT - PREVIEW_GROUND} fill={theme.ground} />
+            {layout.cities.map(c => (
+              <g
+                key={c.id}
+                onPointerDown={e => {
+                  setSelectedId(c.id);
+                  startDrag(e, { kind: 'structure', id: c.id });
+                }}
+                className="cursor-ew-resize"
+              >
+                <rect
+                  x={c.x - 14}
+                  y={PREVIEW_GROUND - 16}
+                  width={28}
+                  height={16}
+                  fill={theme.city}
+                  stroke={c.id === selectedId ? theme.selection : 'none'}
+                  strokeWidth={3}
+                />
+                <text x={c.x} y={PREVIEW_GROUND + 20} textAnchor="middle" fontSize={12} fill="#ffffff99">
+                  {c.id}
+                </text>
+              </g>
+            ))}
+            {layout.turrets.map(tu => (
+              <g
+                key={tu.id}
+                onPointerDown={e => {
+                  setSelectedId(tu.id);
+                  startDrag(e, { kind: 'structure', id: tu.id });
+                }}
+                className="cursor-ew-resize"
+              >
+                <polygon
+                  points={`${tu.x - 16},${PREVIEW_GROUND} ${tu.x},${PREVIEW_GROUND - 24} ${tu.x + 16},${PREVIEW_GROUND}`}
+                  fill={theme.turret}
+                  stroke={tu.id === selectedId ? theme.selection : 'none'}
+                  strokeWidth={3}
+                />
+                <text x={tu.x} y={PREVIEW_GROUND + 20} textAnchor="middle" fontSize={12} fill="#ffffff99">
+                  {tu.id} · {tu.ammo}
+                </text>
+              </g>
+            ))}
+          </svg>
+
+          <div className="flex flex-wrap items-end gap-2 text-xs">
+            <button
+              onClick={addCity}
+              disabled={layout.cities.length >= MAX_CITIES}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full border border-white/10 hover:bg-white/5 disabled:opacity-30 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {t('addCity')}
+            </button>
+            <button
+              onClick={addTurret}
+              disabled={layout.turrets.length >= MAX_TURRETS}
+              className="inline-flex items-center gap-1 px-3 py-1 rounded-full border border-white/10 hover:bg-white/5 disabled:opacity-30 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {t('addTurret')}
+            </button>
+            {(selectedCity || selectedTurret) && (
+              <>
+                <label className="space-y-1">
+                  <span className="block text-[10px] text-white/40 font-mono">{t('positionX', { id: selectedId })}</span>
+                  <input
+                    type="number"
+                    min={EDGE_MARGIN}
+                    max={WORLD_WIDTH - EDGE_MARGIN}
+                    value={(selectedCity ?? selectedTurret).x}
+                    onChange={e => moveStructure(selectedId, Number(e.target.value))}
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+                {selectedTurret && (
+                  <label className="space-y-1">
+                    <span className="block text-[10px] text-white/40 font-mono">{t('turretAmmo')}</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={MAX_TURRET_AMMO}
+                      value={selectedTurret.ammo}
+                      onChange={e =>
+                        changeLayout({
+                          ...layout,
+                          turrets: layout.turrets.map(tu => (tu.id === selectedId ? { ...tu, ammo: Number(e.target.value) } : tu)),
+                        })
+                      }
+                      className={`${inputClass} w-20`}
+                    />
+                  </label>
+                )}
+                <button
+                  onClick={removeSelected}
+                  disabled={!canRemove}
+                  className="inline-flex items-center gap-1 px-3 py-1 rounded-full border border-white/10 hover:bg-white/5 disabled:opacity-30 transition-colors"
+                >
+                  <Trash2 className="w-3 h-3" />
+                  {t('removeSelected')}
+                </button>
+              </>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-[10px] uppercase text-white/40 font-mono">{t('waves')}</h3>
+          <div className="flex flex-wrap items-center gap-1 text-xs font-mono">
+            {level.waves.map((_, i) => (
+              <button
+                key={i}
+                onClick={() => {
+                  setWaveIndex(i);
+                  setSelectedSpawn(null);
+                }}
+                className={`px-3 py-1 rounded-full transition-colors ${i === current ? 'bg-emerald-500 text-black' : 'border border-white/10 text-white/60 hover:bg-white/5'}`}
+              >
+                {i + 1}
+              </button>
+            ))}
+            <button
+              onClick={addWave}
+              disabled={level.waves.length >= MAX_WAVES}
+              title={t('addWave')}
+              className="p-1.5 rounded-full border border-white/10 hover:bg-white/5 disabled:opacity-30 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+            </button>
+            <button
+              onClick={removeWave}
+              disabled={level.waves.length <= 1}
+              title={t('removeWave')}
+              className="p-1.5 rounded-full border border-white/10 hover:bg-white/5 disabled:opacity-30 transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+            <label className="ml-auto flex items-center gap-2 text-white/60">
+              {t('waveAmmo')}
+              <select
+                value={wave.ammo === 'full' ? 'full' : 'some'}
+                onChange={e => changeWave({ ...wave, ammo: e.target.value === 'full' ? 'full' : 0 })}
+                className="px-2 py-1 rounded-lg bg-neutral-900 border border-white/10"
+              >
+                <option value="full">{t('waveAmmoFull')}</option>
+                <option value="some">{t('waveAmmoSome')}</option>
+              </select>
+              {wave.ammo !== 'full' && (
+                <input
+                  type="number"
+                  min={0}
+                  max={MAX_TURRET_AMMO}
+                  value={wave.ammo}
+                  onChange={e => changeWave({ ...wave, ammo: Number(e.target.value) })}
+                  className={`${inputClass} w-16`}
+                />
+              )}
+            </label>
+          </div>
+
+          <p className="text-[10px] text-white/40">{t('timelineHint', { seconds: Math.round(duration / 1000) })}</p>
+          <svg
+            viewBox={`0 0 ${WORLD_WIDTH} 40`}
+            onPointerMove={onTimelineMove}
+            onPointerUp={() => setDrag(null)}
+            className="w-full rounded-xl border border-white/10 bg-white/5 touch-none select-none"
+          >
+            {Array.from({ length: Math.floor(duration / 1000) + 1 }, (_, s) => (
+              <line key={s} x1={(s * 1000 * WORLD_WIDTH) / duration} y1={0} x2={(s * 1000 * WORLD_WIDTH) / duration} y2={s % 5 === 0 ? 12 : 6} stroke="#ffffff33" />
+            ))}
+            {wave.spawns.map((s, i) => (
+              <circle
+                key={i}
+                cx={(s.at * WORLD_WIDTH) / duration}
+                cy={24}
+                r={i === selectedSpawn ? 9 : 7}
+                fill={theme[s.type]}
+                stroke={i === selectedSpawn ? theme.selection : 'none'}
+                strokeWidth={3}
+                className="cursor-ew-resize"
+                onPointerDown={e => {
+                  setSelectedSpawn(i);
+                  startDrag(e, { kind: 'spawn', index: i });
+                }}
+              />
+            ))}
+          </svg>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] uppercase text-white/40 font-mono">
+                <th className="text-left font-normal">{t('spawnTime')}</th>
+                <th className="text-left font-normal">{t('spawnType')}</th>
+                <th className="text-left font-normal">{t('spawnEntry')}</th>
+                <th className="text-left font-normal">{t('spawnTarget')}</th>
+                <th className="text-left font-normal">{t('spawnSpeed')}</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {wave.spawns.map((s, i) => (
+                <tr key={i} onFocus={() => setSelectedSpawn(i)} className={i === selectedSpawn ? 'bg-emerald-500/10' : ''}>
+                  <td className="pr-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_SPAWN_TIME / 1000}
+                      step={TIME_STEP / 1000}
+                      value={s.at / 1000}
+                      onChange={e => changeSpawn(i, { at: Math.round(Number(e.target.value) * 1000) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="pr-1">
+                    <select
+                      value={s.type}
+                      onChange={e => changeSpawn(i, { type: e.target.value as EnemyType })}
+                      className={`${inputClass} bg-neutral-900`}
+                    >
+                      {ENEMY_TYPES.map(type => (
+                        <option key={type} value={type}>
+                          {t(TYPE_LABELS[type])}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="pr-1">
+                    <input
+                      type="number"
+                      min={0}
+                      max={WORLD_WIDTH}
+                      value={s.x}
+                      onChange={e => changeSpawn(i, { x: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td className="pr-1">
+                    <select
+                      value={s.target}
+                      onChange={e => changeSpawn(i, { target: e.target.value })}
+                      className={`${inputClass} bg-neutral-900`}
+                    >
+                      {!structures.some(st => st.id === s.target) && <option value={s.target}>{s.target} ?</option>}
+                      {layout.cities.map(c => (
+                        <option key={c.id} value={c.id}>
+                          {t('targetCity', { id: c.id })}
+                        </option>
+                      ))}
+                      {layout.turrets.map(tu => (
+                        <option key={tu.id} value={tu.id}>
+                          {t('targetTurret', { id: tu.id })}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="pr-1">
+                    <input
+                      type="number"
+                      min={SPEED_RANGE.min}
+                      max={SPEED_RANGE.max}
+                      step={0.005}
+                      value={s.speed}
+                      onChange={e => changeSpawn(i, { speed: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </td>
+                  <td>
+                    <button
+                      onClick={() => removeSpawn(i)}
+                      title={t('removeSpawn')}
+                      className="p-1.5 rounded-full hover:bg-white/5 transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={addSpawn}
+            disabled={wave.spawns.length >= MAX_SPAWNS}
+            className="inline-flex items-center gap-1 px-3 py-1 rounded-full border border-white/10 text-xs hover:bg-white/5 disabled:opacity-30 transition-colors"
+          >
+            <Plus className="w-3 h-3" />
+            {t('addSpawn')}
+          </button>
+        </section>
+
+        {issues.length > 0 && (
+          <div role="alert" className="p-3 rounded-xl border border-red-500/30 bg-red-500/10 text-[10px] font-mono text-red-300 space-y-1">
+            <p className="font-bold">{t('levelProblems', { count: issues.length })}</p>
+            <ul className="list-disc pl-4">
+              {issues.slice(0, MAX_ISSUES_SHOWN).map(issue => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={onPlaytest}
+            disabled={issues.length > 0}
+            className="px-6 py-2 bg-emerald-500 text-black font-bold rounded-full flex items-center gap-2 hover:bg-emerald-400 disabled:opacity-30 transition-colors"
+          >
+            <Play className="w-4 h-4 fill-current" />
+            {t('playtest')}
+          </button>
+          <button
+            onClick={exportLevel}
+            disabled={issues.length > 0}
+            className="inline-flex items-center gap-1 px-4 py-2 rounded-full border border-white/10 text-xs hover:bg-white/5 disabled:opacity-30 transition-colors"
+          >
+            <Download className="w-3 h-3" />
+            {t('exportLevel')}
+          </button>
+          <label className="inline-flex items-center gap-1 px-4 py-2 rounded-full border border-white/10 text-xs cursor-pointer hover:bg-white/5 transition-colors">
+            <Upload className="w-3 h-3" />
+            {t('importLevel')}
+            <input type="file" accept="application/json,.json" onChange={importLevel} className="hidden" />
+          </label>
+        </div>
+        {importError && <p className="text-[10px] text-red-400 font-mono whitespace-pre-line">{importError}</p>}
+      </div>
+    </motion.div>
+  );
+}
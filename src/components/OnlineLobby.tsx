@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import { Check, Globe, LogIn, LogOut, Plus, WifiOff } from 'lucide-react';
+import { MessageKey, Translate } from '../i18n';
+import { ClientMessage, MAX_NAME_LENGTH, RoomInfo, ROOM_CODE_LENGTH } from '../net/protocol';
+import { PLAYER_NAME_KEY } from './Leaderboard';
+
+export type NetConnection = 'offline' | 'connecting' | 'open';
+
+// Error codes the server sends, and what to show for them
+const ERRORS: Record<string, MessageKey> = {
+  roomNotFound: 'netRoomNotFound',
+  roomFull: 'netRoomFull',
+  partnerLeft: 'netPartnerLeft',
+  protocolMismatch: 'netProtocolMismatch',
+};
+
+interface OnlineLobbyProps {
+  connection: NetConnection;
+  room: RoomInfo | null;
+  error: string | null;
+  colors: string[]; // one per player, from the current theme
+  t: Translate;
+  onConnect: (name: string) => void;
+  onDisconnect: () => void;
+  send: (message: ClientMessage) => void;
+}
+
+export function OnlineLobby({ connection, room, error, colors, t, onConnect, onDisconnect, send }: OnlineLobbyProps) {
+  const [name, setName] = useState(() => localStorage.getItem(PLAYER_NAME_KEY) ?? '');
+  const [code, setCode] = useState('');
+
+  const connect = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    localStorage.setItem(PLAYER_NAME_KEY, name.trim());
+    onConnect(name.trim());
+  };
+
+  const join = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.length === ROOM_CODE_LENGTH) send({ type: 'joinRoom', code });
+  };
+
+  const me = room?.seats[room.you];
+
+  return (
+    <details className="text-left text-xs bg-white/5 border border-white/10 rounded-2xl px-4 py-2" open={connection !== 'offline'}>
+      <summary className="cursor-pointer flex items-center gap-2 text-white/60">
+        <Globe className="w-4 h-4" />
+        {t('online')}
+      </summary>
+      <div className="space-y-2 pt-2 font-mono">
+        {connection === 'offline' && (
+          <form onSubmit={connect} className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={MAX_NAME_LENGTH}
+              placeholder={t('playerName')}
+              className="flex-1 min-w-0 px-3 py-1 rounded-xl bg-white/5 border border-white/10 focus:outline-none focus:border-emerald-500"
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className="px-3 py-1 rounded-xl bg-white/10 font-bold hover:bg-white/20 disabled:opacity-40 transition-colors"
+            >
+              {t('goOnline')}
+            </button>
+          </form>
+        )}
+
+        {connection === 'connecting' && (
+          <p className="flex items-center gap-1 text-amber-400">
+            <WifiOff className="w-3 h-3" />
+            {t('connecting')}
+          </p>
+        )}
+
+        {connection === 'open' && !room && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => send({ type: 'createRoom' })}
+              className="px-3 py-1 rounded-xl bg-white/10 font-bold flex items-center gap-1 hover:bg-white/20 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {t('createRoom')}
+            </button>
+            <form onSubmit={join} className="flex flex-1 gap-2">
+              <input
+                value={code}
+                onChange={e => setCode(e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+                maxLength={ROOM_CODE_LENGTH}
+                placeholder={t('roomCode')}
+                aria-label={t('roomCode')}
+                className="flex-1 min-w-0 px-3 py-1 rounded-xl bg-white/5 border border-white/10 uppercase tracking-widest focus:outline-none focus:border-emerald-500"
+              />
+              <button
+                type="submit"
+                disabled={code.length !== ROOM_CODE_LENGTH}
+                className="px-3 py-1 rounded-xl bg-white/10 font-bold flex items-center gap-1 hover:bg-white/20 disabled:opacity-40 transition-colors"
+              >
+                <LogIn className="w-3 h-3" />
+                {t('joinRoom')}
+              </button>
+            </form>
+          </div>
+        )}
+
+        {room && (
+          <div className="space-y-1">
+            <p className="text-white/60">
+              {t('roomCode')}: <span className="text-lg font-bold tracking-widest text-emerald-400">{room.code}</span>
+            </p>
+            {room.seats.map((seat, k) => (
+              <div key={k} className="flex items-center gap-2">
+                <span style={{ color: colors[k] }}>{t('player', { n: k + 1 })}</span>
+                <span className="flex-1 truncate">{seat ? seat.name : t('waitingForPartner')}</span>
+                {seat && !seat.connected && <WifiOff className="w-3 h-3 text-amber-400" />}
+                {seat?.ready && <Check className="w-3 h-3 text-emerald-400" />}
+              </div>
+            ))}
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => send({ type: 'ready', ready: !me?.ready })}
+                className={`flex-1 px-3 py-1 rounded-xl font-bold transition-colors ${me?.ready ? 'bg-emerald-500 text-black' : 'bg-white/10 hover:bg-white/20'}`}
+              >
+                {me?.ready ? t('notReady') : t('ready')}
+              </button>
+              <button
+                onClick={() => send({ type: 'leaveRoom' })}
+                className="px-3 py-1 rounded-xl bg-white/10 font-bold flex items-center gap-1 hover:bg-white/20 transition-colors"
+              >
+                <LogOut className="w-3 h-3" />
+                {t('leaveRoom')}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {connection !== 'offline' && !room && (
+          <button onClick={onDisconnect} className="text-[10px] text-white/40 hover:text-white transition-colors">
+            {t('goOffline')}
+          </button>
+        )}
+        {error && <p className="text-[10px] text-red-400">{ERRORS[error] ? t(ERRORS[error]) : error}</p>}
+      </div>
+    </details>
+  );
+}
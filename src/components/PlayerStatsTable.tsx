@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { GameMode, PlayerStats } from '../types';
+import { isAttacker } from '../game/versus';
+import { Translate } from '../i18n';
+
+interface PlayerStatsTableProps {
+  players: PlayerStats[];
+  mode: GameMode;
+  colors: string[]; // one per player, from the current theme
+  t: Translate;
+}
+
+export function PlayerStatsTable({ players, mode, colors, t }: PlayerStatsTableProps) {
+  return (
+    <table className="w-full text-xs font-mono">
+      <thead>
+        <tr className="text-white/40 text-[10px] uppercase">
+          <th className="text-left font-normal" />
+          <th className="text-right font-normal">{t('score')}</th>
+          <th className="text-right font-normal">{t('statShots')}</th>
+          <th className="text-right font-normal">{t('statHits')}</th>
+          <th className="text-right font-normal">{t('statAccuracy')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {players.map((p, k) => {
+          const attacker = isAttacker(mode, k);
+          return (
+            <tr key={k}>
+              <td className="text-left" style={{ color: colors[k] }}>
+                {t('player', { n: k + 1 })} · {attacker ? t('roleAttacker') : t('roleDefender')}
+              </td>
+              <td className="text-right font-bold">{p.score}</td>
+              <td className="text-right">{p.shots}</td>
+              <td className="text-right">{p.kills}</td>
+              {/* A flak or chain shot can bring down several enemies, so cap at 100% */}
+              <td className="text-right">{p.shots > 0 ? Math.min(100, Math.round((p.kills / p.shots) * 100)) : 0}%</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
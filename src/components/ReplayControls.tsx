@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import { TICK_MS } from '../game/constants';
+import { Translate } from '../i18n';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  tick: number;
+  finalTick: number;
+  speed: number;
+  paused: boolean;
+  t: Translate;
+  onTogglePause: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+function formatTime(tick: number): string {
+  const seconds = Math.floor((tick * TICK_MS) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export function ReplayControls({
+  tick,
+  finalTick,
+  speed,
+  paused,
+  t,
+  onTogglePause,
+  onSpeedChange,
+  onSeek,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="absolute left-4 right-4 bottom-4 flex items-center gap-3 px-4 py-2 rounded-2xl bg-black/70 backdrop-blur-md border border-white/10 font-mono text-xs">
+      <span className="text-[10px] uppercase text-amber-400">{t('replay')}</span>
+      <button onClick={onTogglePause} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+        {paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={finalTick}
+        value={tick}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="flex-1 accent-amber-400"
+      />
+      <span className="text-white/60 tabular-nums">
+        {formatTime(tick)} / {formatTime(finalTick)}
+      </span>
+      <div className="flex gap-1">
+        {REPLAY_SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => onSpeedChange(s)}
+            className={`px-2 py-0.5 rounded-full transition-colors ${s === speed ? 'bg-amber-400 text-black' : 'bg-white/5 hover:bg-white/10'}`}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+      <button onClick={onExit} title={t('exitReplay')} className="p-1 rounded-lg hover:bg-white/10 transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
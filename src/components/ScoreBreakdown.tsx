@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { ScoreReason } from '../types';
+import { SCORE_REASONS } from '../game/scoring';
+import { MessageKey, Translate } from '../i18n';
+
+const LABEL_KEYS: Record<ScoreReason, MessageKey> = {
+  direct: 'scoreDirect',
+  chain: 'scoreChain',
+  combo: 'scoreCombo',
+  bonus: 'scoreBonus',
+  survival: 'scoreSurvival',
+};
+
+interface ScoreBreakdownProps {
+  breakdown: Record<ScoreReason, number>;
+  t: Translate;
+}
+
+export function ScoreBreakdown({ breakdown, t }: ScoreBreakdownProps) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs font-mono text-left">
+      {SCORE_REASONS.map(reason => (
+        <React.Fragment key={reason}>
+          <span className="text-white/50">{t(LABEL_KEYS[reason])}</span>
+          <span className="text-right">{breakdown[reason]}</span>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { ArrowLeft } from 'lucide-react';
+import { AccessibilitySettings, MIN_GAME_SPEED } from '../accessibility/settings';
+import { Palette, PALETTES, THEMES } from '../render/theme';
+import { MessageKey, Translate } from '../i18n';
+
+const PALETTE_LABELS: Record<Palette, MessageKey> = {
+  standard: 'paletteStandard',
+  deuteranopia: 'paletteDeuteranopia',
+  protanopia: 'paletteProtanopia',
+  highContrast: 'paletteHighContrast',
+};
+
+interface SettingsScreenProps {
+  settings: AccessibilitySettings;
+  reducedMotion: boolean;
+  t: Translate;
+  onChange: (settings: AccessibilitySettings) => void;
+  onReducedMotionChange: (reduced: boolean) => void;
+  onClose: () => void;
+}
+
+export function SettingsScreen({ settings, reducedMotion, t, onChange, onReducedMotionChange, onClose }: SettingsScreenProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="absolute inset-0 bg-black/90 backdrop-blur-sm p-8 overflow-y-auto"
+    >
+      <div className="max-w-md mx-auto space-y-6 text-left">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onClose}
+            title={t('back')}
+            autoFocus
+            className="p-2 rounded-full border border-white/10 hover:bg-white/5 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+          </button>
+          <h2 className="text-3xl font-black italic tracking-tighter text-emerald-500">{t('settings')}</h2>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-[10px] uppercase text-white/40 font-mono">{t('palette')}</legend>
+          <div className="grid grid-cols-2 gap-2">
+            {PALETTES.map(palette => {
+              const theme = THEMES[palette];
+              return (
+                <label
+                  key={palette}
+                  className={`p-3 rounded-2xl border flex items-center gap-2 text-xs cursor-pointer ${settings.palette === palette ? 'bg-emerald-500/10 border-emerald-500/30' : 'bg-white/5 border-white/10'}`}
+                >
+                  <input
+                    type="radio"
+                    name="palette"
+                    checked={settings.palette === palette}
+                    onChange={() => onChange({ ...settings, palette })}
+                    className="accent-emerald-500"
+                  />
+                  <span className="flex-1">{t(PALETTE_LABELS[palette])}</span>
+                  {/* A city, a warhead and an interceptor blast, as they will look */}
+                  <span className="flex gap-0.5" aria-hidden>
+                    {[theme.city, theme.rocket, `rgb(${theme.explosion.middle})`].map(color => (
+                      <span key={color} className="w-2 h-4 rounded-sm" style={{ backgroundColor: color }} />
+                    ))}
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+
+        <label className="flex items-start gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.aimAssist}
+            onChange={e => onChange({ ...settings, aimAssist: e.target.checked })}
+            className="mt-0.5 accent-emerald-500"
+          />
+          <span>
+            {t('aimAssist')}
+            <span className="block text-[10px] text-white/40">{t('aimAssistHint')}</span>
+          </span>
+        </label>
+
+        <label className="block space-y-1 text-xs">
+          <span className="flex justify-between">
+            {t('gameSpeed')}
+            <span className="font-mono text-white/40">{Math.round(settings.gameSpeed * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min={MIN_GAME_SPEED}
+            max={1}
+            step={0.05}
+            value={settings.gameSpeed}
+            onChange={e => onChange({ ...settings, gameSpeed: Number(e.target.value) })}
+            className="w-full accent-emerald-500"
+          />
+          <span className="block text-[10px] text-white/40">{t('gameSpeedHint')}</span>
+        </label>
+
+        <label className="flex items-start gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={reducedMotion}
+            onChange={e => onReducedMotionChange(e.target.checked)}
+            className="mt-0.5 accent-emerald-500"
+          />
+          <span>
+            {t('reducedMotion')}
+            <span className="block text-[10px] text-white/40">{t('reducedMotionHint')}</span>
+          </span>
+        </label>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Bomb, Boxes, Gauge, Sparkles } from 'lucide-react';
+import { Turret, UpgradeKind } from '../types';
+import { nextUpgradeCost, UPGRADE_COSTS, UPGRADE_KINDS } from '../game/upgrades';
+import { Translate } from '../i18n';
+
+interface UpgradeShopProps {
+  turrets: Turret[];
+  credits: number;
+  t: Translate;
+  onBuy: (turretId: string, upgrade: UpgradeKind) => void;
+}
+
+const ICONS: Record<UpgradeKind, React.ElementType> = {
+  speed: Gauge,
+  blast: Bomb,
+  capacity: Boxes,
+  flak: Sparkles,
+};
+
+export function UpgradeShop({ turrets, credits, t, onBuy }: UpgradeShopProps) {
+  const names: Record<UpgradeKind, string> = {
+    speed: t('upgradeSpeed'),
+    blast: t('upgradeBlast'),
+    capacity: t('upgradeCapacity'),
+    flak: t('upgradeFlak'),
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] uppercase text-white/40 font-mono">{t('shop')}</span>
+        <span className="font-mono text-sm text-amber-400">
+          {t('credits')}: {credits}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {turrets.map((turret, i) => (
+          <div key={turret.id} className="p-2 rounded-2xl bg-white/5 border border-white/10 space-y-1">
+            <p className="text-[10px] uppercase font-mono text-white/60 text-center">
+              {t('battery', { n: i + 1 })}
+            </p>
+            {UPGRADE_KINDS.map(kind => {
+              const Icon = ICONS[kind];
+              const cost = nextUpgradeCost(turret, kind);
+              const level = turret.upgrades[kind];
+              return (
+                <button
+                  key={kind}
+                  disabled={cost === null || cost > credits}
+                  onClick={() => onBuy(turret.id, kind)}
+                  title={names[kind]}
+                  className="w-full flex items-center gap-1 px-2 py-1 rounded-lg bg-white/5 text-[10px] font-mono hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-white/5 transition-colors"
+                >
+                  <Icon className="w-3 h-3 shrink-0" />
+                  <span className="flex-1 truncate text-left">
+                    {names[kind]} {level}/{UPGRADE_COSTS[kind].length}
+                  </span>
+                  <span className="text-amber-400">{cost === null ? t('maxed') : cost}</span>
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
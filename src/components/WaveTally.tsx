@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { Building2, ChevronsRight, Crosshair } from 'lucide-react';
+import { WaveTally as Tally } from '../types';
+import { Translate } from '../i18n';
+
+// Milliseconds spent counting up each row of the tally.
+const ROW_MS = 1200;
+
+interface WaveTallyProps {
+  tally: Tally;
+  t: Translate;
+  onContinue: () => void;
+  children?: React.ReactNode; // shown between the tally and the continue button
+}
+
+function useElapsed(until: number): number {
+  const [elapsed, setElapsed] = useState(0);
+  useEffect(() => {
+    let frame = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      setElapsed(now - start);
+      if (now - start < until) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [until]);
+  return elapsed;
+}
+
+function countUp(total: number, elapsed: number, from: number): number {
+  return Math.round(total * Math.min(1, Math.max(0, (elapsed - from) / ROW_MS)));
+}
+
+export function WaveTally({ tally, t, onContinue, children }: WaveTallyProps) {
+  const elapsed = useElapsed(ROW_MS * 2 + 400);
+  const interceptors = countUp(tally.interceptorsLeft, elapsed, 0);
+  const cities = countUp(tally.citiesLeft, elapsed, ROW_MS);
+  const running = interceptors * tally.perInterceptor + cities * tally.perCity;
+  const done = elapsed >= ROW_MS * 2;
+
+  return (
+    <motion.div
+      initial={{ scale: 0.9, y: 20 }}
+      animate={{ scale: 1, y: 0 }}
+      className="bg-black p-8 rounded-[2rem] border-2 border-amber-400 shadow-2xl shadow-amber-400/20 space-y-5 w-full max-w-lg max-h-full overflow-y-auto"
+    >
+      <h2 className="text-3xl font-black italic tracking-tighter text-amber-400">
+        {t('waveCleared', { level: tally.level })}
+      </h2>
+
+      <div className="space-y-2 font-mono text-sm text-left">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-white/40" />
+          <span className="flex-1 text-white/60">{t('interceptorsLeft')}</span>
+          <span>
+            {interceptors} × {tally.perInterceptor}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Building2 className="w-4 h-4 text-blue-400" />
+          <span className="flex-1 text-white/60">{t('citiesSaved')}</span>
+          <span>
+            {cities} × {tally.perCity}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+          <span className="flex-1 text-[10px] uppercase text-white/40">{t('waveBonus')}</span>
+          <span className="text-xl font-bold text-amber-400">+{running}</span>
+        </div>
+      </div>
+
+      {done && tally.citiesRebuilt.length > 0 && (
+        <motion.p initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-xs font-mono text-blue-400">
+          {t('citiesRebuilt', { count: tally.citiesRebuilt.length })}
+        </motion.p>
+      )}
+
+      {children}
+
+      <button
+        onClick={onContinue}
+        className="w-full py-3 bg-amber-400 text-black font-bold rounded-2xl hover:bg-amber-300 transition-colors flex items-center justify-center gap-2"
+      >
+        <ChevronsRight className="w-5 h-5" />
+        {t('nextWave')}
+      </button>
+    </motion.div>
+  );
+}
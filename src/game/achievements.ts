@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AchievementId, GameEvent, GameState, GameStatus, RunStats } from '../types';
+import { INITIAL_CITIES } from './constants';
+import { MAX_COMBO } from './scoring';
+
+/** Values an unlock condition can test, measured when its event happens. */
+export type AchievementMetric =
+  | 'runKills' // enemies destroyed this game
+  | 'chainKills' // enemies destroyed by the shot behind this kill
+  | 'combo' // multiplier of this kill
+  | 'citiesLeft'
+  | 'won' // 1 once the game is won
+  | 'accuracy' // percent of this game's shots that hit something
+  | 'waveShotsLeft' // shots this wave from the leftmost battery
+  | 'waveShotsCenter'
+  | 'waveShotsRight'
+  | 'lifetimeKills'; // including this game
+
+export interface Bound {
+  min?: number;
+  max?: number;
+}
+
+/** Unlocked the first time an `on` event happens while every metric is within its bound. */
+export interface AchievementDefinition {
+  id: AchievementId;
+  on: GameEvent['type'];
+  when: Partial<Record<AchievementMetric, Bound>>;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'firstContact', on: 'enemyDestroyed', when: { runKills: { min: 1 } } },
+  { id: 'chainReaction', on: 'enemyDestroyed', when: { chainKills: { min: 10 } } },
+  { id: 'maxCombo', on: 'enemyDestroyed', when: { combo: { min: MAX_COMBO } } },
+  {
+    id: 'southpaw',
+    on: 'waveCleared',
+    when: { waveShotsLeft: { min: 1 }, waveShotsCenter: { max: 0 }, waveShotsRight: { max: 0 } },
+  },
+  { id: 'victory', on: 'statusChanged', when: { won: { min: 1 } } },
+  { id: 'flawless', on: 'statusChanged', when: { won: { min: 1 }, citiesLeft: { min: INITIAL_CITIES.length } } },
+  { id: 'lastStand', on: 'statusChanged', when: { won: { min: 1 }, citiesLeft: { max: 1 } } },
+  { id: 'sharpshooter', on: 'statusChanged', when: { won: { min: 1 }, accuracy: { min: 75 } } },
+  { id: 'centurion', on: 'enemyDestroyed', when: { runKills: { min: 100 } } },
+  { id: 'veteran', on: 'enemyDestroyed', when: { lifetimeKills: { min: 1000 } } },
+];
+
+export interface AchievementTracker {
+  /** Game event listener; returns what those events newly satisfied. */
+  handleEvents(events: GameEvent[], state: GameState): AchievementId[];
+  /** Starts a new game on top of `lifetimeKills` from earlier ones. */
+  reset(lifetimeKills: number): void;
+  /** Picks a saved game back up from its run stats; shots of the wave in progress start over. */
+  resume(lifetimeKills: number, stats: RunStats): void;
+}
+
+function within(value: number, bound: Bound): boolean {
+  return value >= (bound.min ?? -Infinity) && value <= (bound.max ?? Infinity);
+}
+
+// Leftmost, middle and rightmost battery by position; every turret between the ends counts as center
+function batterySlot(state: GameState, turretId: string): 0 | 1 | 2 {
+  const xs = state.turrets.map(t => t.x);
+  const x = state.turrets.find(t => t.id === turretId)?.x;
+  if (x === Math.min(...xs)) return 0;
+  if (x === Math.max(...xs)) return 2;
+  return 1;
+}
+
+export function createAchievementTracker(definitions = ACHIEVEMENTS): AchievementTracker {
+  let previousKills = 0;
+  let kills = 0;
+  let shots = 0;
+  let hitShots = 0;
+  let hit = new Set<string>();
+  let shotKills = new Map<string, number>();
+  let waveShots = [0, 0, 0];
+
+  const tracker: AchievementTracker = {
+    handleEvents(events, state) {
+      const unlocked: AchievementId[] = [];
+      events.forEach(e => {
+        let chainKills = 0;
+        let combo = 0;
+        switch (e.type) {
+          case 'interceptorLaunched':
+            shots += 1;
+            waveShots[batterySlot(state, e.turretId)] += 1;
+            break;
+          case 'enemyDestroyed':
+            kills += 1;
+            if (!hit.has(e.shot)) hitShots += 1;
+            hit.add(e.shot);
+            chainKills = (shotKills.get(e.shot) ?? 0) + 1;
+            shotKills.set(e.shot, chainKills);
+            combo = e.multiplier;
+            break;
+        }
+
+        const metrics: Record<AchievementMetric, number> = {
+          runKills: kills,
+          chainKills,
+          combo,
+          citiesLeft: state.cities.filter(c => c.active).length,
+          won: state.status === GameStatus.WON ? 1 : 0,
+          accuracy: shots === 0 ? 0 : (hitShots / shots) * 100,
+          waveShotsLeft: waveShots[0],
+          waveShotsCenter: waveShots[1],
+          waveShotsRight: waveShots[2],
+          lifetimeKills: previousKills + kills,
+        };
+        definitions.forEach(d => {
+          if (d.on !== e.type || unlocked.includes(d.id)) return;
+          const entries = Object.entries(d.when) as [AchievementMetric, Bound][];
+          if (entries.every(([metric, bound]) => within(metrics[metric], bound))) unlocked.push(d.id);
+        });
+
+        if (e.type === 'waveStarted') waveShots = [0, 0, 0];
+      });
+      return unlocked;
+    },
+
+    reset(lifetimeKills) {
+      previousKills = lifetimeKills;
+      kills = 0;
+      shots = 0;
+      hitShots = 0;
+      hit = new Set();
+      shotKills = new Map();
+      waveShots = [0, 0, 0];
+    },
+
+    resume(lifetimeKills, stats) {
+      tracker.reset(lifetimeKills);
+      kills = stats.kills;
+      shots = stats.shots;
+      hitShots = stats.hitShots;
+    },
+  };
+  return tracker;
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Campaign, GameStatus, Modifier, RuleSet } from '../types';
+import { TICK_MS } from './constants';
+import { BotPolicy, createBot } from './bot';
+import { createGameState, step } from './engine';
+import { createRunStats } from './stats';
+
+// An endless run the bot never loses is cut off after this much simulated time
+const MAX_GAME_MS = 60 * 60 * 1000;
+
+export interface SimulationOptions {
+  policy: BotPolicy;
+  games: number;
+  seed: number; // game n uses seed + n, so runs with the same options match exactly
+  rules?: RuleSet;
+  campaign?: Campaign;
+  modifier?: Modifier | null;
+}
+
+/** How the bot fared on one level across every game that reached it. */
+export interface LevelReport {
+  level: number;
+  reached: number; // games that started this level
+  clearRate: number; // share of those that cleared it
+  avgCitiesLeft: number; // cities standing when it was cleared
+}
+
+export interface BalanceReport {
+  policy: BotPolicy;
+  rules: RuleSet;
+  games: number;
+  winRate: number;
+  avgScore: number;
+  avgLevel: number;
+  killsPerShot: number; // ammo efficiency: flak and chains can push it past 1
+  accuracy: number; // share of shots that destroyed anything
+  levels: LevelReport[];
+}
+
+interface GameResult {
+  won: boolean;
+  score: number;
+  level: number;
+  shots: number;
+  kills: number;
+  hitShots: number;
+  cleared: Map<number, number>; // level -> cities left
+}
+
+function playGame(options: SimulationOptions, seed: number): GameResult {
+  const state = createGameState(seed, options.campaign, 'solo', options.modifier ?? null, options.rules);
+  const bot = createBot(options.policy, seed);
+  const stats = createRunStats();
+  const cleared = new Map<number, number>();
+
+  while ((state.status === GameStatus.PLAYING || state.status === GameStatus.NEXT_ROUND) && state.time < MAX_GAME_MS) {
+    const events = step(state, bot.decide(state), TICK_MS);
+    stats.handleEvents(events, state);
+    events.forEach(e => {
+      if (e.type === 'waveCleared') cleared.set(e.tally.level, e.tally.citiesLeft);
+    });
+  }
+  const { shots, kills, hitShots } = stats.snapshot();
+  return { won: state.status === GameStatus.WON, score: state.score, level: state.level, shots, kills, hitShots, cleared };
+}
+
+const average = (values: number[]) => (values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length);
+
+/** Plays `options.games` games with the bot and sums them up. */
+export function simulate(options: SimulationOptions): BalanceReport {
+  const results = Array.from({ length: options.games }, (_, n) => playGame(options, options.seed + n));
+  const total = (value: (r: GameResult) => number) => results.reduce((sum, r) => sum + value(r), 0);
+  const shots = total(r => r.shots);
+  const topLevel = Math.max(0, ...results.map(r => r.level));
+
+  const levels = Array.from({ length: topLevel }, (_, i): LevelReport => {
+    const level = i + 1;
+    const reached = results.filter(r => r.level >= level);
+    const cleared = reached.flatMap(r => (r.cleared.has(level) ? [r.cleared.get(level)!] : []));
+    return {
+      level,
+      reached: reached.length,
+      clearRate: reached.length === 0 ? 0 : cleared.length / reached.length,
+      avgCitiesLeft: average(cleared),
+    };
+  });
+
+  return {
+    policy: options.policy,
+    rules: options.rules ?? 'classic',
+    games: results.length,
+    winRate: average(results.map(r => (r.won ? 1 : 0))),
+    avgScore: average(results.map(r => r.score)),
+    avgLevel: average(results.map(r => r.level)),
+    killsPerShot: shots === 0 ? 0 : total(r => r.kills) / shots,
+    accuracy: shots === 0 ? 0 : total(r => r.hitShots) / shots,
+    levels,
+  };
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/** One row per policy and level, with the policy's totals repeated on each. */
+export function reportsToCsv(reports: BalanceReport[]): string {
+  const header = 'policy,rules,games,winRate,avgScore,avgLevel,killsPerShot,accuracy,level,reached,clearRate,avgCitiesLeft';
+  const rows = reports.flatMap(r =>
+    r.levels.map(l =>
+      [r.policy, r.rules, r.games, r.winRate, r.avgScore, r.avgLevel, r.killsPerShot, r.accuracy, l.level, l.reached, l.clearRate, l.avgCitiesLeft]
+        .map(v => (typeof v === 'number' ? round(v) : v))
+        .join(','),
+    ),
+  );
+  return [header, ...rows].join('\n');
+}
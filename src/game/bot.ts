@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Enemy, GameInput, GameState, GameStatus, Point } from '../types';
+import { GROUND_Y, WORLD_WIDTH } from './constants';
+import { nearestTurret } from './engine';
+import { nextRandom } from './random';
+import { interceptorSpeed } from './upgrades';
+
+/**
+ * How a scripted defender picks its shots.
+ * - random: fires at random points in the sky
+ * - nearestThreat: fires at where the lowest enemy is now
+ * - intercept: fires at where the enemy closest to impact will be when the interceptor arrives
+ */
+export type BotPolicy = 'random' | 'nearestThreat' | 'intercept';
+
+export const BOT_POLICIES: BotPolicy[] = ['random', 'nearestThreat', 'intercept'];
+
+// At most one shot this often (simulated ms), about as fast as a person clicks
+const FIRE_INTERVAL_MS = 400;
+// An enemy shot at is left alone for this long after the interceptor lands
+const COVER_MS = 900;
+// Aim this far past the interceptor's arrival so the target flies into the growing blast
+const BLAST_LEAD_S = 0.1;
+// Blasts set off right on the ground are wasted on warheads that have already hit
+const MIN_CLEARANCE = 15;
+
+export interface Bot {
+  readonly policy: BotPolicy;
+  /** Inputs for the next step of `state`, which the bot defends as player 1. Call once per tick. */
+  decide(state: GameState): GameInput[];
+}
+
+/** Where `enemy` will be in `seconds` if it keeps its course. */
+export function predictPosition(enemy: Enemy, seconds: number): Point {
+  switch (enemy.type) {
+    case 'rocket':
+    case 'mirv': {
+      const progress = Math.min(1, enemy.progress + enemy.speed * seconds);
+      return {
+        x: enemy.startX + (enemy.targetX - enemy.startX) * progress,
+        y: enemy.startY + (enemy.targetY - enemy.startY) * progress,
+      };
+    }
+    case 'smartBomb': {
+      const dx = enemy.targetX - enemy.x;
+      const dy = enemy.targetY - enemy.y;
+      const remaining = Math.hypot(dx, dy) || 1;
+      const travel = Math.min(remaining, enemy.speed * seconds);
+      return { x: enemy.x + (dx / remaining) * travel, y: enemy.y + (dy / remaining) * travel };
+    }
+    case 'bomber':
+    case 'satellite':
+      return { x: enemy.x + enemy.vx * seconds, y: enemy.y };
+  }
+}
+
+/** Seconds until `enemy` reaches the ground; flyers never do. */
+function timeToImpact(enemy: Enemy): number {
+  switch (enemy.type) {
+    case 'rocket':
+    case 'mirv':
+      return (1 - enemy.progress) / enemy.speed;
+    case 'smartBomb':
+      return Math.hypot(enemy.targetX - enemy.x, enemy.targetY - enemy.y) / enemy.speed;
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * A defender that plays by `policy`. Its own randomness comes from `seed` and
+ * never touches the game's generator, so it does not change what the game spawns.
+ */
+export function createBot(policy: BotPolicy, seed = 1): Bot {
+  let rngState = seed >>> 0;
+  let nextShotAt = 0;
+  const covered = new Map<string, number>(); // enemy id -> simulated ms it stays covered until
+
+  const random = () => {
+    const { value, state } = nextRandom(rngState);
+    rngState = state;
+    return value;
+  };
+
+  const pickTarget = (state: GameState): Enemy | null => {
+    covered.forEach((until, id) => {
+      if (until <= state.time) covered.delete(id);
+    });
+    const open = state.enemies.filter(e => !covered.has(e.id) && e.x > 0 && e.x < WORLD_WIDTH);
+    if (open.length === 0) return null;
+    const urgency = policy === 'intercept' ? (e: Enemy) => timeToImpact(e) : (e: Enemy) => -e.y;
+    return open.reduce((best, e) => (urgency(e) < urgency(best) ? e : best));
+  };
+
+  return {
+    policy,
+    decide(state) {
+      if (state.status === GameStatus.NEXT_ROUND) {
+        nextShotAt = 0;
+        covered.clear();
+        return [{ type: 'continue' }];
+      }
+      if (state.status !== GameStatus.PLAYING || state.time < nextShotAt) return [];
+
+      if (policy === 'random') {
+        if (state.enemies.length === 0) return [];
+        nextShotAt = state.time + FIRE_INTERVAL_MS;
+        return [{ type: 'fire', x: random() * WORLD_WIDTH, y: 100 + random() * (GROUND_Y - 200) }];
+      }
+
+      const target = pickTarget(state);
+      if (!target) return [];
+      let aim: Point = target;
+      let turret = nearestTurret(state.turrets, aim.x);
+      if (!turret) return [];
+      let flight = 1 / interceptorSpeed(turret);
+      if (policy === 'intercept') {
+        // The turret depends on the aim point and the flight time on the turret, so settle both in two passes
+        for (let pass = 0; pass < 2; pass++) {
+          aim = predictPosition(target, flight + BLAST_LEAD_S);
+          turret = nearestTurret(state.turrets, aim.x) ?? turret;
+          flight = 1 / interceptorSpeed(turret);
+        }
+      }
+      if (aim.y > GROUND_Y - MIN_CLEARANCE) {
+        // Too late to save; move on to the next one
+        covered.set(target.id, Infinity);
+        return [];
+      }
+
+      nextShotAt = state.time + FIRE_INTERVAL_MS;
+      covered.set(target.id, state.time + flight * 1000 + COVER_MS);
+      return [{ type: 'fire', x: aim.x, y: aim.y, turretId: turret.id }];
+    },
+  };
+}
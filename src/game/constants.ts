@@ -0,0 +1,34 @@
+import { City, Turret } from '../types';
+
+// Size of the playfield in world units. The renderer scales it to whatever the screen offers.
+export const WORLD_WIDTH = 800;
+export const WORLD_HEIGHT = 600;
+// Top of the ground strip; turrets stand on it and cities sit just below
+export const GROUND_Y = 550;
+export const CITY_Y = 570;
+
+// The simulation always advances in steps of this size, whatever the display refresh rate.
+export const TICK_MS = 1000 / 60;
+
+export const INITIAL_TURRETS: Turret[] = [
+  { id: 't1', x: 80, y: GROUND_Y, ammo: 20, maxAmmo: 20, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 0 },
+  { id: 't2', x: 400, y: GROUND_Y, ammo: 40, maxAmmo: 40, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 0 },
+  { id: 't3', x: 720, y: GROUND_Y, ammo: 20, maxAmmo: 20, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 0 },
+];
+
+// Co-op splits the centre battery in two so each player gets a left/right pair with the same ammo
+export const COOP_TURRETS: Turret[] = [
+  { id: 't1', x: 80, y: GROUND_Y, ammo: 20, maxAmmo: 20, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 0 },
+  { id: 't2', x: 380, y: GROUND_Y, ammo: 20, maxAmmo: 20, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 0 },
+  { id: 't4', x: 420, y: GROUND_Y, ammo: 20, maxAmmo: 20, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 1 },
+  { id: 't3', x: 720, y: GROUND_Y, ammo: 20, maxAmmo: 20, active: true, upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 }, owner: 1 },
+];
+
+export const INITIAL_CITIES: City[] = [
+  { id: 'c1', x: 180, y: CITY_Y, active: true },
+  { id: 'c2', x: 260, y: CITY_Y, active: true },
+  { id: 'c3', x: 340, y: CITY_Y, active: true },
+  { id: 'c4', x: 460, y: CITY_Y, active: true },
+  { id: 'c5', x: 540, y: CITY_Y, active: true },
+  { id: 'c6', x: 620, y: CITY_Y, active: true },
+];
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DailyChallenge } from '../types';
+import { MODIFIERS } from './modifiers';
+import { nextRandom } from './random';
+
+const DAILY_ATTEMPT_KEY = 'starry-defense:daily-attempt';
+
+/** The UTC calendar day of `now` as YYYY-MM-DD. */
+export function utcDate(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+// FNV-1a, so the seed only depends on the date string
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** The challenge for `date`; every client and the server derive the same one. */
+export function dailyChallenge(date: string): DailyChallenge {
+  const seed = hash(`starry-defense:${date}`);
+  const modifier = MODIFIERS[Math.floor(nextRandom(seed).value * MODIFIERS.length)];
+  return { date, seed, modifier };
+}
+
+export function isDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const ms = Date.parse(value);
+  return !Number.isNaN(ms) && utcDate(ms) === value;
+}
+
+/** Whether this browser already used its ranked attempt on `date`. */
+export function hasAttempted(date: string): boolean {
+  return localStorage.getItem(DAILY_ATTEMPT_KEY) === date;
+}
+
+export function saveAttempt(date: string) {
+  localStorage.setItem(DAILY_ATTEMPT_KEY, date);
+}
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Enemy, EnemyType, Flyer, GameEvent, GameState, GameStatus, Mirv, Point, Rocket } from '../types';
+import { WORLD_WIDTH } from './constants';
+import { currentWave, nextId, random, randomBetween, setStatus } from './state';
+
+export const ENEMY_POINTS: Record<EnemyType, number> = {
+  rocket: 20,
+  mirv: 40,
+  smartBomb: 120,
+  bomber: 100,
+  satellite: 160,
+};
+
+export const ENEMY_TYPES = Object.keys(ENEMY_POINTS) as EnemyType[];
+
+// Radius of the secondary blast a destroyed enemy leaves behind
+export const CHAIN_BLAST_RADIUS: Record<EnemyType, number> = {
+  rocket: 18,
+  mirv: 26,
+  smartBomb: 30,
+  bomber: 28,
+  satellite: 24,
+};
+
+const HIT_TOLERANCE = 5;
+const MIRV_FRAGMENTS = { min: 2, max: 4 };
+const MIRV_SPLIT_AT = { min: 0.3, max: 0.5 };
+const SMART_BOMB_DODGE_MARGIN = 25;
+const FLYER_MARGIN = 30;
+
+const FLYERS: Record<Flyer['type'], { altitude: [number, number]; speed: [number, number]; drops: [number, number]; dropInterval: [number, number] }> = {
+  bomber: { altitude: [110, 180], speed: [55, 80], drops: [2, 3], dropInterval: [1.2, 2.2] },
+  satellite: { altitude: [50, 90], speed: [100, 130], drops: [1, 2], dropInterval: [1.5, 2.5] },
+};
+
+/** Most points one scheduled enemy can yield, counting the rockets it splits into or drops. */
+export function maxEnemyPoints(type: EnemyType): number {
+  switch (type) {
+    case 'mirv':
+      return Math.max(ENEMY_POINTS.mirv, MIRV_FRAGMENTS.max * ENEMY_POINTS.rocket);
+    case 'bomber':
+    case 'satellite':
+      return ENEMY_POINTS[type] + FLYERS[type].drops[1] * ENEMY_POINTS.rocket;
+    default:
+      return ENEMY_POINTS[type];
+  }
+}
+
+function randomInt(state: GameState, min: number, max: number): number {
+  return min + Math.floor(random(state) * (max - min + 1));
+}
+
+/** Weighted pick among surviving cities and turrets; each counts with its kind's weight. */
+function pickTarget(state: GameState): Point | null {
+  const { targets: weights } = currentWave(state);
+  const targets = [
+    ...state.cities.filter(c => c.active).map(c => ({ point: c, weight: weights.cities })),
+    ...state.turrets.filter(t => t.active).map(t => ({ point: t, weight: weights.turrets })),
+  ].filter(t => t.weight > 0);
+  if (targets.length === 0) return null;
+
+  let roll = random(state) * targets.reduce((sum, t) => sum + t.weight, 0);
+  return (targets.find(t => (roll -= t.weight) < 0) ?? targets[targets.length - 1]).point;
+}
+
+function createRocket(state: GameState, from: Point, target: Point, speed: number): Rocket {
+  return {
+    id: nextId(state, 'r'),
+    type: 'rocket',
+    x: from.x,
+    y: from.y,
+    startX: from.x,
+    startY: from.y,
+    targetX: target.x,
+    targetY: target.y,
+    speed,
+    progress: 0,
+  };
+}
+
+function waveSpeed(state: GameState): number {
+  const { speed } = currentWave(state);
+  return randomBetween(state, speed.min, speed.max);
+}
+
+/**
+ * Spawns an enemy of `type`. Without `aim` it enters at a random spot and picks its
+ * target by the wave's weights; with it, the versus attacker or a scripted wave chose
+ * where it enters and, unless `target` is missing, what it aims at. A scripted `speed`
+ * replaces the wave's random one.
+ */
+export function spawnEnemy(state: GameState, type: EnemyType, events: GameEvent[], aim?: { x: number; target?: Point; speed?: number }) {
+  const target = aim?.target ?? pickTarget(state);
+  if (!target) return;
+
+  let enemy: Enemy;
+  switch (type) {
+    case 'rocket':
+    case 'mirv': {
+      const rocket = createRocket(state, { x: aim ? aim.x : random(state) * WORLD_WIDTH, y: 0 }, target, aim?.speed ?? waveSpeed(state));
+      enemy =
+        type === 'rocket'
+          ? rocket
+          : {
+              ...rocket,
+              id: nextId(state, 'm'),
+              type: 'mirv',
+              splitAt: randomBetween(state, MIRV_SPLIT_AT.min, MIRV_SPLIT_AT.max),
+              fragments: randomInt(state, MIRV_FRAGMENTS.min, MIRV_FRAGMENTS.max),
+            };
+      break;
+    }
+    case 'smartBomb': {
+      const x = aim ? aim.x : random(state) * WORLD_WIDTH;
+      // Same time-to-target as a rocket from the same spot would have
+      const distance = Math.hypot(target.x - x, target.y);
+      enemy = {
+        id: nextId(state, 's'),
+        type,
+        x,
+        y: 0,
+        targetX: target.x,
+        targetY: target.y,
+        speed: distance * (aim?.speed ?? waveSpeed(state)),
+      };
+      break;
+    }
+    case 'bomber':
+    case 'satellite': {
+      const spec = FLYERS[type];
+      const fromLeft = aim ? aim.x < WORLD_WIDTH / 2 : random(state) < 0.5;
+      const speed = randomBetween(state, ...spec.speed);
+      enemy = {
+        id: nextId(state, type === 'bomber' ? 'b' : 'o'),
+        type,
+        x: fromLeft ? -FLYER_MARGIN : WORLD_WIDTH + FLYER_MARGIN,
+        y: randomBetween(state, ...spec.altitude),
+        vx: fromLeft ? speed : -speed,
+        dropsLeft: randomInt(state, ...spec.drops),
+        dropTimer: randomBetween(state, ...spec.dropInterval),
+      };
+      break;
+    }
+  }
+  state.enemies.push(enemy);
+  events.push({ type: 'enemySpawned', enemy });
+}
+
+/** A warhead has reached the ground at (x, y): whatever city or turret stands there is destroyed. */
+function impact(state: GameState, x: number, y: number, events: GameEvent[]) {
+  const city = state.cities.find(c => c.active && Math.abs(c.x - x) < HIT_TOLERANCE && Math.abs(c.y - y) < HIT_TOLERANCE);
+  if (city) {
+    city.active = false;
+    events.push({ type: 'cityDestroyed', city });
+  }
+  const turret = state.turrets.find(t => t.active && Math.abs(t.x - x) < HIT_TOLERANCE && Math.abs(t.y - y) < HIT_TOLERANCE);
+  if (turret) {
+    turret.active = false;
+    events.push({ type: 'turretDestroyed', turret });
+  }
+
+  // With no city left to defend, or nothing left to defend it with, the run is lost
+  if (state.cities.every(c => !c.active) || state.turrets.every(t => !t.active)) {
+    setStatus(state, GameStatus.LOST, events);
+  }
+}
+
+function splitMirv(state: GameState, mirv: Mirv, spawned: Enemy[], events: GameEvent[]) {
+  const fragments: Rocket[] = [];
+  for (let i = 0; i < mirv.fragments; i++) {
+    const target = pickTarget(state) ?? { x: mirv.targetX, y: mirv.targetY };
+    fragments.push(createRocket(state, mirv, target, mirv.speed));
+  }
+  spawned.push(...fragments);
+  events.push({ type: 'mirvSplit', enemy: mirv, fragments });
+}
+
+/** Moves one enemy; returns false once it has left play. New enemies it releases go into `spawned`. */
+function updateEnemy(state: GameState, e: Enemy, seconds: number, spawned: Enemy[], events: GameEvent[]): boolean {
+  switch (e.type) {
+    case 'rocket':
+    case 'mirv': {
+      e.progress = Math.min(1, e.progress + e.speed * seconds);
+      e.x = e.startX + (e.targetX - e.startX) * e.progress;
+      e.y = e.startY + (e.targetY - e.startY) * e.progress;
+
+      if (e.type === 'mirv' && e.progress >= e.splitAt) {
+        splitMirv(state, e, spawned, events);
+        return false;
+      }
+      if (e.progress >= 1) {
+        impact(state, e.targetX, e.targetY, events);
+        return false;
+      }
+      return true;
+    }
+    case 'smartBomb': {
+      let dx = e.targetX - e.x;
+      let dy = e.targetY - e.y;
+      const remaining = Math.hypot(dx, dy);
+      const travel = e.speed * seconds;
+      if (remaining <= travel) {
+        impact(state, e.targetX, e.targetY, events);
+        return false;
+      }
+      dx /= remaining;
+      dy /= remaining;
+
+      // Steer away from any blast it is about to fly into
+      state.explosions.forEach(ex => {
+        const ox = e.x - ex.x;
+        const oy = e.y - ex.y;
+        const dist = Math.hypot(ox, oy) || 1;
+        const reach = ex.radius + SMART_BOMB_DODGE_MARGIN;
+        if (dist < reach) {
+          const push = (reach - dist) / reach;
+          dx += (ox / dist) * push * 2;
+          dy += (oy / dist) * push * 2;
+        }
+      });
+      const len = Math.hypot(dx, dy) || 1;
+      e.x += (dx / len) * travel;
+      // Never climb, so a dodge cannot stall it forever
+      e.y += Math.max(0, (dy / len) * travel);
+      return true;
+    }
+    case 'bomber':
+    case 'satellite': {
+      e.x += e.vx * seconds;
+      const overField = e.x > FLYER_MARGIN && e.x < WORLD_WIDTH - FLYER_MARGIN;
+      if (overField && e.dropsLeft > 0) {
+        e.dropTimer -= seconds;
+        if (e.dropTimer <= 0) {
+          const target = pickTarget(state);
+          if (target) {
+            const rocket = createRocket(state, e, target, waveSpeed(state));
+            spawned.push(rocket);
+            events.push({ type: 'enemySpawned', enemy: rocket });
+          }
+          e.dropsLeft -= 1;
+          e.dropTimer = randomBetween(state, ...FLYERS[e.type].dropInterval);
+        }
+      }
+      return e.x > -FLYER_MARGIN - 1 && e.x < WORLD_WIDTH + FLYER_MARGIN + 1;
+    }
+  }
+}
+
+export function updateEnemies(state: GameState, seconds: number, events: GameEvent[]) {
+  const spawned: Enemy[] = [];
+  state.enemies = state.enemies.filter(e => updateEnemy(state, e, seconds, spawned, events));
+  state.enemies.push(...spawned);
+}
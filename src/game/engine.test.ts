@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { Campaign, GameState, GameStatus, WaveDefinition } from '../types';
+import { TICK_MS } from './constants';
+import { createBot } from './bot';
+import { createGameState, step } from './engine';
+import { drainSteps, frameElapsed, MAX_FRAME_MS } from './loop';
+
+/** Plays `ticks` fixed steps of `state` with a bot defending. */
+function play(state: GameState, ticks: number) {
+  const bot = createBot('intercept', 7);
+  for (let i = 0; i < ticks && state.status === GameStatus.PLAYING; i++) step(state, bot.decide(state));
+}
+
+/** Frame timestamps `frameMs` apart for `seconds`, with the tab stalling for `stallMs` halfway through. */
+function frameTimes(frameMs: number, seconds: number, stallMs = 0): number[] {
+  const count = Math.floor((seconds * 1000) / frameMs);
+  return Array.from({ length: count }, (_, n) => n * frameMs + (n >= count / 2 ? stallMs : 0));
+}
+
+/**
+ * Plays like the browser loop: each frame's clamped wall-clock time is drained
+ * in fixed steps, with a bot defending, until `ticks` steps have run.
+ */
+function playFrames(state: GameState, times: number[], ticks = Infinity) {
+  const bot = createBot('intercept', 7);
+  const running = () => state.tick < ticks && state.status === GameStatus.PLAYING;
+  let last: number | null = null;
+  let accumulator = 0;
+  times.forEach(time => {
+    accumulator = drainSteps(accumulator, frameElapsed(last, time), running, () => step(state, bot.decide(state)));
+    last = time;
+  });
+}
+
+function wave(overrides: Partial<WaveDefinition> = {}): WaveDefinition {
+  return {
+    enemies: [{ type: 'rocket', count: 1 }],
+    pattern: { kind: 'steady', interval: 1000 },
+    startDelay: 0,
+    speed: { min: 0.05, max: 0.05 },
+    targets: { cities: 1, turrets: 0 },
+    ammo: 'full',
+    bonus: { perInterceptor: 5, perCity: 100 },
+    ...overrides,
+  };
+}
+
+/** Steps until the wave's only warhead is in the air, then takes it out as if it had been shot down. */
+function clearCurrentWave(state: GameState) {
+  while (state.wave.schedule.length > 0) step(state, []);
+  state.enemies = [];
+  step(state, []);
+}
+
+describe('determinism', () => {
+  it('gives the same final state for the same seed and inputs', () => {
+    const a = createGameState(12345);
+    const b = createGameState(12345);
+    play(a, 3000);
+    play(b, 3000);
+    expect(a.tick).toBeGreaterThan(0);
+    expect(a.rngState).toBe(b.rngState);
+    expect(a).toEqual(b);
+  });
+
+  it('gives a different game for another seed', () => {
+    const a = createGameState(1);
+    const b = createGameState(2);
+    play(a, 600);
+    play(b, 600);
+    expect(a.rngState).not.toBe(b.rngState);
+  });
+
+  it('does not depend on the display refresh rate', () => {
+    const at60 = createGameState(99);
+    const at144 = createGameState(99);
+    playFrames(at60, frameTimes(1000 / 60, 12, 3000), 600);
+    playFrames(at144, frameTimes(1000 / 144, 12, 3000), 600);
+    expect(at60.tick).toBe(600);
+    expect(at144).toEqual(at60);
+  });
+
+  it('covers at most MAX_FRAME_MS of game time after a stall', () => {
+    const state = createGameState(99);
+    playFrames(state, [0, 60_000]);
+    expect(state.tick).toBe(Math.round(MAX_FRAME_MS / TICK_MS));
+  });
+});
+
+describe('waves', () => {
+  const campaign: Campaign = {
+    id: 'test',
+    name: 'Test',
+    waves: [wave(), wave({ ammo: 3 }), wave()],
+  };
+
+  it('pays the bonus and waits between waves once a wave is cleared', () => {
+    const state = createGameState(5, campaign);
+    step(state, [{ type: 'fire', x: 100, y: 300 }]);
+    const ammo = state.turrets.reduce((sum, t) => sum + t.ammo, 0);
+    const score = state.score;
+    clearCurrentWave(state);
+
+    expect(state.status).toBe(GameStatus.NEXT_ROUND);
+    expect(state.tally).toMatchObject({ level: 1, interceptorsLeft: ammo, citiesLeft: state.cities.length });
+    expect(state.score - score).toBe(ammo * 5 + state.cities.length * 100);
+
+    // The clock stands still until the player continues
+    const tick = state.tick;
+    step(state, []);
+    expect(state.tick).toBe(tick);
+    expect(state.status).toBe(GameStatus.NEXT_ROUND);
+
+    step(state, [{ type: 'continue' }]);
+    expect(state.status).toBe(GameStatus.PLAYING);
+    expect(state.level).toBe(2);
+    expect(state.tally).toBeNull();
+    expect(state.enemies).toHaveLength(1);
+  });
+
+  it('tops turrets up by the wave ammo and repairs destroyed ones', () => {
+    const state = createGameState(5, campaign);
+    state.turrets[0].ammo = 4;
+    state.turrets[1].active = false;
+    clearCurrentWave(state);
+    step(state, [{ type: 'continue' }]);
+
+    expect(state.turrets[0].ammo).toBe(7);
+    expect(state.turrets[1]).toMatchObject({ active: true, ammo: 3 });
+    expect(state.turrets[2].ammo).toBe(state.turrets[2].maxAmmo);
+  });
+
+  it('refills every turret on a full-ammo wave', () => {
+    const state = createGameState(5, campaign);
+    clearCurrentWave(state);
+    step(state, [{ type: 'continue' }]);
+    state.turrets.forEach(t => (t.ammo = 1));
+    clearCurrentWave(state);
+    step(state, [{ type: 'continue' }]);
+
+    expect(state.level).toBe(3);
+    state.turrets.forEach(t => expect(t.ammo).toBe(t.maxAmmo));
+  });
+
+  it('wins after the last wave', () => {
+    const state = createGameState(5, { ...campaign, waves: [wave()] });
+    clearCurrentWave(state);
+    expect(state.status).toBe(GameStatus.WON);
+  });
+});
@@ -0,0 +1,379 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Campaign,
+  Explosion,
+  GameEvent,
+  GameInput,
+  GameMode,
+  GameState,
+  GameStatus,
+  Interceptor,
+  Modifier,
+  RuleSet,
+  Turret,
+  UpgradeKind,
+  WaveTally,
+} from '../types';
+import { COOP_TURRETS, INITIAL_CITIES, INITIAL_TURRETS, TICK_MS } from './constants';
+import { CHAIN_BLAST_RADIUS, ENEMY_POINTS, spawnEnemy, updateEnemies } from './enemies';
+import { award, emptyBreakdown, emptyPlayerStats, registerKill } from './scoring';
+import { currentWave, nextId, random, setStatus } from './state';
+import {
+  blastFade,
+  blastRadius,
+  CAPACITY_PER_LEVEL,
+  FLAK_SHELLS,
+  FLAK_SPREAD,
+  interceptorSpeed,
+  nextUpgradeCost,
+} from './upgrades';
+import { buildBase } from './level';
+import { applyModifier } from './modifiers';
+import { difficultyTier, RULES, waveAt } from './rules';
+import { creditAttacker, defenders, launch, playerCount, spawnDue } from './versus';
+import { buildSchedule, DEFAULT_CAMPAIGN } from './waves';
+
+// All rates are per simulated second so results do not depend on the display refresh rate.
+const EXPLOSION_GROWTH = 120;
+// Radius lost per unit of life, as a share of the blast's full radius
+const EXPLOSION_SHRINK = 0.625;
+// Secondary blasts burn out faster than an interceptor's
+const CHAIN_BLAST_FADE = 1.8;
+
+// Every this many bonus points earned between waves rebuilds one destroyed city.
+export const CITY_REBUILD_POINTS = 750;
+
+export function createGameState(
+  seed: number,
+  campaign: Campaign = DEFAULT_CAMPAIGN,
+  mode: GameMode = 'solo',
+  modifier: Modifier | null = null,
+  rules: RuleSet = 'classic',
+): GameState {
+  const base = campaign.layout
+    ? buildBase(campaign.layout, mode)
+    : { turrets: mode === 'coop' ? COOP_TURRETS : INITIAL_TURRETS, cities: INITIAL_CITIES };
+  const setup = applyModifier({ ...base, campaign }, modifier);
+  const state: GameState = {
+    score: 0,
+    credits: 0,
+    level: 1,
+    status: GameStatus.PLAYING,
+    enemies: [],
+    interceptors: [],
+    explosions: [],
+    cities: structuredClone(setup.cities),
+    turrets: structuredClone(setup.turrets),
+    campaign: setup.campaign,
+    mode,
+    modifier,
+    rules,
+    players: Array.from({ length: playerCount(mode) }, emptyPlayerStats),
+    attackReadyAt: 0,
+    wave: { index: 0, schedule: [] },
+    tally: null,
+    rebuildProgress: 0,
+    scoreBreakdown: emptyBreakdown(),
+    shotKills: {},
+    streak: { count: 0, lastKillAt: 0 },
+    tick: 0,
+    time: 0,
+    rngState: seed >>> 0,
+    nextId: 1,
+  };
+  startWave(state, 0, []);
+  return state;
+}
+
+/** Repairs destroyed turrets, hands out the wave's ammo and schedules its enemies. */
+function startWave(state: GameState, index: number, events: GameEvent[]) {
+  const wave = waveAt(state.campaign, index);
+  state.wave = { index, schedule: buildSchedule(wave, state.time, () => random(state)) };
+  state.level = index + 1;
+  state.tally = null;
+  state.turrets.forEach(t => {
+    if (!t.active) {
+      t.active = true;
+      t.ammo = 0;
+      events.push({ type: 'turretRepaired', turret: t });
+    }
+    t.ammo = wave.ammo === 'full' ? t.maxAmmo : Math.min(t.maxAmmo, t.ammo + wave.ammo);
+  });
+  events.push({ type: 'waveStarted', level: state.level });
+}
+
+/**
+ * Awards the cleared wave's bonus and rebuilds cities from it, then either
+ * ends the campaign or waits between waves until a `continue` input arrives.
+ * Endless rules never run out of waves.
+ */
+function clearWave(state: GameState, events: GameEvent[]) {
+  const { bonus } = currentWave(state);
+  const interceptorsLeft = state.turrets.reduce((sum, t) => sum + (t.active ? t.ammo : 0), 0);
+  const citiesLeft = state.cities.filter(c => c.active).length;
+  const points = interceptorsLeft * bonus.perInterceptor + citiesLeft * bonus.perCity;
+  // Each defender banks their own turrets' leftover ammo and an even share of the cities
+  const players = defenders(state.mode);
+  const cityShare = Math.floor((citiesLeft * bonus.perCity) / players.length);
+  players.forEach((player, k) => {
+    const ammo = state.turrets.reduce((sum, t) => sum + (t.active && t.owner === player ? t.ammo : 0), 0);
+    const remainder = k === 0 ? citiesLeft * bonus.perCity - cityShare * players.length : 0;
+    award(state, ammo * bonus.perInterceptor + cityShare + remainder, 'bonus', events, undefined, player);
+  });
+  state.rebuildProgress += points;
+
+  const destroyed = state.cities.filter(c => !c.active);
+  const citiesRebuilt: string[] = [];
+  while (state.rebuildProgress >= CITY_REBUILD_POINTS && destroyed.length > 0) {
+    const [city] = destroyed.splice(Math.floor(random(state) * destroyed.length), 1);
+    city.active = true;
+    state.rebuildProgress -= CITY_REBUILD_POINTS;
+    citiesRebuilt.push(city.id);
+    events.push({ type: 'cityRebuilt', city });
+  }
+
+  const tally: WaveTally = {
+    level: state.level,
+    interceptorsLeft,
+    perInterceptor: bonus.perInterceptor,
+    citiesLeft,
+    perCity: bonus.perCity,
+    bonus: points,
+    citiesRebuilt,
+  };
+  state.tally = tally;
+  state.interceptors = [];
+  state.explosions = [];
+  state.shotKills = {};
+  events.push({ type: 'waveCleared', tally });
+
+  const last = !RULES[state.rules].endless && state.wave.index + 1 >= state.campaign.waves.length;
+  setStatus(state, last ? GameStatus.WON : GameStatus.NEXT_ROUND, events);
+}
+
+/** Pays the rule set's survival points for another simulated second, taking turns between defenders. */
+function surviveSecond(state: GameState, events: GameEvent[]) {
+  const points = RULES[state.rules].survivalPoints * difficultyTier(state);
+  const players = defenders(state.mode);
+  award(state, points, 'survival', events, undefined, players[Math.floor(state.time / 1000) % players.length]);
+}
+
+/** Picks the active turret with ammo owned by `player` that is horizontally closest to `x`. */
+export function nearestTurret(turrets: Turret[], x: number, player = 0): Turret | null {
+  let best: Turret | null = null;
+  let minDist = Infinity;
+  turrets.forEach(t => {
+    if (t.active && t.ammo > 0 && t.owner === player) {
+      const dist = Math.abs(t.x - x);
+      if (dist < minDist) {
+        minDist = dist;
+        best = t;
+      }
+    }
+  });
+  return best;
+}
+
+function fire(state: GameState, x: number, y: number, turretId: string | undefined, player: number, events: GameEvent[]) {
+  // A chosen turret that cannot fire does not hand the shot to another one
+  const turret =
+    turretId === undefined
+      ? nearestTurret(state.turrets, x, player)
+      : state.turrets.find(t => t.id === turretId && t.active && t.ammo > 0 && t.owner === player);
+  if (!turret) return;
+
+  turret.ammo -= 1;
+  state.players[player].shots += 1;
+  const offsets = turret.upgrades.flak
+    ? Array.from({ length: FLAK_SHELLS }, (_, n) => (n - (FLAK_SHELLS - 1) / 2) * FLAK_SPREAD)
+    : [0];
+  const ids = offsets.map(() => nextId(state, 'i'));
+  const interceptors = offsets.map(
+    (dx, n): Interceptor => ({
+      id: ids[n],
+      x: turret.x,
+      y: turret.y,
+      startX: turret.x,
+      startY: turret.y,
+      targetX: x + dx,
+      targetY: y,
+      speed: interceptorSpeed(turret),
+      progress: 0,
+      blastRadius: blastRadius(turret),
+      blastFade: blastFade(turret),
+      shot: ids[0],
+      owner: player,
+    }),
+  );
+  state.interceptors.push(...interceptors);
+  events.push({ type: 'interceptorLaunched', interceptors, turretId: turret.id });
+}
+
+function buyUpgrade(state: GameState, turretId: string, upgrade: UpgradeKind, events: GameEvent[]) {
+  const turret = state.turrets.find(t => t.id === turretId);
+  if (!turret) return;
+  const cost = nextUpgradeCost(turret, upgrade);
+  if (cost === null || cost > state.credits) return;
+
+  state.credits -= cost;
+  turret.upgrades[upgrade] += 1;
+  if (upgrade === 'capacity') {
+    turret.maxAmmo += CAPACITY_PER_LEVEL;
+    turret.ammo += CAPACITY_PER_LEVEL;
+  }
+  events.push({ type: 'upgradePurchased', turret, upgrade, level: turret.upgrades[upgrade], cost });
+}
+
+/** Freezes a running wave. Pausing is not a game input, so replays never see it. */
+export function pause(state: GameState): GameEvent[] {
+  const events: GameEvent[] = [];
+  if (state.status === GameStatus.PLAYING) setStatus(state, GameStatus.PAUSED, events);
+  return events;
+}
+
+export function resume(state: GameState): GameEvent[] {
+  const events: GameEvent[] = [];
+  if (state.status === GameStatus.PAUSED) setStatus(state, GameStatus.PLAYING, events);
+  return events;
+}
+
+/**
+ * Advances the simulation by one fixed step of `dt` milliseconds, applying
+ * `inputs` first. Mutates `state` in place and returns what happened during
+ * the step. Between waves the clock stands still unless `inputs` holds a
+ * `continue`. Given the same seed and the same inputs on the same ticks, the
+ * outcome is always identical.
+ */
+export function step(state: GameState, inputs: GameInput[], dt: number = TICK_MS): GameEvent[] {
+  const events: GameEvent[] = [];
+
+  // Between waves nothing moves until the player continues; the shop is open meanwhile
+  if (state.status === GameStatus.NEXT_ROUND) {
+    inputs.forEach(input => {
+      if (input.type === 'buyUpgrade') buyUpgrade(state, input.turretId, input.upgrade, events);
+    });
+    if (!inputs.some(i => i.type === 'continue')) return events;
+    startWave(state, state.wave.index + 1, events);
+    setStatus(state, GameStatus.PLAYING, events);
+  }
+  if (state.status !== GameStatus.PLAYING) return events;
+
+  const seconds = dt / 1000;
+  state.tick += 1;
+  state.time += dt;
+  if (Math.floor(state.time / 1000) > Math.floor((state.time - dt) / 1000)) surviveSecond(state, events);
+
+  // Spawn whatever the wave schedule says is due
+  const schedule = state.wave.schedule;
+  while (schedule.length > 0 && spawnDue(state, schedule[0])) {
+    const { type, aim } = schedule.shift()!;
+    // A scripted target that is already gone gives way to one picked by the wave's weights
+    const target = aim && [...state.cities, ...state.turrets].find(s => s.id === aim.target && s.active);
+    spawnEnemy(state, type, events, aim && { x: aim.x, target, speed: aim.speed });
+  }
+
+  inputs.forEach(input => {
+    if (input.type === 'fire') fire(state, input.x, input.y, input.turretId, input.player ?? 0, events);
+    else if (input.type === 'launch') launch(state, input.x, input.targetId, events);
+  });
+
+  const impactsFrom = events.length;
+  updateEnemies(state, seconds, events);
+  creditAttacker(state, events.slice(impactsFrom));
+
+  // Update interceptors
+  state.interceptors = state.interceptors.filter(i => {
+    i.progress = Math.min(1, i.progress + i.speed * seconds);
+    i.x = i.startX + (i.targetX - i.startX) * i.progress;
+    i.y = i.startY + (i.targetY - i.startY) * i.progress;
+
+    if (i.progress >= 1) {
+      const explosion: Explosion = {
+        id: nextId(state, 'e'),
+        x: i.targetX,
+        y: i.targetY,
+        radius: 0,
+        maxRadius: i.blastRadius,
+        expanding: true,
+        life: 1,
+        fade: i.blastFade,
+        shot: i.shot,
+        chain: 0,
+        owner: i.owner,
+      };
+      state.explosions.push(explosion);
+      events.push({ type: 'explosion', explosion });
+      return false;
+    }
+    return true;
+  });
+
+  // Update explosions; destroyed warheads go off too and can set off more
+  const secondary: Explosion[] = [];
+  state.explosions = state.explosions.filter(e => {
+    if (e.expanding) {
+      e.radius += EXPLOSION_GROWTH * seconds;
+      if (e.radius >= e.maxRadius) e.expanding = false;
+    } else {
+      e.life -= e.fade * seconds;
+      e.radius = Math.max(0, e.radius - e.maxRadius * EXPLOSION_SHRINK * e.fade * seconds);
+    }
+
+    // Check collisions with enemies
+    state.enemies = state.enemies.filter(enemy => {
+      const dist = Math.sqrt((enemy.x - e.x) ** 2 + (enemy.y - e.y) ** 2);
+      if (dist < e.radius) {
+        const base = ENEMY_POINTS[enemy.type];
+        const chain = e.chain > 0;
+        const multiplier = registerKill(state, e.shot);
+        award(state, base, chain ? 'chain' : 'direct', events, enemy, e.owner);
+        award(state, base * (multiplier - 1), 'combo', events, enemy, e.owner);
+        state.players[e.owner].kills += 1;
+        events.push({ type: 'enemyDestroyed', enemy, points: base * multiplier, multiplier, chain, shot: e.shot });
+        secondary.push({
+          id: nextId(state, 'e'),
+          x: enemy.x,
+          y: enemy.y,
+          radius: 0,
+          maxRadius: CHAIN_BLAST_RADIUS[enemy.type],
+          expanding: true,
+          life: 1,
+          fade: CHAIN_BLAST_FADE,
+          shot: e.shot,
+          chain: e.chain + 1,
+          owner: e.owner,
+        });
+        return false;
+      }
+      return true;
+    });
+
+    return e.life > 0;
+  });
+  secondary.forEach(explosion => events.push({ type: 'explosion', explosion }));
+  state.explosions.push(...secondary);
+
+  // Forget shots that have nothing left in the air
+  Object.keys(state.shotKills).forEach(shot => {
+    if (!state.explosions.some(e => e.shot === shot) && !state.interceptors.some(i => i.shot === shot)) {
+      delete state.shotKills[shot];
+    }
+  });
+
+  // The wave is over once everything scheduled has spawned and been dealt with
+  if (state.status === GameStatus.PLAYING && state.wave.schedule.length === 0 && state.enemies.length === 0) {
+    clearWave(state, events);
+  }
+
+  // A timed run that outlasts its clock is won, whatever wave it is in
+  const { timeLimit } = RULES[state.rules];
+  if (state.status === GameStatus.PLAYING && timeLimit !== null && state.time >= timeLimit) {
+    setStatus(state, GameStatus.WON, events);
+  }
+
+  return events;
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState } from '../types';
+
+/** Called with everything one step produced and the state right after it. */
+export type GameEventListener = (events: GameEvent[], state: GameState) => void;
+
+export interface GameEventBus {
+  /** Returns a function that removes the listener again. */
+  subscribe(listener: GameEventListener): () => void;
+  emit(events: GameEvent[], state: GameState): void;
+}
+
+export function createEventBus(): GameEventBus {
+  const listeners = new Set<GameEventListener>();
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    emit(events, state) {
+      if (events.length === 0) return;
+      listeners.forEach(listener => listener(events, state));
+    },
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { BaseLayout, Campaign, City, GameMode, Level, LevelWave, ScriptedSpawn, Turret, WaveDefinition } from '../types';
+import { CITY_Y, COOP_TURRETS, GROUND_Y, INITIAL_CITIES, INITIAL_TURRETS, WORLD_WIDTH } from './constants';
+import { ENEMY_TYPES } from './enemies';
+import { isOneOf, isRecord } from '../validation';
+
+export const LEVEL_VERSION = 1;
+
+const DRAFT_KEY = 'starry-defense:level-draft';
+
+// Structures stay this far from the sides of the field
+export const EDGE_MARGIN = 20;
+// Any closer and one warhead could take out two structures
+export const MIN_SPACING = 24;
+export const MAX_CITIES = 12;
+export const MAX_TURRETS = 6;
+export const MAX_TURRET_AMMO = 99;
+export const MAX_WAVES = 30;
+export const MAX_SPAWNS = 200; // per wave
+export const MAX_SPAWN_TIME = 5 * 60 * 1000;
+export const SPEED_RANGE = { min: 0.01, max: 0.5 };
+const MAX_NAME_LENGTH = 60;
+
+// Scripted waves score like the classic campaign; the weights pick targets for MIRV fragments
+// and for warheads whose scripted target is already gone
+const BONUS = { perInterceptor: 5, perCity: 100 };
+const TARGET_WEIGHTS = { cities: 1, turrets: 1 };
+// Floor for the pattern that stands in for a script when endless rules run past the last wave
+const MIN_FALLBACK_INTERVAL = 500;
+
+export const STANDARD_LAYOUT: BaseLayout = {
+  cities: INITIAL_CITIES.map(({ id, x }) => ({ id, x })),
+  turrets: INITIAL_TURRETS.map(({ id, x, ammo }) => ({ id, x, ammo })),
+};
+
+// Scripts in campaigns without a layout may aim at anything the standard bases have
+const STANDARD_IDS = [...INITIAL_CITIES, ...INITIAL_TURRETS, ...COOP_TURRETS].map(s => s.id);
+
+/** The cities and turrets `layout` describes. In co-op the left half of the turrets is player 1's and the rest player 2's. */
+export function buildBase(layout: BaseLayout, mode: GameMode): { cities: City[]; turrets: Turret[] } {
+  const byX = [...layout.turrets].sort((a, b) => a.x - b.x);
+  return {
+    cities: layout.cities.map(({ id, x }) => ({ id, x, y: CITY_Y, active: true })),
+    turrets: layout.turrets.map(t => ({
+      id: t.id,
+      x: t.x,
+      y: GROUND_Y,
+      ammo: t.ammo,
+      maxAmmo: t.ammo,
+      active: true,
+      upgrades: { speed: 0, blast: 0, capacity: 0, flak: 0 },
+      owner: mode === 'coop' && byX.indexOf(t) >= Math.ceil(byX.length / 2) ? 1 : 0,
+    })),
+  };
+}
+
+/** The first id with `prefix` that `layout` does not use yet. */
+export function unusedId(layout: BaseLayout, prefix: 'c' | 't'): string {
+  const used = new Set([...layout.cities, ...layout.turrets].map(s => s.id));
+  let n = 1;
+  while (used.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+/** A short wave of rockets, one at each city in turn, for a new level or a new wave to start from. */
+export function createWave(layout: BaseLayout): LevelWave {
+  return {
+    ammo: 'full',
+    spawns: layout.cities.map((city, n) => ({
+      at: 1500 + n * 1500,
+      type: 'rocket',
+      x: Math.round(((n + 0.5) / layout.cities.length) * WORLD_WIDTH),
+      target: city.id,
+      speed: 0.05,
+    })),
+  };
+}
+
+/** The standard base with one short wave. */
+export function createLevel(): Level {
+  const layout = structuredClone(STANDARD_LAYOUT);
+  return { version: LEVEL_VERSION, name: 'Custom level', layout, waves: [createWave(layout)] };
+}
+
+function inRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Checks untrusted JSON against the layout schema, adding every problem found to `issues`.
+ * Returns the ids scripts may aim at, or null when the layout is too broken to tell.
+ */
+export function validateLayout(data: unknown, path: string, issues: string[]): string[] | null {
+  if (!isRecord(data)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const { cities, turrets } = data;
+  const minX = EDGE_MARGIN;
+  const maxX = WORLD_WIDTH - EDGE_MARGIN;
+  const structures: { id: string; x: number }[] = [];
+  const ids = new Set<string>();
+  const checkStructure = (structure: unknown, at: string) => {
+    const { id, x }: Record<string, unknown> = isRecord(structure) ? structure : {};
+    if (typeof id !== 'string' || !/^[\w-]{1,16}$/.test(id)) {
+      issues.push(`${at}.id must be 1 to 16 letters, digits, - or _`);
+    } else if (ids.has(id)) {
+      issues.push(`${at}.id "${id}" is already used by another city or turret`);
+    } else {
+      ids.add(id);
+    }
+    if (!inRange(x, minX, maxX)) {
+      issues.push(`${at}.x must be a number from ${minX} to ${maxX}, got ${JSON.stringify(x)}`);
+    } else if (typeof id === 'string') {
+      structures.push({ id, x });
+    }
+  };
+
+  const citiesValid = Array.isArray(cities) && cities.length >= 1 && cities.length <= MAX_CITIES;
+  if (!citiesValid) {
+    issues.push(`${path}.cities must be an array of 1 to ${MAX_CITIES} cities`);
+  } else {
+    cities.forEach((c: unknown, i) => checkStructure(c, `${path}.cities[${i}]`));
+  }
+  const turretsValid = Array.isArray(turrets) && turrets.length >= 1 && turrets.length <= MAX_TURRETS;
+  if (!turretsValid) {
+    issues.push(`${path}.turrets must be an array of 1 to ${MAX_TURRETS} turrets`);
+  } else {
+    turrets.forEach((t: unknown, i) => {
+      checkStructure(t, `${path}.turrets[${i}]`);
+      const ammo = isRecord(t) ? t.ammo : undefined;
+      if (!inRange(ammo, 1, MAX_TURRET_AMMO) || !Number.isInteger(ammo)) {
+        issues.push(`${path}.turrets[${i}].ammo must be a whole number from 1 to ${MAX_TURRET_AMMO}, got ${JSON.stringify(ammo)}`);
+      }
+    });
+  }
+
+  structures.sort((a, b) => a.x - b.x);
+  structures.slice(1).forEach((s, i) => {
+    const gap = s.x - structures[i].x;
+    if (gap < MIN_SPACING) issues.push(`${path}: ${structures[i].id} and ${s.id} are ${Math.round(gap)} apart; keep them at least ${MIN_SPACING} apart`);
+  });
+  return citiesValid && turretsValid ? [...ids] : null;
+}
+
+/** Ids a script may aim at: the structures in a valid `layout`, or in the standard bases without one. */
+export function targetIds(layout: BaseLayout | undefined): string[] {
+  return layout ? [...layout.cities, ...layout.turrets].map(s => s.id) : STANDARD_IDS;
+}
+
+/** Checks untrusted JSON against the scripted spawn schema; targets must be among `ids`, unless the layout was too broken to tell. */
+export function validateScript(data: unknown, ids: string[] | null, path: string, issues: string[]) {
+  if (!Array.isArray(data) || data.length < 1 || data.length > MAX_SPAWNS) {
+    issues.push(`${path} must be an array of 1 to ${MAX_SPAWNS} spawns`);
+    return;
+  }
+  data.forEach((s: unknown, i) => {
+    const at = `${path}[${i}]`;
+    if (!isRecord(s)) {
+      issues.push(`${at} must be an object`);
+      return;
+    }
+    if (!inRange(s.at, 0, MAX_SPAWN_TIME)) issues.push(`${at}.at must be from 0 to ${MAX_SPAWN_TIME} ms, got ${JSON.stringify(s.at)}`);
+    if (!isOneOf(s.type, ENEMY_TYPES)) issues.push(`${at}.type must be one of ${ENEMY_TYPES.join(', ')}`);
+    if (!inRange(s.x, 0, WORLD_WIDTH)) issues.push(`${at}.x must be from 0 to ${WORLD_WIDTH}, got ${JSON.stringify(s.x)}`);
+    if (ids && !isOneOf(s.target, ids)) issues.push(`${at}.target must be one of ${ids.join(', ')}, got ${JSON.stringify(s.target)}`);
+    if (!inRange(s.speed, SPEED_RANGE.min, SPEED_RANGE.max)) {
+      issues.push(`${at}.speed must be from ${SPEED_RANGE.min} to ${SPEED_RANGE.max}, got ${JSON.stringify(s.speed)}`);
+    }
+  });
+}
+
+/** Every problem with untrusted level data, or none for a level that can be played. */
+export function levelIssues(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isRecord(data)) return ['expected an object'];
+  const { version, name, layout, waves } = data;
+  if (version !== LEVEL_VERSION) issues.push(`version must be ${LEVEL_VERSION}, got ${JSON.stringify(version)}`);
+  if (typeof name !== 'string' || name.length > MAX_NAME_LENGTH) {
+    issues.push(`name must be a string of at most ${MAX_NAME_LENGTH} characters`);
+  }
+  const ids = validateLayout(layout, 'layout', issues);
+  if (!Array.isArray(waves) || waves.length < 1 || waves.length > MAX_WAVES) {
+    issues.push(`waves must be an array of 1 to ${MAX_WAVES} waves`);
+  } else {
+    waves.forEach((wave: unknown, i) => {
+      if (!isRecord(wave)) {
+        issues.push(`waves[${i}] must be an object`);
+        return;
+      }
+      if (wave.ammo !== 'full' && !(inRange(wave.ammo, 0, MAX_TURRET_AMMO) && Number.isInteger(wave.ammo))) {
+        issues.push(`waves[${i}].ammo must be "full" or a whole number from 0 to ${MAX_TURRET_AMMO}`);
+      }
+      validateScript(wave.spawns, ids, `waves[${i}].spawns`, issues);
+    });
+  }
+  return issues;
+}
+
+/** Reads a level file, listing every problem found if it cannot be played. */
+export function parseLevel(text: string): Level {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid level file: not JSON');
+  }
+  const issues = levelIssues(data);
+  if (issues.length > 0) throw new Error(`Invalid level file:\n- ${issues.join('\n- ')}`);
+  return data as Level;
+}
+
+export function serializeLevel(level: Level): string {
+  return JSON.stringify(level, null, 2);
+}
+
+/** The campaign a valid level plays as. */
+export function levelToCampaign(level: Level): Campaign {
+  const waves = level.waves.map((wave): WaveDefinition => {
+    const script: ScriptedSpawn[] = [...wave.spawns].sort((a, b) => a.at - b.at);
+    const speeds = script.map(s => s.speed);
+    return {
+      enemies: ENEMY_TYPES.map(type => ({ type, count: script.filter(s => s.type === type).length })).filter(e => e.count > 0),
+      pattern: { kind: 'steady', interval: Math.max(MIN_FALLBACK_INTERVAL, script[script.length - 1].at / script.length) },
+      script,
+      startDelay: 0,
+      speed: { min: Math.min(...speeds), max: Math.max(...speeds) },
+      targets: TARGET_WEIGHTS,
+      ammo: wave.ammo,
+      bonus: BONUS,
+    };
+  });
+  return { id: 'custom', name: level.name, layout: level.layout, waves };
+}
+
+/** The level last open in the editor. Drafts may have problems left to fix, but must have a level's shape. */
+export function loadLevelDraft(): Level {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DRAFT_KEY) ?? 'null');
+    if (
+      saved?.version === LEVEL_VERSION &&
+      typeof saved.name === 'string' &&
+      Array.isArray(saved.layout?.cities) &&
+      Array.isArray(saved.layout?.turrets) &&
+      Array.isArray(saved.waves) &&
+      saved.waves.length > 0 &&
+      saved.waves.every((w: LevelWave) => Array.isArray(w?.spawns))
+    ) {
+      return saved;
+    }
+  } catch {
+    // Corrupt value: start from a new level
+  }
+  return createLevel();
+}
+
+export function saveLevelDraft(level: Level) {
+  localStorage.setItem(DRAFT_KEY, JSON.stringify(level));
+}
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TICK_MS } from './constants';
+
+// Longest wall-clock gap simulated in one frame, so a stalled tab does not fast-forward the game.
+export const MAX_FRAME_MS = 250;
+
+/** Wall-clock ms from the frame at `last` to the one at `now`, clamped to MAX_FRAME_MS; 0 for the first frame. */
+export function frameElapsed(last: number | null, now: number): number {
+  return last === null ? 0 : Math.min(now - last, MAX_FRAME_MS);
+}
+
+/**
+ * Adds `elapsed` ms to `accumulator` and calls `advance` once per whole tick
+ * it covers, for as long as `running()` holds. Returns the time left over,
+ * which carries into the next frame, so the simulation steps at TICK_MS
+ * whatever the display's refresh rate.
+ */
+export function drainSteps(accumulator: number, elapsed: number, running: () => boolean, advance: () => void): number {
+  let left = accumulator + elapsed;
+  while (left >= TICK_MS && running()) {
+    advance();
+    left -= TICK_MS;
+  }
+  return left;
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Campaign, City, Modifier, Turret } from '../types';
+import { WORLD_WIDTH } from './constants';
+
+export const MODIFIERS: Modifier[] = ['halfAmmo', 'fastRockets', 'noCenterTurret', 'ruinedCities'];
+
+const FAST_ROCKET_SPEED = 1.5;
+// Turrets this close to the middle of the field count as the center battery
+const CENTER_BAND = 50;
+const RUINED_CITIES = ['c3', 'c4'];
+
+/** What a game starts from before its first wave. */
+export interface Setup {
+  turrets: Turret[];
+  cities: City[];
+  campaign: Campaign;
+}
+
+/** Returns `setup` changed by `modifier`; the input is never mutated. */
+export function applyModifier(setup: Setup, modifier: Modifier | null): Setup {
+  switch (modifier) {
+    case 'halfAmmo':
+      return {
+        ...setup,
+        turrets: setup.turrets.map(t => ({ ...t, ammo: Math.ceil(t.ammo / 2), maxAmmo: Math.ceil(t.maxAmmo / 2) })),
+        campaign: {
+          ...setup.campaign,
+          waves: setup.campaign.waves.map(w => (w.ammo === 'full' ? w : { ...w, ammo: Math.ceil(w.ammo / 2) })),
+        },
+      };
+    case 'fastRockets':
+      return {
+        ...setup,
+        campaign: {
+          ...setup.campaign,
+          waves: setup.campaign.waves.map(w => ({
+            ...w,
+            speed: { min: w.speed.min * FAST_ROCKET_SPEED, max: w.speed.max * FAST_ROCKET_SPEED },
+            script: w.script?.map(s => ({ ...s, speed: s.speed * FAST_ROCKET_SPEED })),
+          })),
+        },
+      };
+    case 'noCenterTurret':
+      return { ...setup, turrets: setup.turrets.filter(t => Math.abs(t.x - WORLD_WIDTH / 2) > CENTER_BAND) };
+    case 'ruinedCities':
+      return { ...setup, cities: setup.cities.map(c => (RUINED_CITIES.includes(c.id) ? { ...c, active: false } : c)) };
+    default:
+      return setup;
+  }
+}
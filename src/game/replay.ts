@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Campaign, GameEvent, GameInput, GameMode, GameState, GameStatus, Modifier, RuleSet } from '../types';
+import { createGameState, step } from './engine';
+import { MODIFIERS } from './modifiers';
+import { RULE_SETS } from './rules';
+import { UPGRADE_KINDS } from './upgrades';
+import { DEFAULT_CAMPAIGN, parseCampaign } from './waves';
+
+export const REPLAY_VERSION = 1;
+
+// Snapshots kept while playing back, so scrubbing backwards does not re-simulate from tick 0.
+const CHECKPOINT_INTERVAL = 300;
+
+/** Each entry is the tick an input was applied on, followed by the input itself. */
+export type ReplayInput = [number, GameInput];
+
+export interface Replay {
+  version: number;
+  seed: number;
+  campaign: Campaign;
+  mode: GameMode; // files from before multiplayer have none and are solo
+  modifier: Modifier | null; // daily challenge runs only; `campaign` is stored before it applies
+  rules: RuleSet; // files from before rule sets have none and are classic
+  recordedAt: number; // unix ms
+  inputs: ReplayInput[];
+  finalTick: number;
+  finalScore: number;
+}
+
+const MODES: GameMode[] = ['solo', 'coop', 'versus'];
+
+export function createReplay(
+  seed: number,
+  campaign: Campaign = DEFAULT_CAMPAIGN,
+  mode: GameMode = 'solo',
+  modifier: Modifier | null = null,
+  rules: RuleSet = 'classic',
+): Replay {
+  return { version: REPLAY_VERSION, seed, campaign, mode, modifier, rules, recordedAt: Date.now(), inputs: [], finalTick: 0, finalScore: 0 };
+}
+
+/**
+ * Records `inputs` under `tick`, the tick the step applying them moves to.
+ * Steps between waves do not advance the clock, so several may share a tick;
+ * their inputs are replayed together, in order.
+ */
+export function recordInputs(replay: Replay, tick: number, inputs: GameInput[]) {
+  inputs.forEach(input => replay.inputs.push([tick, input]));
+}
+
+/**
+ * The latest tick a recording of `state` so far may hold inputs for. Between
+ * waves, purchases are already recorded under the tick the coming `continue`
+ * moves to, and are replayed together with it.
+ */
+export function lastInputTick(state: GameState): number {
+  return state.status === GameStatus.NEXT_ROUND ? state.tick + 1 : state.tick;
+}
+
+export function finishReplay(replay: Replay, state: GameState) {
+  replay.finalTick = state.tick;
+  replay.finalScore = state.score;
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/** Whether untrusted data is a well-formed game input. */
+export function isInput(value: unknown): value is GameInput {
+  const input = value as GameInput;
+  if (typeof input !== 'object' || input === null) return false;
+  switch (input.type) {
+    case 'fire':
+      return (
+        Number.isFinite(input.x) &&
+        Number.isFinite(input.y) &&
+        (input.turretId === undefined || typeof input.turretId === 'string') &&
+        (input.player === undefined || input.player === 0 || input.player === 1)
+      );
+    case 'launch':
+      return Number.isFinite(input.x) && typeof input.targetId === 'string';
+    case 'continue':
+      return true;
+    case 'buyUpgrade':
+      return typeof input.turretId === 'string' && UPGRADE_KINDS.includes(input.upgrade);
+    default:
+      return false;
+  }
+}
+
+export function parseReplay(text: string): Replay {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid replay file: not JSON');
+  }
+  if (typeof data !== 'object' || data === null) throw new Error('Invalid replay file: expected an object');
+  if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${data.version}`);
+  if (!Number.isInteger(data.seed)) throw new Error('Invalid replay file: missing seed');
+  if (!Number.isInteger(data.finalTick) || data.finalTick! <= 0) throw new Error('Invalid replay file: missing length');
+  if (data.mode !== undefined && !MODES.includes(data.mode)) throw new Error(`Invalid replay file: unknown mode ${data.mode}`);
+  if (data.modifier != null && !MODIFIERS.includes(data.modifier)) {
+    throw new Error(`Invalid replay file: unknown modifier ${data.modifier}`);
+  }
+  if (data.rules !== undefined && !RULE_SETS.includes(data.rules)) throw new Error(`Invalid replay file: unknown rules ${data.rules}`);
+  if (
+    !Array.isArray(data.inputs) ||
+    !data.inputs.every(e => Array.isArray(e) && Number.isInteger(e[0]) && isInput(e[1]))
+  ) {
+    throw new Error('Invalid replay file: malformed inputs');
+  }
+  return {
+    version: data.version,
+    seed: data.seed!,
+    campaign: data.campaign === undefined ? DEFAULT_CAMPAIGN : parseCampaign(data.campaign),
+    mode: data.mode ?? 'solo',
+    modifier: data.modifier ?? null,
+    rules: data.rules ?? 'classic',
+    recordedAt: Number(data.recordedAt) || 0,
+    inputs: data.inputs,
+    finalTick: data.finalTick!,
+    finalScore: Number(data.finalScore) || 0,
+  };
+}
+
+export interface ReplayPlayer {
+  readonly replay: Replay;
+  /** Current simulated state. Replaced (not mutated) when seeking backwards. */
+  state: GameState;
+  finished(): boolean;
+  /** Simulates one more tick and returns what happened in it. */
+  advance(): GameEvent[];
+  seek(tick: number): void;
+}
+
+export function createReplayPlayer(replay: Replay): ReplayPlayer {
+  const inputsByTick = new Map<number, GameInput[]>();
+  replay.inputs.forEach(([tick, input]) => {
+    inputsByTick.set(tick, [...(inputsByTick.get(tick) ?? []), input]);
+  });
+  const checkpoints = new Map<number, GameState>([[0, createGameState(replay.seed, replay.campaign, replay.mode, replay.modifier, replay.rules)]]);
+
+  const player: ReplayPlayer = {
+    replay,
+    state: structuredClone(checkpoints.get(0)!),
+    finished() {
+      const { status, tick } = player.state;
+      return tick >= replay.finalTick || status === GameStatus.WON || status === GameStatus.LOST;
+    },
+    advance() {
+      if (player.finished()) return [];
+      const events = step(player.state, inputsByTick.get(player.state.tick + 1) ?? []);
+      if (player.state.tick % CHECKPOINT_INTERVAL === 0 && !checkpoints.has(player.state.tick)) {
+        checkpoints.set(player.state.tick, structuredClone(player.state));
+      }
+      return events;
+    },
+    seek(tick) {
+      const target = Math.max(0, Math.min(replay.finalTick, Math.round(tick)));
+      if (target < player.state.tick) {
+        const from = Math.floor(target / CHECKPOINT_INTERVAL) * CHECKPOINT_INTERVAL;
+        const base = [...checkpoints.keys()].filter(k => k <= from).reduce((a, b) => Math.max(a, b), 0);
+        player.state = structuredClone(checkpoints.get(base)!);
+      }
+      while (player.state.tick < target && !player.finished()) {
+        const before = player.state.tick;
+        player.advance();
+        // Stuck between waves: the recording ends before the player continued
+        if (player.state.tick === before) break;
+      }
+    },
+  };
+  return player;
+}
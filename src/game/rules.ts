@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Campaign, GameState, RuleSet, WaveDefinition } from '../types';
+
+export const RULE_SETS: RuleSet[] = ['classic', 'endless', 'timeAttack'];
+
+const RULES_KEY = 'starry-defense:rules';
+const BEST_SCORES_KEY = 'starry-defense:best-scores';
+
+export interface RuleConfig {
+  endless: boolean; // waves keep coming past the campaign's last one instead of the run being won
+  timeLimit: number | null; // simulated ms; the run is over, and counts as won, once it runs out
+  survivalPoints: number; // awarded every simulated second, times the difficulty tier
+}
+
+export const RULES: Record<RuleSet, RuleConfig> = {
+  classic: { endless: false, timeLimit: null, survivalPoints: 0 },
+  endless: { endless: true, timeLimit: null, survivalPoints: 2 },
+  timeAttack: { endless: true, timeLimit: 3 * 60 * 1000, survivalPoints: 0 },
+};
+
+// Past the campaign's end, each further wave grows by these shares of its last wave
+const ENDLESS_COUNT_GROWTH = 0.2;
+const ENDLESS_SPEED_GROWTH = 0.08;
+const ENDLESS_INTERVAL_SHRINK = 0.05;
+// Spawns never come closer together than this share of the last wave's interval
+const ENDLESS_MIN_INTERVAL = 0.4;
+
+/**
+ * The wave at `index`. Past the end of the campaign it is the last wave with
+ * more, faster and denser enemies for every step beyond it, without limit.
+ */
+export function waveAt(campaign: Campaign, index: number): WaveDefinition {
+  const last = campaign.waves.length - 1;
+  if (index <= last) return campaign.waves[index];
+  const base = campaign.waves[last];
+  const steps = index - last;
+  const speed = 1 + ENDLESS_SPEED_GROWTH * steps;
+  const interval = Math.max(ENDLESS_MIN_INTERVAL, 1 - ENDLESS_INTERVAL_SHRINK * steps);
+  return {
+    ...base,
+    name: undefined,
+    script: undefined, // generated waves follow the pattern, which grows with them
+    enemies: base.enemies.map(e => ({ ...e, count: Math.round(e.count * (1 + ENDLESS_COUNT_GROWTH * steps)) })),
+    pattern: { ...base.pattern, interval: base.pattern.interval * interval },
+    speed: { min: base.speed.min * speed, max: base.speed.max * speed },
+  };
+}
+
+/** 1 through the campaign's last wave, then one more for every wave past it. */
+export function difficultyTier(state: GameState): number {
+  return 1 + Math.max(0, state.wave.index - (state.campaign.waves.length - 1));
+}
+
+/** Simulated ms left before a timed run ends, or null without a time limit. */
+export function timeLeft(state: GameState): number | null {
+  const { timeLimit } = RULES[state.rules];
+  return timeLimit === null ? null : Math.max(0, timeLimit - state.time);
+}
+
+export function loadRuleSet(): RuleSet {
+  const saved = localStorage.getItem(RULES_KEY) as RuleSet | null;
+  return saved && RULE_SETS.includes(saved) ? saved : 'classic';
+}
+
+export function saveRuleSet(rules: RuleSet) {
+  localStorage.setItem(RULES_KEY, rules);
+}
+
+/** Best score on this device under each rule set; scores from different rules are not comparable. */
+export function loadBestScores(): Record<RuleSet, number> {
+  const bests = { classic: 0, endless: 0, timeAttack: 0 };
+  try {
+    const saved = JSON.parse(localStorage.getItem(BEST_SCORES_KEY) ?? '{}');
+    RULE_SETS.forEach(rules => {
+      if (Number.isSafeInteger(saved?.[rules]) && saved[rules] > 0) bests[rules] = saved[rules];
+    });
+  } catch {
+    // Corrupt value: start over
+  }
+  return bests;
+}
+
+export function saveBestScores(bests: Record<RuleSet, number>) {
+  localStorage.setItem(BEST_SCORES_KEY, JSON.stringify(bests));
+}
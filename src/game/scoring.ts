@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState, PlayerStats, Point, ScoreReason } from '../types';
+
+// Kills less than this far apart (simulated ms) keep a streak going.
+export const COMBO_WINDOW_MS = 1000;
+export const MAX_COMBO = 5;
+
+export const SCORE_REASONS: ScoreReason[] = ['direct', 'chain', 'combo', 'bonus', 'survival'];
+
+export function emptyBreakdown(): Record<ScoreReason, number> {
+  return { direct: 0, chain: 0, combo: 0, bonus: 0, survival: 0 };
+}
+
+export function emptyPlayerStats(): PlayerStats {
+  return { score: 0, shots: 0, kills: 0 };
+}
+
+/** Adds points to the team's score and credits and to `player`'s own score, remembering why they were earned. */
+export function award(state: GameState, points: number, reason: ScoreReason, events: GameEvent[], at?: Point, player = 0) {
+  if (points <= 0) return;
+  state.score += points;
+  state.players[player].score += points;
+  state.credits += points;
+  state.scoreBreakdown[reason] += points;
+  events.push({ type: 'score', reason, points, at: at && { x: at.x, y: at.y } });
+}
+
+/**
+ * Counts a kill by blasts from `shot` and returns its multiplier: the larger of
+ * the kills that shot has made and the current streak, capped at MAX_COMBO.
+ */
+export function registerKill(state: GameState, shot: string): number {
+  const shotKills = (state.shotKills[shot] ?? 0) + 1;
+  state.shotKills[shot] = shotKills;
+
+  const { streak } = state;
+  streak.count = state.time - streak.lastKillAt <= COMBO_WINDOW_MS ? streak.count + 1 : 1;
+  streak.lastKillAt = state.time;
+
+  return Math.min(MAX_COMBO, Math.max(shotKills, streak.count));
+}
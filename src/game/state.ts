@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState, GameStatus, WaveDefinition } from '../types';
+import { nextRandom } from './random';
+import { waveAt } from './rules';
+
+// Small helpers shared by the engine and the per-enemy rules.
+
+export function random(state: GameState): number {
+  const { value, state: next } = nextRandom(state.rngState);
+  state.rngState = next;
+  return value;
+}
+
+export function randomBetween(state: GameState, min: number, max: number): number {
+  return min + random(state) * (max - min);
+}
+
+export function nextId(state: GameState, prefix: string): string {
+  return `${prefix}${state.nextId++}`;
+}
+
+export function setStatus(state: GameState, status: GameStatus, events: GameEvent[]) {
+  if (state.status === status) return;
+  state.status = status;
+  events.push({ type: 'statusChanged', status });
+}
+
+export function currentWave(state: GameState): WaveDefinition {
+  return waveAt(state.campaign, state.wave.index);
+}
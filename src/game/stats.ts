@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState, RunStats } from '../types';
+
+export interface RunStatsTracker {
+  /** Game event listener. */
+  handleEvents(events: GameEvent[], state: GameState): void;
+  snapshot(): RunStats;
+  reset(): void;
+  /** Carries on counting from a saved run's stats. */
+  restore(stats: RunStats): void;
+}
+
+export function createRunStats(): RunStatsTracker {
+  let stats: RunStats;
+  let hit: Set<string>;
+
+  const tracker: RunStatsTracker = {
+    handleEvents(events, state) {
+      events.forEach(e => {
+        switch (e.type) {
+          case 'interceptorLaunched':
+            stats.shots += 1;
+            break;
+          case 'enemyDestroyed':
+            stats.kills += 1;
+            if (!hit.has(e.shot)) stats.hitShots += 1;
+            hit.add(e.shot);
+            break;
+          case 'cityDestroyed':
+            stats.losses.push({ kind: 'city', id: e.city.id, level: state.level, time: state.time });
+            break;
+          case 'turretDestroyed':
+            stats.losses.push({ kind: 'turret', id: e.turret.id, level: state.level, time: state.time });
+            break;
+        }
+      });
+    },
+
+    snapshot() {
+      return { ...stats, losses: [...stats.losses] };
+    },
+
+    reset() {
+      stats = { shots: 0, hitShots: 0, kills: 0, losses: [] };
+      hit = new Set();
+    },
+
+    restore(saved) {
+      stats = { ...saved, losses: [...saved.losses] };
+      hit = new Set();
+    },
+  };
+  tracker.reset();
+  return tracker;
+}
+
+/** Share of shots that destroyed something, 0 to 1; 0 before the first shot. */
+export function accuracy(stats: RunStats): number {
+  return stats.shots === 0 ? 0 : stats.hitShots / stats.shots;
+}
+
+/** Shots that hit nothing at all. */
+export function wastedShots(stats: RunStats): number {
+  return stats.shots - stats.hitShots;
+}
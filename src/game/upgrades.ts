@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Turret, UpgradeKind } from '../types';
+
+export const UPGRADE_KINDS: UpgradeKind[] = ['speed', 'blast', 'capacity', 'flak'];
+
+/** Credit cost of each level, in order; the array length is the level cap. */
+export const UPGRADE_COSTS: Record<UpgradeKind, number[]> = {
+  speed: [150, 300, 500],
+  blast: [200, 400, 650],
+  capacity: [100, 200, 350],
+  flak: [600],
+};
+
+const BASE_INTERCEPTOR_SPEED = 1.2; // progress per second
+const BASE_BLAST_RADIUS = 40;
+const BASE_BLAST_FADE = 1.2; // life per second
+export const CAPACITY_PER_LEVEL = 5;
+
+// A flak shot bursts into this many smaller blasts spread sideways around the aim point.
+export const FLAK_SHELLS = 3;
+export const FLAK_SPREAD = 30;
+const FLAK_RADIUS_SCALE = 0.6;
+
+/** Cost of the next level, or null once the upgrade is maxed out. */
+export function nextUpgradeCost(turret: Turret, kind: UpgradeKind): number | null {
+  return UPGRADE_COSTS[kind][turret.upgrades[kind]] ?? null;
+}
+
+export function interceptorSpeed(turret: Turret): number {
+  return BASE_INTERCEPTOR_SPEED * (1 + 0.3 * turret.upgrades.speed);
+}
+
+export function blastRadius(turret: Turret): number {
+  const radius = BASE_BLAST_RADIUS * (1 + 0.2 * turret.upgrades.blast);
+  return turret.upgrades.flak ? radius * FLAK_RADIUS_SCALE : radius;
+}
+
+export function blastFade(turret: Turret): number {
+  return BASE_BLAST_FADE / (1 + 0.3 * turret.upgrades.blast);
+}
+
+/** Largest magazine a turret can be upgraded to. */
+export function maxCapacity(turret: Turret): number {
+  return turret.maxAmmo + (UPGRADE_COSTS.capacity.length - turret.upgrades.capacity) * CAPACITY_PER_LEVEL;
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameMode, GameState, ScheduledSpawn } from '../types';
+import { spawnEnemy } from './enemies';
+
+/** Player index of the versus attacker. */
+export const ATTACKER = 1;
+
+// Simulated ms between two attacker launches
+export const ATTACK_COOLDOWN_MS = 800;
+// A scheduled warhead the attacker has not launched by this long after its time launches itself,
+// so waves always end even if the attacker stops playing
+export const AUTO_LAUNCH_MS = 4000;
+
+// What the attacker scores for each warhead that lands
+export const ATTACK_POINTS = { city: 150, turret: 100 };
+
+export function playerCount(mode: GameMode): number {
+  return mode === 'solo' ? 1 : 2;
+}
+
+/** Players who fire interceptors. */
+export function defenders(mode: GameMode): number[] {
+  return mode === 'coop' ? [0, 1] : [0];
+}
+
+export function isAttacker(mode: GameMode, player: number): boolean {
+  return mode === 'versus' && player === ATTACKER;
+}
+
+/** Whether a scheduled spawn is due on its own at the current time. */
+export function spawnDue(state: GameState, spawn: ScheduledSpawn): boolean {
+  return spawn.at + (state.mode === 'versus' ? AUTO_LAUNCH_MS : 0) <= state.time;
+}
+
+/**
+ * Sends the wave's next scheduled warhead in from `x` at the city or turret `targetId`.
+ * Ignored outside versus, while the launcher cools down, or if the target is already gone.
+ */
+export function launch(state: GameState, x: number, targetId: string, events: GameEvent[]) {
+  if (state.mode !== 'versus' || state.time < state.attackReadyAt || state.wave.schedule.length === 0) return;
+  const target = [...state.cities, ...state.turrets].find(t => t.id === targetId && t.active);
+  if (!target) return;
+
+  const { type } = state.wave.schedule.shift()!;
+  spawnEnemy(state, type, events, { x, target });
+  state.attackReadyAt = state.time + ATTACK_COOLDOWN_MS;
+  state.players[ATTACKER].shots += 1;
+}
+
+/** Credits the attacker for whatever their warheads destroyed during a step. */
+export function creditAttacker(state: GameState, events: GameEvent[]) {
+  if (state.mode !== 'versus') return;
+  const attacker = state.players[ATTACKER];
+  events.forEach(e => {
+    if (e.type !== 'cityDestroyed' && e.type !== 'turretDestroyed') return;
+    attacker.score += e.type === 'cityDestroyed' ? ATTACK_POINTS.city : ATTACK_POINTS.turret;
+    attacker.kills += 1;
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Campaign, EnemyType, ScheduledSpawn, SpawnPattern, WaveDefinition } from '../types';
+import classic from './campaigns/classic.json';
+import { ENEMY_TYPES } from './enemies';
+import { targetIds, validateLayout, validateScript } from './level';
+import { isCount, isOneOf, isRecord } from '../validation';
+
+const PATTERN_KINDS: SpawnPattern['kind'][] = ['steady', 'burst', 'salvo'];
+
+export function totalEnemies(wave: WaveDefinition): number {
+  return wave.enemies.reduce((sum, e) => sum + e.count, 0);
+}
+
+/** Spawn times in ms after the wave's first spawn, one per enemy. Independent of the PRNG. */
+export function spawnOffsets(wave: WaveDefinition): number[] {
+  const { pattern } = wave;
+  return Array.from({ length: totalEnemies(wave) }, (_, n) => {
+    switch (pattern.kind) {
+      case 'steady':
+        return n * pattern.interval;
+      case 'burst': {
+        const group = Math.floor(n / pattern.size);
+        return group * (pattern.interval + (pattern.size - 1) * pattern.spacing) + (n % pattern.size) * pattern.spacing;
+      }
+      case 'salvo':
+        return Math.floor(n / pattern.size) * pattern.interval;
+    }
+  });
+}
+
+/** Lays the wave's enemies out on the clock, shuffling their order with `random`. A script is followed as written. */
+export function buildSchedule(wave: WaveDefinition, startTime: number, random: () => number): ScheduledSpawn[] {
+  if (wave.script) {
+    return wave.script
+      .map(({ at, type, ...aim }) => ({ at: startTime + wave.startDelay + at, type, aim }))
+      .sort((a, b) => a.at - b.at);
+  }
+  const types = wave.enemies.flatMap(e => Array<EnemyType>(e.count).fill(e.type));
+  for (let i = types.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [types[i], types[j]] = [types[j], types[i]];
+  }
+  return spawnOffsets(wave).map((offset, i) => ({ at: startTime + wave.startDelay + offset, type: types[i] }));
+}
+
+function isNumber(value: unknown, min = 0): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min;
+}
+
+function validateWave(data: unknown, path: string, ids: string[] | null, issues: string[]) {
+  if (!isRecord(data)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  const { enemies, pattern, script, startDelay, speed, targets, ammo, bonus } = data;
+  if (!Array.isArray(enemies) || enemies.length === 0) {
+    issues.push(`${path}.enemies must be a non-empty array`);
+  } else {
+    enemies.forEach((e: unknown, i) => {
+      const { type, count }: Record<string, unknown> = isRecord(e) ? e : {};
+      if (!isOneOf(type, ENEMY_TYPES)) issues.push(`${path}.enemies[${i}].type must be one of ${ENEMY_TYPES.join(', ')}`);
+      if (!isCount(count) || count < 1) issues.push(`${path}.enemies[${i}].count must be a positive integer`);
+    });
+  }
+
+  if (!isRecord(pattern) || !isOneOf(pattern.kind, PATTERN_KINDS)) {
+    issues.push(`${path}.pattern.kind must be one of ${PATTERN_KINDS.join(', ')}`);
+  } else {
+    if (!isNumber(pattern.interval, 1)) issues.push(`${path}.pattern.interval must be a positive number of ms`);
+    if (pattern.kind !== 'steady' && (!isCount(pattern.size) || pattern.size < 1)) {
+      issues.push(`${path}.pattern.size must be a positive integer`);
+    }
+    if (pattern.kind === 'burst' && !isNumber(pattern.spacing)) {
+      issues.push(`${path}.pattern.spacing must be a non-negative number of ms`);
+    }
+  }
+
+  if (script !== undefined) validateScript(script, ids, `${path}.script`, issues);
+
+  if (!isNumber(startDelay)) issues.push(`${path}.startDelay must be a non-negative number of ms`);
+  if (!isRecord(speed) || !isNumber(speed.min, Number.MIN_VALUE) || !isNumber(speed.max) || speed.max < speed.min) {
+    issues.push(`${path}.speed must have 0 < min <= max`);
+  }
+  if (!isRecord(targets) || !isNumber(targets.cities) || !isNumber(targets.turrets) || targets.cities + targets.turrets <= 0) {
+    issues.push(`${path}.targets must have non-negative cities/turrets weights, not both zero`);
+  }
+  if (ammo !== 'full' && !isCount(ammo)) {
+    issues.push(`${path}.ammo must be "full" or a non-negative integer`);
+  }
+  if (!isRecord(bonus) || !isCount(bonus.perInterceptor) || !isCount(bonus.perCity)) {
+    issues.push(`${path}.bonus must have non-negative integer perInterceptor and perCity`);
+  }
+}
+
+/** Every problem with untrusted campaign data, or none for a campaign that can be played. */
+function campaignIssues(data: unknown): string[] {
+  const issues: string[] = [];
+  if (!isRecord(data)) return ['expected an object'];
+  const { id, name, layout, waves } = data;
+  if (typeof id !== 'string' || !id) issues.push('id must be a non-empty string');
+  if (typeof name !== 'string') issues.push('name must be a string');
+  const layoutIds = layout === undefined ? targetIds(undefined) : validateLayout(layout, 'layout', issues);
+  if (!Array.isArray(waves) || waves.length === 0) {
+    issues.push('waves must be a non-empty array');
+  } else {
+    const ids = issues.length === 0 ? layoutIds : null;
+    waves.forEach((wave: unknown, i) => validateWave(wave, `waves[${i}]`, ids, issues));
+  }
+  return issues;
+}
+
+/** Checks untrusted JSON against the campaign schema, listing every problem found. */
+export function parseCampaign(data: unknown): Campaign {
+  const issues = campaignIssues(data);
+  if (issues.length > 0) {
+    throw new Error(`Invalid campaign:\n- ${issues.join('\n- ')}`);
+  }
+  return data as Campaign;
+}
+
+export const DEFAULT_CAMPAIGN: Campaign = parseCampaign(classic);
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Locale, Message } from '../types';
+import { en, MessageKey, Messages } from './locales/en';
+import { ja } from './locales/ja';
+import { zh } from './locales/zh';
+import { zhTW } from './locales/zh-TW';
+
+export type { MessageKey } from './locales/en';
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export const LOCALES: Locale[] = ['zh', 'zh-TW', 'en', 'ja'];
+
+// Each language's name in itself, for the selector
+export const LOCALE_NAMES: Record<Locale, string> = {
+  zh: '简体中文',
+  'zh-TW': '繁體中文',
+  en: 'English',
+  ja: '日本語',
+};
+
+const MESSAGES: Record<Locale, Messages> = { zh, 'zh-TW': zhTW, en, ja };
+
+const LOCALE_KEY = 'starry-defense:locale';
+const DEFAULT_LOCALE: Locale = 'zh';
+
+/** Best supported match for a BCP 47 tag such as `zh-Hant-HK` or `en-US`. */
+export function matchLocale(tag: string): Locale | null {
+  const [language, ...rest] = tag.toLowerCase().split('-');
+  if (language === 'zh') {
+    // Traditional script, or a region that writes it
+    return rest.some(part => ['hant', 'tw', 'hk', 'mo'].includes(part)) ? 'zh-TW' : 'zh';
+  }
+  return LOCALES.find(l => l === language) ?? null;
+}
+
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const tag of languages) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** The player's saved choice, else the browser's preference. */
+export function loadLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_KEY) as Locale | null;
+  return saved && LOCALES.includes(saved) ? saved : detectLocale();
+}
+
+export function saveLocale(locale: Locale) {
+  localStorage.setItem(LOCALE_KEY, locale);
+}
+
+function interpolate(text: string, params: TranslationParams): string {
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Translator for `locale`. A plural message picks its form from `params.count`;
+ * every `{name}` is replaced by `params[name]`.
+ */
+export function createTranslator(locale: Locale): Translate {
+  const messages = MESSAGES[locale];
+  const plurals = new Intl.PluralRules(locale);
+  return (key, params = {}) => {
+    const message: Message = messages[key] ?? en[key];
+    const text = typeof message === 'string' ? message : (message[plurals.select(Number(params.count))] ?? message.other);
+    return interpolate(text, params);
+  };
+}
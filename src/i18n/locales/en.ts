@@ -0,0 +1,276 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Message } from '../../types';
+
+/** The reference locale: its keys are the schema every other locale must match. */
+export const en = {
+  // Title screen
+  title: 'LIAOZHIH Starry Defense',
+  start: 'Start Game',
+  mission: 'Goal: Survive {waves} Waves',
+  instructions: 'Click to fire interceptors. Protect cities and turrets!',
+  featurePrecision: 'Precision',
+  featureSpeed: 'Speed',
+  featureDefense: 'Defense',
+  language: 'Language',
+
+  // Controls
+  controls: 'Keyboard: move the crosshair, fire from the left/center/right battery. Shift+click uses the selected battery.',
+  keySchemeArrows: 'Arrows + Q/W/E',
+  keySchemeWasd: 'WASD + 1/2/3',
+  reducedMotion: 'Reduced motion',
+  reducedMotionHint: 'No screen shake or flashes',
+  gamepad: 'Gamepad buttons',
+  fireLeft: 'Fire left battery',
+  fireCenter: 'Fire center battery',
+  fireRight: 'Fire right battery',
+  pause: 'Pause',
+  button: 'Button {n}',
+  pressButton: 'Press a pad button…',
+  resetMapping: 'Reset to default',
+
+  // Sound
+  sound: 'Sound',
+  volumeMaster: 'Master',
+  volumeSfx: 'Effects',
+  volumeMusic: 'Music',
+  mute: 'Mute',
+  unmute: 'Unmute',
+
+  // In game
+  score: 'Score',
+  level: 'Level',
+  ammo: 'Ammo',
+  cities: 'Cities',
+  citiesRemaining: { one: '{count} city remaining', other: '{count} cities remaining' },
+  outOfAmmo: 'EMPTY',
+  comboPopup: '+{points} ×{multiplier}',
+  paused: 'Paused',
+  resume: 'Resume',
+  quitToTitle: 'Quit to Title',
+
+  // End of game
+  win: 'Victory!',
+  lose: 'Cities Fallen',
+  restart: 'Play Again',
+  scoreDirect: 'Direct hits',
+  scoreChain: 'Chain reactions',
+  scoreCombo: 'Combo bonus',
+  scoreBonus: 'Wave bonuses',
+
+  // Leaderboard
+  leaderboard: 'Leaderboard',
+  periodAll: 'All',
+  periodDay: 'Today',
+  periodWeek: 'Week',
+  noScores: 'No scores yet',
+  loading: 'Loading…',
+  unavailable: 'Leaderboard unavailable',
+  playerName: 'Player name',
+  submitScore: 'Submit',
+  submitted: 'Submitted! All-time rank #{rank}',
+
+  // Replays
+  replay: 'Replay',
+  watchReplay: 'Watch Replay',
+  saveReplay: 'Save Replay',
+  loadReplay: 'Load Replay',
+  exitReplay: 'Exit Replay',
+
+  // Between waves
+  waveCleared: 'Wave {level} Cleared',
+  interceptorsLeft: 'Interceptors left',
+  citiesSaved: 'Cities saved',
+  waveBonus: 'Wave bonus',
+  citiesRebuilt: { one: '{count} city rebuilt!', other: '{count} cities rebuilt!' },
+  nextWave: 'Next Wave',
+  shop: 'Upgrade Shop',
+  credits: 'Credits',
+  battery: 'Battery {n}',
+  upgradeSpeed: 'Speed',
+  upgradeBlast: 'Blast',
+  upgradeCapacity: 'Ammo',
+  upgradeFlak: 'Flak',
+  maxed: 'MAX',
+
+  // Commentary
+  briefing: 'Commander Briefing',
+  debrief: 'Debrief',
+  receiving: 'Receiving transmission…',
+  briefingCanned: 'Wave {level} of {waves}: {count} hostiles inbound — {composition}. Hold the line, commander.',
+  debriefWon: 'All waves repelled with {score} points.',
+  debriefLost: 'The defense fell in wave {level} with {score} points.',
+  debriefAccuracy: { one: 'Accuracy {accuracy}%, {count} interceptor wasted.', other: 'Accuracy {accuracy}%, {count} interceptors wasted.' },
+  debriefNoLosses: 'Not a single city was lost.',
+  debriefLosses: { one: '{count} city fell, first in wave {first}.', other: '{count} cities fell, the first in wave {first}.' },
+  enemyRocket: { one: '{count} rocket', other: '{count} rockets' },
+  enemyMirv: { one: '{count} MIRV', other: '{count} MIRVs' },
+  enemySmartBomb: { one: '{count} smart bomb', other: '{count} smart bombs' },
+  enemyBomber: { one: '{count} bomber', other: '{count} bombers' },
+  enemySatellite: { one: '{count} satellite', other: '{count} satellites' },
+
+  // Players
+  modeSolo: 'Solo',
+  modeCoop: 'Co-op',
+  modeVersus: 'Versus',
+  modeHintSolo: 'Mouse, keyboard or gamepad.',
+  modeHintCoop: 'P1: mouse (or first pad). P2: keyboard (or second pad). Cities are shared.',
+  modeHintVersus: 'P1 defends with the mouse. P2 attacks with keyboard or pad: left/right pick a target, center launches.',
+  player: 'P{n}',
+  roleDefender: 'Defender',
+  roleAttacker: 'Attacker',
+  statShots: 'Shots',
+  statHits: 'Hits',
+  statAccuracy: 'Acc.',
+  defenderWins: 'Defender wins!',
+  attackerWins: 'Attacker wins!',
+
+  // Online
+  online: 'Online co-op',
+  goOnline: 'Go online',
+  goOffline: 'Go offline',
+  connecting: 'Connecting…',
+  createRoom: 'Create room',
+  joinRoom: 'Join',
+  roomCode: 'Room code',
+  ready: 'Ready',
+  notReady: 'Not ready',
+  leaveRoom: 'Leave',
+  waitingForPartner: 'Waiting for a partner…',
+  partnerAway: 'Your partner lost connection. The game resumes when they are back.',
+  backToRoom: 'Back to Room',
+  netRoomNotFound: 'No room with that code',
+  netRoomFull: 'That room is full or already playing',
+  netPartnerLeft: 'Your partner left the game',
+  netProtocolMismatch: 'The server runs a different version; reload the page',
+
+  // Achievements
+  achievements: 'Achievements',
+  achievementUnlocked: 'Achievement unlocked',
+  unlockedCount: '{count} of {total} unlocked',
+  lifetimeStats: 'Lifetime',
+  back: 'Back',
+  statGamesPlayed: 'Games played',
+  statGamesWon: 'Games won',
+  statKills: 'Rockets destroyed',
+  statInterceptors: 'Interceptors fired',
+  lifetimeAccuracy: 'Accuracy',
+  statBestScore: 'Best score',
+  statHighestLevel: 'Highest level',
+  statCitiesSaved: 'Cities saved',
+  achFirstContact: 'First Contact',
+  achFirstContactHint: 'Destroy your first warhead.',
+  achChainReaction: 'Chain Reaction',
+  achChainReactionHint: 'Destroy 10 warheads with a single shot.',
+  achMaxCombo: 'Combo Master',
+  achMaxComboHint: 'Reach the top combo multiplier.',
+  achSouthpaw: 'Southpaw',
+  achSouthpawHint: 'Clear a wave firing only the leftmost battery.',
+  achVictory: 'Defender',
+  achVictoryHint: 'Survive every wave.',
+  achFlawless: 'Not a Scratch',
+  achFlawlessHint: 'Win with all six cities standing.',
+  achLastStand: 'Last Stand',
+  achLastStandHint: 'Win with a single city left.',
+  achSharpshooter: 'Sharpshooter',
+  achSharpshooterHint: 'Win with at least 75% accuracy.',
+  achCenturion: 'Centurion',
+  achCenturionHint: 'Destroy 100 warheads in one game.',
+  achVeteran: 'Veteran',
+  achVeteranHint: 'Destroy 1,000 warheads in total.',
+
+  // Daily challenge
+  dailyChallenge: 'Daily Challenge',
+  playDaily: 'Play',
+  practiceDaily: 'Practice',
+  dailyPractice: "Practice run: today's ranked attempt is already used.",
+  dailyLeaderboard: "Today's Leaderboard",
+  modHalfAmmo: 'Half Ammo',
+  modHalfAmmoHint: 'Every battery starts and refills with half the interceptors.',
+  modFastRockets: 'Fast Rockets',
+  modFastRocketsHint: 'Warheads fall half again as fast.',
+  modNoCenterTurret: 'No Center Battery',
+  modNoCenterTurretHint: 'Defend the middle from the flanks.',
+  modRuinedCities: 'Ruined Cities',
+  modRuinedCitiesHint: 'The two middle cities are already lost.',
+
+  // Rules
+  rulesClassic: 'Classic',
+  rulesEndless: 'Endless',
+  rulesTimeAttack: 'Time Attack',
+  rulesHintClassic: 'Clear every wave; the run ends when the last city falls.',
+  rulesHintEndless: 'Waves never stop and keep getting harder. Every second survived scores.',
+  rulesHintTimeAttack: 'Score as much as you can in three minutes.',
+  bestScore: 'Best ({rules}): {score}',
+  tier: 'Tier',
+  survived: 'Survived',
+  timeLeft: 'Time left',
+  timeUp: "Time's up!",
+  scoreSurvival: 'Survival',
+
+  // Accessibility
+  settings: 'Settings',
+  palette: 'Colours',
+  paletteStandard: 'Standard',
+  paletteDeuteranopia: 'Deuteranopia',
+  paletteProtanopia: 'Protanopia',
+  paletteHighContrast: 'High contrast',
+  aimAssist: 'Aim assist',
+  aimAssistHint: 'Shots near a warhead detonate where it is heading.',
+  gameSpeed: 'Game speed',
+  gameSpeedHint: 'Slows offline games down; online games and replays run at full speed.',
+  announceWave: 'Wave {level} incoming',
+  announceWaveCleared: 'Wave {level} cleared. Score {score}',
+  announceCityLost: { one: 'City lost. {count} city left', other: 'City lost. {count} cities left' },
+  announceWon: 'Victory. Final score {score}',
+  announceLost: 'Defeat. Final score {score}',
+
+  // Saved runs
+  continueRun: 'Continue',
+  continueRunDetail: 'Wave {level} · {score} pts',
+
+  // Level editor
+  levelEditor: 'Level editor',
+  levelName: 'Name',
+  baseLayout: 'Base',
+  baseLayoutHint: 'Drag cities and turrets along the ground. Lines show where this wave enters and what it aims at.',
+  addCity: 'Add city',
+  addTurret: 'Add turret',
+  positionX: '{id} position',
+  turretAmmo: 'Ammo',
+  removeSelected: 'Remove',
+  waves: 'Waves',
+  addWave: 'Add wave',
+  removeWave: 'Remove wave',
+  waveAmmo: 'Ammo at start',
+  waveAmmoFull: 'Refill',
+  waveAmmoSome: 'Set to',
+  timelineHint: 'Drag warheads along the first {seconds} seconds of the wave.',
+  spawnTime: 'Time (s)',
+  spawnType: 'Type',
+  spawnEntry: 'Entry x',
+  spawnTarget: 'Target',
+  spawnSpeed: 'Speed',
+  spawnRocket: 'Rocket',
+  spawnMirv: 'MIRV',
+  spawnSmartBomb: 'Smart bomb',
+  spawnBomber: 'Bomber',
+  spawnSatellite: 'Satellite',
+  targetCity: 'City {id}',
+  targetTurret: 'Turret {id}',
+  addSpawn: 'Add warhead',
+  removeSpawn: 'Remove warhead',
+  levelProblems: { one: '{count} problem to fix before playing', other: '{count} problems to fix before playing' },
+  playtest: 'Playtest',
+  exportLevel: 'Export',
+  importLevel: 'Import',
+  backToEditor: 'Back to editor',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+/** A complete locale; a missing or misspelled key is a type error. */
+export type Messages = Record<MessageKey, Message>;
@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Messages } from './en';
+
+export const ja: Messages = {
+  // Title screen
+  title: 'LIAOZHIH スターリーディフェンス',
+  start: 'ゲームスタート',
+  mission: '目標：全 {waves} ウェーブを守り抜け',
+  instructions: 'クリックで迎撃ミサイルを発射。都市と砲台を守れ！',
+  featurePrecision: '精密',
+  featureSpeed: 'スピード',
+  featureDefense: '防衛',
+  language: '言語',
+
+  // Controls
+  controls: 'キーボード：照準を動かし、左・中央・右の砲台から発射。Shift+クリックで選択中の砲台を使用。',
+  keySchemeArrows: '矢印キー + Q/W/E',
+  keySchemeWasd: 'WASD + 1/2/3',
+  reducedMotion: '動きを減らす',
+  reducedMotionHint: '画面の揺れとフラッシュをオフ',
+  gamepad: 'ゲームパッドのボタン',
+  fireLeft: '左砲台で発射',
+  fireCenter: '中央砲台で発射',
+  fireRight: '右砲台で発射',
+  pause: 'ポーズ',
+  button: 'ボタン {n}',
+  pressButton: 'パッドのボタンを押してください…',
+  resetMapping: '初期設定に戻す',
+
+  // Sound
+  sound: 'サウンド',
+  volumeMaster: 'マスター',
+  volumeSfx: '効果音',
+  volumeMusic: '音楽',
+  mute: 'ミュート',
+  unmute: 'ミュート解除',
+
+  // In game
+  score: 'スコア',
+  level: 'レベル',
+  ammo: '弾薬',
+  cities: '都市',
+  citiesRemaining: '残り {count} 都市',
+  outOfAmmo: '弾切れ',
+  comboPopup: '+{points} ×{multiplier}',
+  paused: 'ポーズ中',
+  resume: '再開',
+  quitToTitle: 'タイトルへ戻る',
+
+  // End of game
+  win: '勝利！',
+  lose: '都市陥落',
+  restart: 'もう一度',
+  scoreDirect: '直撃',
+  scoreChain: '連鎖爆発',
+  scoreCombo: 'コンボボーナス',
+  scoreBonus: 'ウェーブボーナス',
+
+  // Leaderboard
+  leaderboard: 'ランキング',
+  periodAll: '総合',
+  periodDay: '今日',
+  periodWeek: '今週',
+  noScores: '記録なし',
+  loading: '読み込み中…',
+  unavailable: 'ランキングを利用できません',
+  playerName: 'プレイヤー名',
+  submitScore: '送信',
+  submitted: '送信完了！総合 {rank} 位',
+
+  // Replays
+  replay: 'リプレイ',
+  watchReplay: 'リプレイを見る',
+  saveReplay: 'リプレイを保存',
+  loadReplay: 'リプレイを読み込む',
+  exitReplay: 'リプレイを終了',
+
+  // Between waves
+  waveCleared: 'ウェーブ {level} クリア',
+  interceptorsLeft: '残り迎撃弾',
+  citiesSaved: '生存都市',
+  waveBonus: 'ウェーブボーナス',
+  citiesRebuilt: '{count} 都市を再建！',
+  nextWave: '次のウェーブ',
+  shop: 'アップグレードショップ',
+  credits: 'クレジット',
+  battery: '第 {n} 砲台',
+  upgradeSpeed: '速度',
+  upgradeBlast: '爆発',
+  upgradeCapacity: '弾数',
+  upgradeFlak: '散弾',
+  maxed: '最大',
+
+  // Commentary
+  briefing: '司令官ブリーフィング',
+  debrief: 'デブリーフィング',
+  receiving: '通信を受信中…',
+  briefingCanned: '第 {level}/{waves} 波：敵 {count} 機が接近中——{composition}。持ちこたえろ、司令官。',
+  debriefWon: '全ての波を撃退、スコア {score}。',
+  debriefLost: '第 {level} 波で防衛線が崩壊、スコア {score}。',
+  debriefAccuracy: '命中率 {accuracy}%、無駄になった迎撃弾 {count} 発。',
+  debriefNoLosses: '失った都市はひとつもない。',
+  debriefLosses: '{count} 都市が陥落、最初は第 {first} 波。',
+  enemyRocket: 'ミサイル {count} 発',
+  enemyMirv: 'MIRV {count} 発',
+  enemySmartBomb: 'スマート爆弾 {count} 発',
+  enemyBomber: '爆撃機 {count} 機',
+  enemySatellite: '衛星 {count} 機',
+
+  // Players
+  modeSolo: 'ソロ',
+  modeCoop: '協力',
+  modeVersus: '対戦',
+  modeHintSolo: 'マウス、キーボード、ゲームパッド。',
+  modeHintCoop: 'P1：マウス（または1台目のパッド）。P2：キーボード（または2台目のパッド）。都市は共有。',
+  modeHintVersus: 'P1はマウスで防衛。P2はキーボードかパッドで攻撃：左右で目標を選び、中央で発射。',
+  player: 'P{n}',
+  roleDefender: '防衛側',
+  roleAttacker: '攻撃側',
+  statShots: '発射',
+  statHits: '命中',
+  statAccuracy: '命中率',
+  defenderWins: '防衛側の勝利！',
+  attackerWins: '攻撃側の勝利！',
+
+  // Online
+  online: 'オンライン協力',
+  goOnline: 'オンラインにする',
+  goOffline: 'オフラインにする',
+  connecting: '接続中…',
+  createRoom: 'ルーム作成',
+  joinRoom: '参加',
+  roomCode: 'ルームコード',
+  ready: '準備完了',
+  notReady: '準備取消',
+  leaveRoom: '退出',
+  waitingForPartner: '相手を待っています…',
+  partnerAway: '相手の接続が切れました。戻るとゲームが再開します。',
+  backToRoom: 'ルームに戻る',
+  netRoomNotFound: 'そのコードのルームはありません',
+  netRoomFull: 'そのルームは満員かプレイ中です',
+  netPartnerLeft: '相手がゲームを抜けました',
+  netProtocolMismatch: 'サーバーのバージョンが異なります。ページを再読み込みしてください',
+
+  // Achievements
+  achievements: '実績',
+  achievementUnlocked: '実績解除',
+  unlockedCount: '{total} 個中 {count} 個解除',
+  lifetimeStats: '通算',
+  back: '戻る',
+  statGamesPlayed: 'プレイ回数',
+  statGamesWon: '勝利回数',
+  statKills: '撃墜したミサイル',
+  statInterceptors: '発射した迎撃弾',
+  lifetimeAccuracy: '命中率',
+  statBestScore: '最高スコア',
+  statHighestLevel: '最高到達ウェーブ',
+  statCitiesSaved: '守った都市',
+  achFirstContact: 'ファーストコンタクト',
+  achFirstContactHint: '最初の弾頭を撃墜する。',
+  achChainReaction: '連鎖反応',
+  achChainReactionHint: '1 発で弾頭を 10 個撃墜する。',
+  achMaxCombo: 'コンボマスター',
+  achMaxComboHint: '最大コンボ倍率に到達する。',
+  achSouthpaw: 'サウスポー',
+  achSouthpawHint: '左端の砲台だけでウェーブをクリアする。',
+  achVictory: '守護者',
+  achVictoryHint: '全ウェーブを生き延びる。',
+  achFlawless: '無傷',
+  achFlawlessHint: '6 つの都市すべてを残して勝利する。',
+  achLastStand: '最後の砦',
+  achLastStandHint: '都市が 1 つだけの状態で勝利する。',
+  achSharpshooter: '狙撃手',
+  achSharpshooterHint: '命中率 75% 以上で勝利する。',
+  achCenturion: '百人隊長',
+  achCenturionHint: '1 ゲームで弾頭を 100 個撃墜する。',
+  achVeteran: 'ベテラン',
+  achVeteranHint: '累計で弾頭を 1,000 個撃墜する。',
+
+  // Daily challenge
+  dailyChallenge: 'デイリーチャレンジ',
+  playDaily: 'プレイ',
+  practiceDaily: '練習',
+  dailyPractice: '練習プレイ：今日のランク挑戦はすでに使用済みです。',
+  dailyLeaderboard: '今日のランキング',
+  modHalfAmmo: '弾薬半減',
+  modHalfAmmoHint: 'すべての砲台の迎撃弾が初期・補給ともに半分になる。',
+  modFastRockets: '高速ロケット',
+  modFastRocketsHint: '弾頭の落下速度が1.5倍になる。',
+  modNoCenterTurret: '中央砲台なし',
+  modNoCenterTurretHint: '両翼から中央を守れ。',
+  modRuinedCities: '廃墟の都市',
+  modRuinedCitiesHint: '中央の2都市はすでに失われている。',
+
+  // Rules
+  rulesClassic: 'クラシック',
+  rulesEndless: 'エンドレス',
+  rulesTimeAttack: 'タイムアタック',
+  rulesHintClassic: '全ウェーブを撃退せよ。最後の都市が落ちると終了。',
+  rulesHintEndless: '攻撃は終わらず激しさを増す。生き延びた秒数が得点になる。',
+  rulesHintTimeAttack: '3分間でできるだけ高得点を狙え。',
+  bestScore: 'ベスト（{rules}）：{score}',
+  tier: '難度',
+  survived: '生存時間',
+  timeLeft: '残り時間',
+  timeUp: 'タイムアップ！',
+  scoreSurvival: '生存',
+
+  // Accessibility
+  settings: '設定',
+  palette: '配色',
+  paletteStandard: '標準',
+  paletteDeuteranopia: '2型色覚',
+  paletteProtanopia: '1型色覚',
+  paletteHighContrast: 'ハイコントラスト',
+  aimAssist: 'エイムアシスト',
+  aimAssistHint: '弾頭の近くを狙うと、その進路上で起爆します。',
+  gameSpeed: 'ゲーム速度',
+  gameSpeedHint: 'オフラインのゲームを遅くします。オンラインとリプレイは通常速度です。',
+  announceWave: '第 {level} ウェーブ接近',
+  announceWaveCleared: '第 {level} ウェーブ撃退。スコア {score}',
+  announceCityLost: '都市が破壊されました。残り {count} 都市',
+  announceWon: '勝利。最終スコア {score}',
+  announceLost: '敗北。最終スコア {score}',
+
+  // Saved runs
+  continueRun: 'つづきから',
+  continueRunDetail: 'ウェーブ {level} · {score} 点',
+
+  // Level editor
+  levelEditor: 'レベルエディター',
+  levelName: '名前',
+  baseLayout: '基地',
+  baseLayoutHint: '都市と砲台を地面に沿ってドラッグします。線はこのウェーブの進入位置と狙いを示します。',
+  addCity: '都市を追加',
+  addTurret: '砲台を追加',
+  positionX: '{id} の位置',
+  turretAmmo: '弾薬',
+  removeSelected: '削除',
+  waves: 'ウェーブ',
+  addWave: 'ウェーブを追加',
+  removeWave: 'ウェーブを削除',
+  waveAmmo: '開始時の弾薬',
+  waveAmmoFull: '補充',
+  waveAmmoSome: '指定',
+  timelineHint: 'ウェーブ最初の {seconds} 秒の中で弾頭をドラッグします。',
+  spawnTime: '時間（秒）',
+  spawnType: '種類',
+  spawnEntry: '進入 x',
+  spawnTarget: '目標',
+  spawnSpeed: '速度',
+  spawnRocket: 'ロケット',
+  spawnMirv: 'MIRV',
+  spawnSmartBomb: 'スマート爆弾',
+  spawnBomber: '爆撃機',
+  spawnSatellite: '衛星',
+  targetCity: '都市 {id}',
+  targetTurret: '砲台 {id}',
+  addSpawn: '弾頭を追加',
+  removeSpawn: '弾頭を削除',
+  levelProblems: 'プレイ前に直す問題が {count} 件あります',
+  playtest: 'テストプレイ',
+  exportLevel: 'エクスポート',
+  importLevel: 'インポート',
+  backToEditor: 'エディターに戻る',
+};
@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Messages } from './en';
+
+export const zhTW: Messages = {
+  // Title screen
+  title: 'LIAOZHIH星空防禦',
+  start: '開始遊戲',
+  mission: '目標：守住全部 {waves} 波',
+  instructions: '點擊螢幕發射攔截飛彈。保護城市和砲台！',
+  featurePrecision: '精準',
+  featureSpeed: '速度',
+  featureDefense: '防禦',
+  language: '語言',
+
+  // Controls
+  controls: '鍵盤：移動準星，按鍵從左/中/右砲台發射。Shift+點擊使用選中的砲台。',
+  keySchemeArrows: '方向鍵 + Q/W/E',
+  keySchemeWasd: 'WASD + 1/2/3',
+  reducedMotion: '減少動態效果',
+  reducedMotionHint: '關閉畫面震動與閃光',
+  gamepad: '手把按鍵',
+  fireLeft: '左砲台發射',
+  fireCenter: '中砲台發射',
+  fireRight: '右砲台發射',
+  pause: '暫停',
+  button: '按鍵 {n}',
+  pressButton: '請按手把按鍵…',
+  resetMapping: '恢復預設',
+
+  // Sound
+  sound: '聲音',
+  volumeMaster: '總音量',
+  volumeSfx: '音效',
+  volumeMusic: '音樂',
+  mute: '靜音',
+  unmute: '取消靜音',
+
+  // In game
+  score: '得分',
+  level: '關卡',
+  ammo: '彈藥',
+  cities: '城市',
+  citiesRemaining: '剩餘 {count} 座城市',
+  outOfAmmo: '彈盡',
+  comboPopup: '+{points} ×{multiplier}',
+  paused: '已暫停',
+  resume: '繼續',
+  quitToTitle: '返回標題',
+
+  // End of game
+  win: '勝利！',
+  lose: '城市陷落',
+  restart: '再玩一次',
+  scoreDirect: '直接命中',
+  scoreChain: '連鎖爆炸',
+  scoreCombo: '連擊加成',
+  scoreBonus: '波次獎勵',
+
+  // Leaderboard
+  leaderboard: '排行榜',
+  periodAll: '總榜',
+  periodDay: '今日',
+  periodWeek: '本週',
+  noScores: '暫無紀錄',
+  loading: '載入中…',
+  unavailable: '排行榜暫時無法使用',
+  playerName: '玩家名稱',
+  submitScore: '提交',
+  submitted: '已提交！總排名第 {rank} 名',
+
+  // Replays
+  replay: '重播',
+  watchReplay: '觀看重播',
+  saveReplay: '儲存重播',
+  loadReplay: '載入重播',
+  exitReplay: '退出重播',
+
+  // Between waves
+  waveCleared: '第 {level} 波已肅清',
+  interceptorsLeft: '剩餘攔截彈',
+  citiesSaved: '倖存城市',
+  waveBonus: '波次獎勵',
+  citiesRebuilt: '重建了 {count} 座城市！',
+  nextWave: '下一波',
+  shop: '升級商店',
+  credits: '積分',
+  battery: '{n} 號砲台',
+  upgradeSpeed: '速度',
+  upgradeBlast: '爆炸',
+  upgradeCapacity: '彈容',
+  upgradeFlak: '散射',
+  maxed: '滿級',
+
+  // Commentary
+  briefing: '指揮官簡報',
+  debrief: '戰後總結',
+  receiving: '正在接收通訊…',
+  briefingCanned: '第 {level}/{waves} 波：{count} 個目標來襲——{composition}。堅守陣地，指揮官。',
+  debriefWon: '全部波次已擊退，得分 {score}。',
+  debriefLost: '防線在第 {level} 波失守，得分 {score}。',
+  debriefAccuracy: '命中率 {accuracy}%，浪費攔截彈 {count} 枚。',
+  debriefNoLosses: '沒有損失任何城市。',
+  debriefLosses: '{count} 座城市陷落，第一座在第 {first} 波。',
+  enemyRocket: '{count} 枚飛彈',
+  enemyMirv: '{count} 枚分導彈頭',
+  enemySmartBomb: '{count} 枚智慧炸彈',
+  enemyBomber: '{count} 架轟炸機',
+  enemySatellite: '{count} 顆衛星',
+
+  // Players
+  modeSolo: '單人',
+  modeCoop: '合作',
+  modeVersus: '對戰',
+  modeHintSolo: '滑鼠、鍵盤或手把。',
+  modeHintCoop: '玩家1：滑鼠（或第一個手把）。玩家2：鍵盤（或第二個手把）。城市共享。',
+  modeHintVersus: '玩家1用滑鼠防守。玩家2用鍵盤或手把進攻：左右選擇目標，中間發射。',
+  player: '玩家{n}',
+  roleDefender: '防守方',
+  roleAttacker: '進攻方',
+  statShots: '發射',
+  statHits: '命中',
+  statAccuracy: '命中率',
+  defenderWins: '防守方獲勝！',
+  attackerWins: '進攻方獲勝！',
+
+  // Online
+  online: '線上合作',
+  goOnline: '上線',
+  goOffline: '離線',
+  connecting: '連線中…',
+  createRoom: '建立房間',
+  joinRoom: '加入',
+  roomCode: '房間代碼',
+  ready: '準備',
+  notReady: '取消準備',
+  leaveRoom: '離開',
+  waitingForPartner: '等待隊友…',
+  partnerAway: '隊友已斷線，重新連線後遊戲繼續。',
+  backToRoom: '返回房間',
+  netRoomNotFound: '找不到此代碼的房間',
+  netRoomFull: '此房間已滿或正在遊戲中',
+  netPartnerLeft: '隊友已離開遊戲',
+  netProtocolMismatch: '伺服器版本不同，請重新整理頁面',
+
+  // Achievements
+  achievements: '成就',
+  achievementUnlocked: '成就解鎖',
+  unlockedCount: '已解鎖 {count}/{total}',
+  lifetimeStats: '生涯統計',
+  back: '返回',
+  statGamesPlayed: '遊戲場數',
+  statGamesWon: '勝利場數',
+  statKills: '擊毀飛彈',
+  statInterceptors: '發射攔截彈',
+  lifetimeAccuracy: '命中率',
+  statBestScore: '最高分',
+  statHighestLevel: '最高關卡',
+  statCitiesSaved: '保住的城市',
+  achFirstContact: '初次交鋒',
+  achFirstContactHint: '擊毀第一枚彈頭。',
+  achChainReaction: '連鎖反應',
+  achChainReactionHint: '一發攔截彈擊毀 10 枚彈頭。',
+  achMaxCombo: '連擊大師',
+  achMaxComboHint: '達到最高連擊倍數。',
+  achSouthpaw: '左撇子',
+  achSouthpawHint: '只用最左側砲台清除一波。',
+  achVictory: '守護者',
+  achVictoryHint: '撐過所有波次。',
+  achFlawless: '毫髮無傷',
+  achFlawlessHint: '六座城市全部完好地獲勝。',
+  achLastStand: '背水一戰',
+  achLastStandHint: '只剩一座城市時獲勝。',
+  achSharpshooter: '神射手',
+  achSharpshooterHint: '以至少 75% 的命中率獲勝。',
+  achCenturion: '百夫長',
+  achCenturionHint: '一局中擊毀 100 枚彈頭。',
+  achVeteran: '老兵',
+  achVeteranHint: '累計擊毀 1,000 枚彈頭。',
+
+  // Daily challenge
+  dailyChallenge: '每日挑戰',
+  playDaily: '開始',
+  practiceDaily: '練習',
+  dailyPractice: '練習局：今天的排名機會已經用過了。',
+  dailyLeaderboard: '今日排行榜',
+  modHalfAmmo: '彈藥減半',
+  modHalfAmmoHint: '每座砲台的初始和補給攔截彈都只有一半。',
+  modFastRockets: '高速火箭',
+  modFastRocketsHint: '彈頭下落速度提高一半。',
+  modNoCenterTurret: '沒有中央砲台',
+  modNoCenterTurretHint: '只能從兩翼守住中間。',
+  modRuinedCities: '城市廢墟',
+  modRuinedCitiesHint: '中間的兩座城市已經被摧毀。',
+
+  // Rules
+  rulesClassic: '經典',
+  rulesEndless: '無盡',
+  rulesTimeAttack: '計時賽',
+  rulesHintClassic: '擊退每一波；最後一座城市陷落時遊戲結束。',
+  rulesHintEndless: '攻勢永不停止且越來越強，每多堅持一秒都能得分。',
+  rulesHintTimeAttack: '在三分鐘內拿到盡可能高的分數。',
+  bestScore: '最高分（{rules}）：{score}',
+  tier: '難度',
+  survived: '已堅持',
+  timeLeft: '剩餘時間',
+  timeUp: '時間到！',
+  scoreSurvival: '生存',
+
+  // Accessibility
+  settings: '設定',
+  palette: '配色',
+  paletteStandard: '標準',
+  paletteDeuteranopia: '綠色弱',
+  paletteProtanopia: '紅色弱',
+  paletteHighContrast: '高對比',
+  aimAssist: '瞄準輔助',
+  aimAssistHint: '在彈頭附近開火時，攔截彈會在它的前進方向上引爆。',
+  gameSpeed: '遊戲速度',
+  gameSpeedHint: '放慢離線遊戲；連線遊戲和重播維持全速。',
+  announceWave: '第 {level} 波來襲',
+  announceWaveCleared: '第 {level} 波已肅清。得分 {score}',
+  announceCityLost: '一座城市被摧毀。剩餘 {count} 座',
+  announceWon: '勝利。最終得分 {score}',
+  announceLost: '失敗。最終得分 {score}',
+
+  // Saved runs
+  continueRun: '繼續',
+  continueRunDetail: '第 {level} 波 · {score} 分',
+
+  // Level editor
+  levelEditor: '關卡編輯器',
+  levelName: '名稱',
+  baseLayout: '基地',
+  baseLayoutHint: '沿地面拖曳城市和砲塔。連線顯示本波飛彈的進場位置和目標。',
+  addCity: '新增城市',
+  addTurret: '新增砲塔',
+  positionX: '{id} 位置',
+  turretAmmo: '彈藥',
+  removeSelected: '移除',
+  waves: '波次',
+  addWave: '新增波次',
+  removeWave: '移除波次',
+  waveAmmo: '開局彈藥',
+  waveAmmoFull: '補滿',
+  waveAmmoSome: '設為',
+  timelineHint: '在本波前 {seconds} 秒內拖曳飛彈。',
+  spawnTime: '時間（秒）',
+  spawnType: '類型',
+  spawnEntry: '進場 x',
+  spawnTarget: '目標',
+  spawnSpeed: '速度',
+  spawnRocket: '火箭',
+  spawnMirv: '分導彈頭',
+  spawnSmartBomb: '智慧炸彈',
+  spawnBomber: '轟炸機',
+  spawnSatellite: '衛星',
+  targetCity: '城市 {id}',
+  targetTurret: '砲塔 {id}',
+  addSpawn: '新增飛彈',
+  removeSpawn: '移除飛彈',
+  levelProblems: '開始前還需修正 {count} 個問題',
+  playtest: '試玩',
+  exportLevel: '匯出',
+  importLevel: '匯入',
+  backToEditor: '返回編輯器',
+};
@@ -0,0 +1,270 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Messages } from './en';
+
+export const zh: Messages = {
+  // Title screen
+  title: 'LIAOZHIH星空防御',
+  start: '开始游戏',
+  mission: '目标：守住全部 {waves} 波',
+  instructions: '点击屏幕发射拦截导弹。保护城市和炮台！',
+  featurePrecision: '精准',
+  featureSpeed: '速度',
+  featureDefense: '防御',
+  language: '语言',
+
+  // Controls
+  controls: '键盘：移动准星，按键从左/中/右炮台发射。Shift+点击使用选中的炮台。',
+  keySchemeArrows: '方向键 + Q/W/E',
+  keySchemeWasd: 'WASD + 1/2/3',
+  reducedMotion: '减少动态效果',
+  reducedMotionHint: '关闭屏幕震动与闪光',
+  gamepad: '手柄按键',
+  fireLeft: '左炮台发射',
+  fireCenter: '中炮台发射',
+  fireRight: '右炮台发射',
+  pause: '暂停',
+  button: '按键 {n}',
+  pressButton: '请按手柄按键…',
+  resetMapping: '恢复默认',
+
+  // Sound
+  sound: '声音',
+  volumeMaster: '总音量',
+  volumeSfx: '音效',
+  volumeMusic: '音乐',
+  mute: '静音',
+  unmute: '取消静音',
+
+  // In game
+  score: '得分',
+  level: '关卡',
+  ammo: '弹药',
+  cities: '城市',
+  citiesRemaining: '剩余 {count} 座城市',
+  outOfAmmo: '弹尽',
+  comboPopup: '+{points} ×{multiplier}',
+  paused: '已暂停',
+  resume: '继续',
+  quitToTitle: '返回标题',
+
+  // End of game
+  win: '胜利！',
+  lose: '城市陷落',
+  restart: '再玩一次',
+  scoreDirect: '直接命中',
+  scoreChain: '连锁爆炸',
+  scoreCombo: '连击加成',
+  scoreBonus: '波次奖励',
+
+  // Leaderboard
+  leaderboard: '排行榜',
+  periodAll: '总榜',
+  periodDay: '今日',
+  periodWeek: '本周',
+  noScores: '暂无记录',
+  loading: '加载中…',
+  unavailable: '排行榜暂不可用',
+  playerName: '玩家名称',
+  submitScore: '提交',
+  submitted: '已提交！总排名第 {rank} 名',
+
+  // Replays
+  replay: '回放',
+  watchReplay: '观看回放',
+  saveReplay: '保存回放',
+  loadReplay: '载入回放',
+  exitReplay: '退出回放',
+
+  // Between waves
+  waveCleared: '第 {level} 波已肃清',
+  interceptorsLeft: '剩余拦截弹',
+  citiesSaved: '幸存城市',
+  waveBonus: '波次奖励',
+  citiesRebuilt: '重建了 {count} 座城市！',
+  nextWave: '下一波',
+  shop: '升级商店',
+  credits: '积分',
+  battery: '{n} 号炮台',
+  upgradeSpeed: '速度',
+  upgradeBlast: '爆炸',
+  upgradeCapacity: '弹容',
+  upgradeFlak: '散射',
+  maxed: '满级',
+
+  // Commentary
+  briefing: '指挥官简报',
+  debrief: '战后总结',
+  receiving: '正在接收通讯…',
+  briefingCanned: '第 {level}/{waves} 波：{count} 个目标来袭——{composition}。坚守阵地，指挥官。',
+  debriefWon: '全部波次已击退，得分 {score}。',
+  debriefLost: '防线在第 {level} 波失守，得分 {score}。',
+  debriefAccuracy: '命中率 {accuracy}%，浪费拦截弹 {count} 枚。',
+  debriefNoLosses: '没有损失任何城市。',
+  debriefLosses: '{count} 座城市陷落，第一座在第 {first} 波。',
+  enemyRocket: '{count} 枚导弹',
+  enemyMirv: '{count} 枚分导弹头',
+  enemySmartBomb: '{count} 枚智能炸弹',
+  enemyBomber: '{count} 架轰炸机',
+  enemySatellite: '{count} 颗卫星',
+
+  // Players
+  modeSolo: '单人',
+  modeCoop: '合作',
+  modeVersus: '对战',
+  modeHintSolo: '鼠标、键盘或手柄。',
+  modeHintCoop: '玩家1：鼠标（或第一个手柄）。玩家2：键盘（或第二个手柄）。城市共享。',
+  modeHintVersus: '玩家1用鼠标防守。玩家2用键盘或手柄进攻：左右选择目标，中间发射。',
+  player: '玩家{n}',
+  roleDefender: '防守方',
+  roleAttacker: '进攻方',
+  statShots: '发射',
+  statHits: '命中',
+  statAccuracy: '命中率',
+  defenderWins: '防守方获胜！',
+  attackerWins: '进攻方获胜！',
+
+  // Online
+  online: '在线合作',
+  goOnline: '上线',
+  goOffline: '下线',
+  connecting: '连接中…',
+  createRoom: '创建房间',
+  joinRoom: '加入',
+  roomCode: '房间码',
+  ready: '准备',
+  notReady: '取消准备',
+  leaveRoom: '离开',
+  waitingForPartner: '等待队友…',
+  partnerAway: '队友已断线，重新连接后游戏继续。',
+  backToRoom: '返回房间',
+  netRoomNotFound: '没有该房间码的房间',
+  netRoomFull: '该房间已满或正在游戏中',
+  netPartnerLeft: '队友已离开游戏',
+  netProtocolMismatch: '服务器版本不同，请刷新页面',
+
+  // Achievements
+  achievements: '成就',
+  achievementUnlocked: '成就解锁',
+  unlockedCount: '已解锁 {count}/{total}',
+  lifetimeStats: '生涯统计',
+  back: '返回',
+  statGamesPlayed: '游戏场数',
+  statGamesWon: '胜利场数',
+  statKills: '击毁导弹',
+  statInterceptors: '发射拦截弹',
+  lifetimeAccuracy: '命中率',
+  statBestScore: '最高分',
+  statHighestLevel: '最高关卡',
+  statCitiesSaved: '保住的城市',
+  achFirstContact: '初次交锋',
+  achFirstContactHint: '击毁第一枚弹头。',
+  achChainReaction: '连锁反应',
+  achChainReactionHint: '一发拦截弹击毁 10 枚弹头。',
+  achMaxCombo: '连击大师',
+  achMaxComboHint: '达到最高连击倍数。',
+  achSouthpaw: '左撇子',
+  achSouthpawHint: '只用最左侧炮台清除一波。',
+  achVictory: '守护者',
+  achVictoryHint: '撑过所有波次。',
+  achFlawless: '毫发无伤',
+  achFlawlessHint: '六座城市全部完好地获胜。',
+  achLastStand: '背水一战',
+  achLastStandHint: '只剩一座城市时获胜。',
+  achSharpshooter: '神射手',
+  achSharpshooterHint: '以至少 75% 的命中率获胜。',
+  achCenturion: '百夫长',
+  achCenturionHint: '一局中击毁 100 枚弹头。',
+  achVeteran: '老兵',
+  achVeteranHint: '累计击毁 1,000 枚弹头。',
+
+  // Daily challenge
+  dailyChallenge: '每日挑战',
+  playDaily: '开始',
+  practiceDaily: '练习',
+  dailyPractice: '练习局：今天的排名机会已经用过了。',
+  dailyLeaderboard: '今日排行榜',
+  modHalfAmmo: '弹药减半',
+  modHalfAmmoHint: '每座炮台的初始和补给拦截弹都只有一半。',
+  modFastRockets: '高速火箭',
+  modFastRocketsHint: '弹头下落速度提高一半。',
+  modNoCenterTurret: '没有中央炮台',
+  modNoCenterTurretHint: '只能从两翼守住中间。',
+  modRuinedCities: '城市废墟',
+  modRuinedCitiesHint: '中间的两座城市已经被摧毁。',
+
+  // Rules
+  rulesClassic: '经典',
+  rulesEndless: '无尽',
+  rulesTimeAttack: '计时赛',
+  rulesHintClassic: '击退每一波；最后一座城市陷落时游戏结束。',
+  rulesHintEndless: '攻势永不停止且越来越强，每多坚持一秒都能得分。',
+  rulesHintTimeAttack: '在三分钟内拿到尽可能高的分数。',
+  bestScore: '最高分（{rules}）：{score}',
+  tier: '难度',
+  survived: '已坚持',
+  timeLeft: '剩余时间',
+  timeUp: '时间到！',
+  scoreSurvival: '生存',
+
+  // Accessibility
+  settings: '设置',
+  palette: '配色',
+  paletteStandard: '标准',
+  paletteDeuteranopia: '绿色弱',
+  paletteProtanopia: '红色弱',
+  paletteHighContrast: '高对比度',
+  aimAssist: '瞄准辅助',
+  aimAssistHint: '在弹头附近开火时，拦截弹会在它的前进方向上引爆。',
+  gameSpeed: '游戏速度',
+  gameSpeedHint: '放慢离线游戏；联机游戏和回放保持全速。',
+  announceWave: '第 {level} 波来袭',
+  announceWaveCleared: '第 {level} 波已肃清。得分 {score}',
+  announceCityLost: '一座城市被摧毁。剩余 {count} 座',
+  announceWon: '胜利。最终得分 {score}',
+  announceLost: '失败。最终得分 {score}',
+
+  // Saved runs
+  continueRun: '继续',
+  continueRunDetail: '第 {level} 波 · {score} 分',
+
+  // Level editor
+  levelEditor: '关卡编辑器',
+  levelName: '名称',
+  baseLayout: '基地',
+  baseLayoutHint: '沿地面拖动城市和炮塔。连线显示本波导弹的入场位置和目标。',
+  addCity: '添加城市',
+  addTurret: '添加炮塔',
+  positionX: '{id} 位置',
+  turretAmmo: '弹药',
+  removeSelected: '移除',
+  waves: '波次',
+  addWave: '添加波次',
+  removeWave: '移除波次',
+  waveAmmo: '开局弹药',
+  waveAmmoFull: '补满',
+  waveAmmoSome: '设为',
+  timelineHint: '在本波前 {seconds} 秒内拖动导弹。',
+  spawnTime: '时间（秒）',
+  spawnType: '类型',
+  spawnEntry: '入场 x',
+  spawnTarget: '目标',
+  spawnSpeed: '速度',
+  spawnRocket: '火箭',
+  spawnMirv: '分导弹头',
+  spawnSmartBomb: '智能炸弹',
+  spawnBomber: '轰炸机',
+  spawnSatellite: '卫星',
+  targetCity: '城市 {id}',
+  targetTurret: '炮塔 {id}',
+  addSpawn: '添加导弹',
+  removeSpawn: '移除导弹',
+  levelProblems: '开始前还需修正 {count} 个问题',
+  playtest: '试玩',
+  exportLevel: '导出',
+  importLevel: '导入',
+  backToEditor: '返回编辑器',
+};
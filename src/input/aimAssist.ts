@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameState, Point, Turret } from '../types';
+import { predictPosition } from '../game/bot';
+import { interceptorSpeed } from '../game/upgrades';
+
+// A warhead this close to the aim point, now or when the interceptor lands, pulls the shot onto it
+const ASSIST_RADIUS = 45;
+
+/**
+ * Where to detonate instead of `at`: the predicted position, when an interceptor
+ * from `turret` gets there, of the nearest warhead headed for the ground.
+ * Returns `at` unchanged when none is close enough.
+ */
+export function assistAim(state: GameState, at: Point, turret: Turret | null): Point {
+  if (!turret) return at;
+  const flight = 1 / interceptorSpeed(turret);
+  let best = at;
+  let bestDistance = ASSIST_RADIUS;
+  state.enemies.forEach(e => {
+    if (e.type === 'bomber' || e.type === 'satellite') return;
+    const predicted = predictPosition(e, flight);
+    const distance = Math.min(Math.hypot(e.x - at.x, e.y - at.y), Math.hypot(predicted.x - at.x, predicted.y - at.y));
+    if (distance < bestDistance) {
+      best = predicted;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WORLD_WIDTH } from '../game/constants';
+import {
+  connectedPads,
+  DEFAULT_GAMEPAD_MAPPING,
+  GamepadMapping,
+  loadGamepadMapping,
+  PadCursor,
+  pollGamepads,
+  saveGamepadMapping,
+} from './gamepad';
+
+interface FakePad {
+  index: number;
+  connected: boolean;
+  axes: number[];
+  buttons: { pressed: boolean }[];
+}
+
+function fakePad(index: number): FakePad {
+  return { index, connected: true, axes: [0, 0], buttons: Array.from({ length: 16 }, () => ({ pressed: false })) };
+}
+
+// What `navigator.getGamepads` returns; browsers leave null holes for unplugged slots
+let slots: (FakePad | null)[];
+
+function poll(cursors: Map<number, PadCursor>, elapsedMs = 100, mapping: GamepadMapping = DEFAULT_GAMEPAD_MAPPING) {
+  return pollGamepads(cursors, mapping, elapsedMs);
+}
+
+beforeEach(() => {
+  slots = [];
+  vi.stubGlobal('navigator', { getGamepads: () => slots });
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('connectedPads', () => {
+  it('skips holes and disconnected pads and keeps at most two', () => {
+    slots = [null, fakePad(1), { ...fakePad(2), connected: false }, fakePad(3), fakePad(4)];
+    expect(connectedPads().map(p => p.index)).toEqual([1, 3]);
+  });
+
+  it('is empty without the Gamepad API', () => {
+    vi.stubGlobal('navigator', {});
+    expect(connectedPads()).toEqual([]);
+  });
+});
+
+describe('pollGamepads', () => {
+  it('accelerates the crosshair while the stick is held and starts slow again after release', () => {
+    const pad = fakePad(0);
+    slots = [pad];
+    const cursors = new Map<number, PadCursor>();
+    poll(cursors);
+    pad.axes = [1, 0];
+
+    const steps: number[] = [];
+    for (let i = 0; i < 9; i++) {
+      const before = cursors.get(0)!.position.x;
+      poll(cursors);
+      steps.push(cursors.get(0)!.position.x - before);
+    }
+    // 180 units/s ramping to 720 over 600 ms of holding, then flat
+    [27, 36, 45, 54, 63, 72, 72, 72, 72].forEach((distance, i) => expect(steps[i]).toBeCloseTo(distance));
+
+    pad.axes = [0.1, 0]; // inside the deadzone
+    const resting = cursors.get(0)!.position.x;
+    poll(cursors);
+    expect(cursors.get(0)!.position.x).toBe(resting);
+    pad.axes = [-1, 0];
+    poll(cursors);
+    expect(cursors.get(0)!.position.x).toBeCloseTo(resting - 27);
+  });
+
+  it('keeps the crosshair on the field', () => {
+    const pad = fakePad(0);
+    pad.axes = [1, 0];
+    slots = [pad];
+    const cursors = new Map<number, PadCursor>();
+    for (let i = 0; i < 50; i++) poll(cursors);
+    expect(cursors.get(0)!.position.x).toBe(WORLD_WIDTH);
+  });
+
+  it('fires a turret slot once per press of its mapped button', () => {
+    const pad = fakePad(0);
+    slots = [pad];
+    const cursors = new Map<number, PadCursor>();
+    poll(cursors);
+
+    pad.buttons[DEFAULT_GAMEPAD_MAPPING.fireLeft].pressed = true;
+    pad.buttons[DEFAULT_GAMEPAD_MAPPING.fireRight].pressed = true;
+    const at = cursors.get(0)!.position;
+    expect(poll(cursors)).toEqual([
+      { pad: 0, type: 'fire', slot: 0, at },
+      { pad: 0, type: 'fire', slot: 2, at },
+    ]);
+    // Held, not pressed again
+    expect(poll(cursors)).toEqual([]);
+
+    pad.buttons[DEFAULT_GAMEPAD_MAPPING.fireLeft].pressed = false;
+    poll(cursors);
+    pad.buttons[DEFAULT_GAMEPAD_MAPPING.fireLeft].pressed = true;
+    expect(poll(cursors).map(e => e.type === 'fire' && e.slot)).toEqual([0]);
+  });
+
+  it('follows a custom mapping', () => {
+    const pad = fakePad(0);
+    slots = [pad];
+    const cursors = new Map<number, PadCursor>();
+    const mapping: GamepadMapping = { fireLeft: 4, fireCenter: 5, fireRight: 6, pause: 8 };
+    poll(cursors, 100, mapping);
+
+    pad.buttons[DEFAULT_GAMEPAD_MAPPING.fireCenter].pressed = true;
+    pad.buttons[5].pressed = true;
+    expect(poll(cursors, 100, mapping).map(e => e.type === 'fire' && e.slot)).toEqual([1]);
+  });
+
+  it('reports the pause button', () => {
+    const pad = fakePad(0);
+    slots = [pad];
+    const cursors = new Map<number, PadCursor>();
+    poll(cursors);
+
+    pad.buttons[DEFAULT_GAMEPAD_MAPPING.pause].pressed = true;
+    expect(poll(cursors)).toEqual([{ pad: 0, type: 'pause' }]);
+    expect(poll(cursors)).toEqual([]);
+  });
+
+  it('gives two pads their own crosshairs and drops a pad that is unplugged', () => {
+    const first = fakePad(0);
+    const second = fakePad(1);
+    slots = [first, second];
+    const cursors = new Map<number, PadCursor>();
+    poll(cursors);
+    const start = [cursors.get(0)!.position, cursors.get(1)!.position];
+    expect(start[0].x).not.toBe(start[1].x);
+
+    first.axes = [0, -1];
+    second.buttons[DEFAULT_GAMEPAD_MAPPING.fireCenter].pressed = true;
+    const events = poll(cursors);
+    expect(cursors.get(0)!.position.y).toBeLessThan(start[0].y);
+    expect(cursors.get(1)!.position).toEqual(start[1]);
+    expect(events).toEqual([{ pad: 1, type: 'fire', slot: 1, at: start[1] }]);
+
+    slots = [first, null];
+    poll(cursors);
+    expect([...cursors.keys()]).toEqual([0]);
+  });
+});
+
+describe('gamepad mapping', () => {
+  it('starts from the default mapping', () => {
+    expect(loadGamepadMapping()).toEqual(DEFAULT_GAMEPAD_MAPPING);
+  });
+
+  it('loads what was saved', () => {
+    const mapping: GamepadMapping = { fireLeft: 3, fireCenter: 0, fireRight: 1, pause: 8 };
+    saveGamepadMapping(mapping);
+    expect(loadGamepadMapping()).toEqual(mapping);
+  });
+
+  it('falls back to the default for a corrupt or incomplete value', () => {
+    localStorage.setItem('starry-defense:gamepad-mapping', '{not json');
+    expect(loadGamepadMapping()).toEqual(DEFAULT_GAMEPAD_MAPPING);
+    localStorage.setItem('starry-defense:gamepad-mapping', JSON.stringify({ fireLeft: 3, pause: -1 }));
+    expect(loadGamepadMapping()).toEqual(DEFAULT_GAMEPAD_MAPPING);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point } from '../types';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+import { clampAim, moveCrosshair } from './keyboard';
+
+export type GamepadAction = 'fireLeft' | 'fireCenter' | 'fireRight' | 'pause';
+
+/** Button index (standard gamepad layout) bound to each action. */
+export type GamepadMapping = Record<GamepadAction, number>;
+
+export const GAMEPAD_ACTIONS: GamepadAction[] = ['fireLeft', 'fireCenter', 'fireRight', 'pause'];
+
+// X, A, B sit left, bottom and right on most pads; 9 is Start
+export const DEFAULT_GAMEPAD_MAPPING: GamepadMapping = { fireLeft: 2, fireCenter: 0, fireRight: 1, pause: 9 };
+
+export const MAX_PADS = 2;
+
+const MAPPING_KEY = 'starry-defense:gamepad-mapping';
+const DEADZONE = 0.2;
+// Crosshair speed in world units per second ramps from MIN to MAX over RAMP_MS of holding the stick.
+const MIN_SPEED = 180;
+const MAX_SPEED = 720;
+const RAMP_MS = 600;
+const RUMBLE_MS = 200;
+
+/** Per-pad state kept between polls. */
+export interface PadCursor {
+  index: number;
+  position: Point;
+  heldMs: number; // how long the stick has been out of the deadzone
+  pressed: boolean[]; // button states on the previous poll
+}
+
+export type PadEvent = { pad: number; type: 'fire'; slot: number; at: Point } | { pad: number; type: 'pause' };
+
+export function loadGamepadMapping(): GamepadMapping {
+  try {
+    const saved = JSON.parse(localStorage.getItem(MAPPING_KEY) ?? 'null');
+    if (GAMEPAD_ACTIONS.every(a => Number.isInteger(saved?.[a]) && saved[a] >= 0)) return saved;
+  } catch {
+    // Corrupt value: fall back to the default
+  }
+  return { ...DEFAULT_GAMEPAD_MAPPING };
+}
+
+export function saveGamepadMapping(mapping: GamepadMapping) {
+  localStorage.setItem(MAPPING_KEY, JSON.stringify(mapping));
+}
+
+/** Connected pads, at most MAX_PADS of them. `navigator.getGamepads` may leave holes. */
+export function connectedPads(): Gamepad[] {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return [];
+  return Array.from(navigator.getGamepads())
+    .filter((p): p is Gamepad => !!p && p.connected)
+    .slice(0, MAX_PADS);
+}
+
+function newCursor(index: number, slot: number): PadCursor {
+  // Spread the crosshairs apart so two players do not start on top of each other
+  return { index, position: { x: WORLD_WIDTH * (slot + 1) / (MAX_PADS + 1), y: WORLD_HEIGHT / 2 }, heldMs: 0, pressed: [] };
+}
+
+function stick(pad: Gamepad): { x: number; y: number; magnitude: number } {
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  const magnitude = Math.min(1, Math.hypot(x, y));
+  if (magnitude < DEADZONE) return { x: 0, y: 0, magnitude: 0 };
+  // Rescale so output starts at zero just outside the deadzone
+  return { x, y, magnitude: (magnitude - DEADZONE) / (1 - DEADZONE) };
+}
+
+/**
+ * Reads every pad, moves their crosshairs and returns the buttons newly pressed
+ * since the last poll. Cursors for unplugged pads are dropped from `cursors`.
+ */
+export function pollGamepads(cursors: Map<number, PadCursor>, mapping: GamepadMapping, elapsedMs: number): PadEvent[] {
+  const pads = connectedPads();
+  const events: PadEvent[] = [];
+  [...cursors.keys()].forEach(index => {
+    if (!pads.some(p => p.index === index)) cursors.delete(index);
+  });
+
+  pads.forEach((pad, slot) => {
+    let cursor = cursors.get(pad.index);
+    if (!cursor) {
+      cursor = newCursor(pad.index, slot);
+      cursors.set(pad.index, cursor);
+    }
+
+    const { x, y, magnitude } = stick(pad);
+    if (magnitude > 0) {
+      cursor.heldMs += elapsedMs;
+      const speed = MIN_SPEED + (MAX_SPEED - MIN_SPEED) * Math.min(1, cursor.heldMs / RAMP_MS);
+      cursor.position = moveCrosshair(cursor.position, x, y, (speed * magnitude * elapsedMs) / 1000);
+    } else {
+      cursor.heldMs = 0;
+    }
+
+    const pressed = pad.buttons.map(b => b.pressed);
+    const justPressed = (button: number) => pressed[button] && !cursor.pressed[button];
+    [mapping.fireLeft, mapping.fireCenter, mapping.fireRight].forEach((button, fireSlot) => {
+      if (justPressed(button)) events.push({ pad: pad.index, type: 'fire', slot: fireSlot, at: clampAim(cursor.position) });
+    });
+    if (justPressed(mapping.pause)) events.push({ pad: pad.index, type: 'pause' });
+    cursor.pressed = pressed;
+  });
+  return events;
+}
+
+/** First button held on any pad, for rebinding. */
+export function pressedButton(): number | null {
+  for (const pad of connectedPads()) {
+    const button = pad.buttons.findIndex(b => b.pressed);
+    if (button >= 0) return button;
+  }
+  return null;
+}
+
+export function rumble(strength = 1) {
+  connectedPads().forEach(pad => {
+    // Not every browser or pad supports haptics
+    pad.vibrationActuator?.playEffect('dual-rumble', {
+      duration: RUMBLE_MS,
+      strongMagnitude: strength,
+      weakMagnitude: strength / 2,
+    }).catch(() => {});
+  });
+}
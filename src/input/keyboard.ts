@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point, Turret } from '../types';
+import { GROUND_Y, WORLD_WIDTH } from '../game/constants';
+
+/**
+ * W is both "up" in WASD and "fire centre" in Q/W/E, so players pick one:
+ * - arrows: arrow keys move, Q/W/E or 1/2/3 fire
+ * - wasd: WASD or arrow keys move, 1/2/3 fire
+ */
+export type KeyScheme = 'arrows' | 'wasd';
+
+export type KeyAction = { type: 'move'; dx: number; dy: number } | { type: 'fire'; slot: number } | { type: 'pause' };
+
+const KEY_SCHEME_KEY = 'starry-defense:key-scheme';
+
+// World units per second the crosshair travels while a direction key is held.
+export const CROSSHAIR_SPEED = 480;
+
+const ARROWS: Record<string, [number, number]> = {
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+};
+const WASD: Record<string, [number, number]> = {
+  KeyW: [0, -1],
+  KeyS: [0, 1],
+  KeyA: [-1, 0],
+  KeyD: [1, 0],
+};
+const DIGITS: Record<string, number> = { Digit1: 0, Digit2: 1, Digit3: 2, Numpad1: 0, Numpad2: 1, Numpad3: 2 };
+const LETTERS: Record<string, number> = { KeyQ: 0, KeyW: 1, KeyE: 2 };
+const PAUSE_KEYS = ['Escape', 'KeyP'];
+
+/** Maps a `KeyboardEvent.code` to what it does under `scheme`, if anything. */
+export function keyAction(code: string, scheme: KeyScheme): KeyAction | null {
+  const move = ARROWS[code] ?? (scheme === 'wasd' ? WASD[code] : undefined);
+  if (move) return { type: 'move', dx: move[0], dy: move[1] };
+  const slot = DIGITS[code] ?? (scheme === 'arrows' ? LETTERS[code] : undefined);
+  if (slot !== undefined) return { type: 'fire', slot };
+  if (PAUSE_KEYS.includes(code)) return { type: 'pause' };
+  return null;
+}
+
+/** Direction from every movement key currently held. */
+export function heldDirection(held: Iterable<string>, scheme: KeyScheme): { dx: number; dy: number } {
+  let dx = 0;
+  let dy = 0;
+  for (const code of held) {
+    const action = keyAction(code, scheme);
+    if (action?.type === 'move') {
+      dx += action.dx;
+      dy += action.dy;
+    }
+  }
+  return { dx: Math.sign(dx), dy: Math.sign(dy) };
+}
+
+/** Keeps aim points inside the sky, above the ground line. */
+export function clampAim(p: Point): Point {
+  return {
+    x: Math.min(WORLD_WIDTH, Math.max(0, p.x)),
+    y: Math.min(GROUND_Y - 10, Math.max(0, p.y)),
+  };
+}
+
+export function moveCrosshair(p: Point, dx: number, dy: number, distance: number): Point {
+  const len = Math.hypot(dx, dy) || 1;
+  return clampAim({ x: p.x + (dx / len) * distance, y: p.y + (dy / len) * distance });
+}
+
+/**
+ * Turret for a left/centre/right slot (0-2). With fewer than three turrets the
+ * slots are spread over what there is, so a co-op pair answers to left and right.
+ */
+export function turretInSlot(turrets: Turret[], slot: number): Turret | undefined {
+  const sorted = [...turrets].sort((a, b) => a.x - b.x);
+  return sorted[Math.round((slot * (sorted.length - 1)) / 2)];
+}
+
+export function loadKeyScheme(): KeyScheme {
+  return localStorage.getItem(KEY_SCHEME_KEY) === 'wasd' ? 'wasd' : 'arrows';
+}
+
+export function saveKeyScheme(scheme: KeyScheme) {
+  localStorage.setItem(KEY_SCHEME_KEY, scheme);
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { City, GameMode, GameState, Turret } from '../types';
+
+export const GAME_MODES: GameMode[] = ['solo', 'coop', 'versus'];
+
+const MODE_KEY = 'starry-defense:game-mode';
+
+/**
+ * Who an input device belongs to. The mouse (or touch) is always player 1; the keyboard
+ * is player 2 once there are two; with two pads each player has one, a single pad is player 2.
+ */
+export type InputSource = { kind: 'pointer' } | { kind: 'keyboard' } | { kind: 'pad'; slot: number; pads: number };
+
+export function playerFor(source: InputSource, mode: GameMode): number {
+  if (mode === 'solo') return 0;
+  switch (source.kind) {
+    case 'pointer':
+      return 0;
+    case 'keyboard':
+      return 1;
+    case 'pad':
+      return source.pads >= 2 ? Math.min(source.slot, 1) : 1;
+  }
+}
+
+export function ownedTurrets(turrets: Turret[], player: number): Turret[] {
+  return turrets.filter(t => t.owner === player);
+}
+
+/** Cities and turrets still standing, left to right: what the versus attacker can aim at. */
+export function attackTargets(state: GameState): (City | Turret)[] {
+  return [...state.cities, ...state.turrets].filter(t => t.active).sort((a, b) => a.x - b.x);
+}
+
+/**
+ * The attacker's target after stepping `by` places from `current` (0 keeps it).
+ * A missing or destroyed current target is replaced by the one nearest `x`.
+ */
+export function cycleTarget(state: GameState, current: string | null, by: number, x: number): string | null {
+  const targets = attackTargets(state);
+  if (targets.length === 0) return null;
+  const index = targets.findIndex(t => t.id === current);
+  if (index < 0) {
+    return targets.reduce((best, t) => (Math.abs(t.x - x) < Math.abs(best.x - x) ? t : best)).id;
+  }
+  return targets[(index + by + targets.length) % targets.length].id;
+}
+
+export function loadGameMode(): GameMode {
+  const saved = localStorage.getItem(MODE_KEY) as GameMode | null;
+  return saved && GAME_MODES.includes(saved) ? saved : 'solo';
+}
+
+export function saveGameMode(mode: GameMode) {
+  localStorage.setItem(MODE_KEY, mode);
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ClientMessage, NET_PATH, PROTOCOL_VERSION, ServerMessage } from './protocol';
+
+// Per tab rather than per browser, so two tabs are two players
+const SESSION_KEY = 'starry-defense:net-session';
+const RETRY_MIN_MS = 500;
+const RETRY_MAX_MS = 8000;
+
+/** A server message, or the socket opening or dropping. */
+export type NetEvent = ServerMessage | { type: 'connection'; open: boolean };
+
+export type NetListener = (event: NetEvent) => void;
+
+export interface NetClient {
+  readonly open: boolean;
+  /** Dropped unless the socket is open; the server pauses the game while a player is away. */
+  send(message: ClientMessage): void;
+  /** Returns a function that removes the listener again. */
+  subscribe(listener: NetListener): () => void;
+  close(): void;
+}
+
+export function defaultServerUrl(): string {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${NET_PATH}`;
+}
+
+/** Connects as `name` and keeps reconnecting, with backoff, until closed. */
+export function createNetClient(name: string, url = defaultServerUrl()): NetClient {
+  const listeners = new Set<NetListener>();
+  let socket: WebSocket | null = null;
+  let retryMs = RETRY_MIN_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const notify = (event: NetEvent) => listeners.forEach(listener => listener(event));
+
+  function connect() {
+    const ws = new WebSocket(url);
+    socket = ws;
+    ws.onopen = () => {
+      retryMs = RETRY_MIN_MS;
+      const session = sessionStorage.getItem(SESSION_KEY) ?? undefined;
+      ws.send(JSON.stringify({ type: 'hello', protocol: PROTOCOL_VERSION, name, session } satisfies ClientMessage));
+      notify({ type: 'connection', open: true });
+    };
+    ws.onmessage = e => {
+      let message: ServerMessage;
+      try {
+        message = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      if (message.type === 'welcome') sessionStorage.setItem(SESSION_KEY, message.session);
+      notify(message);
+    };
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      notify({ type: 'connection', open: false });
+      if (closed) return;
+      retryTimer = setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, RETRY_MAX_MS);
+    };
+  }
+
+  connect();
+  return {
+    get open() {
+      return socket?.readyState === WebSocket.OPEN;
+    },
+    send(message) {
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    close() {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+    },
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameInput, GameState, GameStatus } from '../types';
+import { TICK_MS } from '../game/constants';
+import { step } from '../game/engine';
+import { NetClient } from './client';
+
+// How far the local prediction may run ahead of the last snapshot before it waits
+const MAX_PREDICTED_TICKS = 30;
+
+/** One online game as seen by one player: the server's state plus local prediction. */
+export interface OnlineGame {
+  readonly player: number;
+  readonly state: GameState; // replaced on every snapshot
+  /**
+   * Sends `inputs` and predicts ahead by `elapsed` wall-clock ms, applying them
+   * on the first predicted step. Returns the events to show.
+   */
+  update(elapsed: number, inputs: GameInput[]): GameEvent[];
+  /** Sends and applies an input at once, as for continuing or buying between waves. */
+  act(input: GameInput): GameEvent[];
+  dispose(): void;
+}
+
+export function createOnlineGame(client: NetClient, player: number, initial: GameState): OnlineGame {
+  const campaign = initial.campaign;
+  let state = initial;
+  let seq = 0;
+  let pending: { seq: number; input: GameInput }[] = []; // sent but not yet applied by the server
+  let queued: GameInput[] = []; // sent, waiting for the next predicted step
+  let accumulator = 0;
+  let serverTick = state.tick; // of the last snapshot
+  let shown = state.tick; // events up to this tick have been shown
+  let incoming: GameEvent[] = [];
+
+  function send(input: GameInput) {
+    seq += 1;
+    pending.push({ seq, input });
+    client.send({ type: 'input', seq, input });
+  }
+
+  // Steps the prediction once; events from ticks already shown are not shown again
+  function predict(inputs: GameInput[], fresh = false): GameEvent[] {
+    const events = step(state, inputs, TICK_MS);
+    if (!fresh && state.tick <= shown) return [];
+    shown = Math.max(shown, state.tick);
+    return events;
+  }
+
+  // Rebase on the server's state, then catch back up with what is still in flight
+  const unsubscribe = client.subscribe(message => {
+    if (message.type !== 'snapshot') return;
+    pending = pending.filter(p => p.seq > message.acked);
+    const target = Math.min(state.tick, message.state.tick + MAX_PREDICTED_TICKS);
+    state = { ...message.state, campaign };
+    serverTick = state.tick;
+    // The partner's shots are the one thing prediction cannot know about in advance
+    incoming.push(
+      ...message.events.filter(e => e.type === 'interceptorLaunched' && e.interceptors[0]?.owner !== player),
+    );
+    queued = [];
+    if (pending.length > 0) incoming.push(...predict(pending.map(p => p.input)));
+    while (state.tick < target && state.status === GameStatus.PLAYING) incoming.push(...predict([]));
+  });
+
+  return {
+    player,
+    get state() {
+      return state;
+    },
+    update(elapsed, inputs) {
+      inputs.forEach(send);
+      queued.push(...inputs);
+      const events = incoming;
+      incoming = [];
+      if (state.status !== GameStatus.PLAYING) {
+        accumulator = 0;
+        queued = [];
+        return events;
+      }
+      accumulator += elapsed;
+      const limit = serverTick + MAX_PREDICTED_TICKS;
+      while (accumulator >= TICK_MS && state.status === GameStatus.PLAYING && state.tick < limit) {
+        events.push(...predict(queued));
+        queued = [];
+        accumulator -= TICK_MS;
+      }
+      // Waiting on the server: do not bank the time and burst later
+      accumulator = Math.min(accumulator, TICK_MS);
+      return events;
+    },
+    act(input) {
+      send(input);
+      return predict([input], true);
+    },
+    dispose() {
+      unsubscribe();
+    },
+  };
+}
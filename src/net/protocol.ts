@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameInput, GameState } from '../types';
+
+/**
+ * Online co-op protocol. Messages are JSON text frames on one WebSocket at
+ * NET_PATH. The server owns the only real simulation:
+ *
+ * 1. The client sends `hello` and gets a `welcome` with a session id. Sending
+ *    that id in a later `hello` reclaims the same seat after a dropped connection.
+ * 2. In the lobby a player creates a room (gets its code) or joins one by code,
+ *    then both send `ready`. Every change is broadcast as `room`.
+ * 3. When both seats are ready the server sends `started` and steps the game
+ *    every TICK_MS, applying each `input` on the next tick.
+ * 4. Every SNAPSHOT_TICKS loop iterations it sends a `snapshot`: the full state
+ *    minus the campaign, the events since the previous snapshot, and the highest
+ *    input `seq` it has applied from that client since its last `started`. A
+ *    client that reclaims its seat gets `started` again and counts from 0.
+ *
+ * Clients predict: they keep stepping the last snapshot locally, apply their own
+ * inputs at once, and re-apply the ones not yet acknowledged on every snapshot.
+ */
+
+export const PROTOCOL_VERSION = 1;
+export const NET_PATH = '/ws';
+
+// Snapshots go out every this many server ticks (20 per second at 60 ticks per second)
+export const SNAPSHOT_TICKS = 3;
+// How long a seat stays reserved for a dropped player; the game is paused meanwhile
+export const RECONNECT_GRACE_MS = 60_000;
+export const ROOM_CODE_LENGTH = 4;
+export const MAX_NAME_LENGTH = 24;
+
+export type RoomStatus = 'lobby' | 'playing' | 'finished';
+
+export interface SeatInfo {
+  name: string;
+  ready: boolean;
+  connected: boolean;
+}
+
+export interface RoomInfo {
+  code: string;
+  status: RoomStatus;
+  seats: (SeatInfo | null)[]; // index is the player number; null while empty
+  you: number; // the recipient's seat
+}
+
+/** Game state as sent over the wire: the campaign only travels once, in `started`. */
+export type NetState = Omit<GameState, 'campaign'>;
+
+export type ClientMessage =
+  | { type: 'hello'; protocol: number; name: string; session?: string }
+  | { type: 'createRoom' }
+  | { type: 'joinRoom'; code: string }
+  | { type: 'leaveRoom' }
+  | { type: 'ready'; ready: boolean }
+  // Fire, continue or buy an upgrade. The server sets `player` on fire inputs itself.
+  | { type: 'input'; seq: number; input: GameInput };
+
+export type ServerMessage =
+  | { type: 'welcome'; session: string }
+  | { type: 'room'; room: RoomInfo | null } // null after leaving or when the room closes
+  | { type: 'started'; player: number; state: GameState }
+  | { type: 'snapshot'; state: NetState; events: GameEvent[]; acked: number }
+  | { type: 'error'; message: string };
+
+export function isRoomCode(value: unknown): value is string {
+  return typeof value === 'string' && new RegExp(`^[A-Z]{${ROOM_CODE_LENGTH}}$`).test(value);
+}
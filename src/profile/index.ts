@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AchievementId, GameState, GameStatus, LifetimeStats, Profile, RunStats } from '../types';
+import { ACHIEVEMENTS } from '../game/achievements';
+import { isCount } from '../validation';
+
+const PROFILE_KEY = 'starry-defense:profile';
+
+const STAT_KEYS: (keyof LifetimeStats)[] = [
+  'gamesPlayed',
+  'gamesWon',
+  'kills',
+  'shots',
+  'hitShots',
+  'bestScore',
+  'highestLevel',
+  'citiesSaved',
+];
+
+export function emptyLifetimeStats(): LifetimeStats {
+  return { gamesPlayed: 0, gamesWon: 0, kills: 0, shots: 0, hitShots: 0, bestScore: 0, highestLevel: 0, citiesSaved: 0 };
+}
+
+export function createProfile(id: string = crypto.randomUUID(), now = Date.now()): Profile {
+  return { id, stats: emptyLifetimeStats(), achievements: {}, updatedAt: now };
+}
+
+/** Whether untrusted data is a well-formed profile. */
+export function isProfile(value: unknown): value is Profile {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, stats, achievements, updatedAt } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !/^[\w-]{8,64}$/.test(id) || !isCount(updatedAt)) return false;
+  if (typeof stats !== 'object' || stats === null) return false;
+  if (!STAT_KEYS.every(k => isCount((stats as Record<string, unknown>)[k]))) return false;
+  if (typeof achievements !== 'object' || achievements === null) return false;
+  const known = ACHIEVEMENTS.map(a => a.id as string);
+  return Object.entries(achievements).every(([k, at]) => known.includes(k) && isCount(at));
+}
+
+export function loadProfile(): Profile {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROFILE_KEY) ?? 'null');
+    if (isProfile(saved)) return saved;
+  } catch {
+    // Corrupt value: start a fresh profile
+  }
+  const profile = createProfile();
+  saveProfile(profile);
+  return profile;
+}
+
+export function saveProfile(profile: Profile) {
+  localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+}
+
+/** Folds a finished game into the lifetime totals. */
+export function recordGame(profile: Profile, run: RunStats, state: GameState, now = Date.now()): Profile {
+  const stats = profile.stats;
+  return {
+    ...profile,
+    stats: {
+      gamesPlayed: stats.gamesPlayed + 1,
+      gamesWon: stats.gamesWon + (state.status === GameStatus.WON ? 1 : 0),
+      kills: stats.kills + run.kills,
+      shots: stats.shots + run.shots,
+      hitShots: stats.hitShots + run.hitShots,
+      bestScore: Math.max(stats.bestScore, state.score),
+      highestLevel: Math.max(stats.highestLevel, state.level),
+      citiesSaved: stats.citiesSaved + state.cities.filter(c => c.active).length,
+    },
+    updatedAt: now,
+  };
+}
+
+/** Marks `ids` unlocked at `now`, keeping the earlier time for any already unlocked. */
+export function unlock(profile: Profile, ids: AchievementId[], now = Date.now()): Profile {
+  const fresh = ids.filter(id => profile.achievements[id] === undefined);
+  if (fresh.length === 0) return profile;
+  const achievements = { ...profile.achievements };
+  fresh.forEach(id => (achievements[id] = now));
+  return { ...profile, achievements, updatedAt: now };
+}
+
+/**
+ * Combines two copies of the same profile. Every total only ever grows, so the
+ * larger value of each wins and no game is counted twice; unlocks are united.
+ */
+export function mergeProfiles(a: Profile, b: Profile): Profile {
+  const stats = emptyLifetimeStats();
+  STAT_KEYS.forEach(k => (stats[k] = Math.max(a.stats[k], b.stats[k])));
+  const achievements = { ...a.achievements };
+  (Object.entries(b.achievements) as [AchievementId, number][]).forEach(([id, at]) => {
+    achievements[id] = Math.min(achievements[id] ?? Infinity, at);
+  });
+  return { id: a.id, stats, achievements, updatedAt: Math.max(a.updatedAt, b.updatedAt) };
+}
+
+/** Share of lifetime shots that destroyed something, 0 to 1. */
+export function lifetimeAccuracy(stats: LifetimeStats): number {
+  return stats.shots === 0 ? 0 : stats.hitShots / stats.shots;
+}
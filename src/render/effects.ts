@@ -0,0 +1,294 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GameEvent, GameState, Point } from '../types';
+import { GROUND_Y, WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+import { ParticleColors, Theme } from './theme';
+
+// Hard cap on live particles; emitters simply skip when the pool is empty.
+export const PARTICLE_BUDGET = 1200;
+
+const STAR_LAYERS = [
+  { count: 70, speed: 2, size: 0.8, alpha: 0.35 },
+  { count: 40, speed: 6, size: 1.2, alpha: 0.6 },
+  { count: 20, speed: 12, size: 1.8, alpha: 0.9 },
+];
+const SMOKE_INTERVAL_MS = 40;
+const FIRE_MS = 5000; // how long a destroyed city keeps burning
+const FIRE_INTERVAL_MS = 70;
+const SHAKE_DECAY = 6; // per second
+const FLASH_DECAY = 3;
+const REDUCED_MOTION_KEY = 'starry-defense:reduced-motion';
+
+type ParticleKind = 'star' | 'smoke' | 'debris' | 'fire' | 'spark';
+
+interface Particle {
+  active: boolean;
+  kind: ParticleKind;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  gravity: number; // world units per second²
+  age: number; // seconds
+  life: number; // seconds; stars never expire
+  size: number;
+  grow: number; // size per second
+  alpha: number;
+  // Looked up in the theme when drawn, so a palette change recolours what is already flying
+  palette: keyof ParticleColors;
+  shade: number;
+}
+
+interface Fire {
+  x: number;
+  y: number;
+  left: number; // ms
+  next: number; // ms until the next flame
+}
+
+export interface Effects {
+  /** No drifting or twinkling stars, screen shake or flashes. */
+  setReducedMotion(reduced: boolean): void;
+  /** Event listener: starts bursts, fires, shake and flashes. */
+  handleEvents(events: GameEvent[], state: GameState): void;
+  /** Advances everything by `ms` of game time and lays new smoke behind moving warheads. */
+  update(ms: number, state: GameState): void;
+  /** Drops everything but the stars, e.g. after seeking a replay. */
+  reset(): void;
+  /** Camera offset from screen shake. */
+  camera(): Point;
+  drawBackground(ctx: CanvasRenderingContext2D, theme: Theme): void;
+  drawForeground(ctx: CanvasRenderingContext2D, theme: Theme): void;
+  /** Whole-world flash, drawn last. */
+  drawFlash(ctx: CanvasRenderingContext2D, theme: Theme): void;
+  liveParticles(): number;
+}
+
+/** The saved choice, or the system's prefers-reduced-motion when there is none. */
+export function loadReducedMotion(): boolean {
+  const saved = localStorage.getItem(REDUCED_MOTION_KEY);
+  if (saved === 'true' || saved === 'false') return saved === 'true';
+  return typeof matchMedia !== 'undefined' && matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+export function saveReducedMotion(reduced: boolean) {
+  localStorage.setItem(REDUCED_MOTION_KEY, String(reduced));
+}
+
+function shadeOf(p: Particle, theme: Theme): string {
+  const colors = theme.particles[p.palette];
+  return colors[p.shade % colors.length];
+}
+
+export function createEffects(reducedMotion: boolean): Effects {
+  const pool: Particle[] = Array.from({ length: PARTICLE_BUDGET }, () => ({
+    active: false,
+    kind: 'spark',
+    x: 0,
+    y: 0,
+    vx: 0,
+    vy: 0,
+    gravity: 0,
+    age: 0,
+    life: 0,
+    size: 0,
+    grow: 0,
+    alpha: 0,
+    palette: 'spark',
+    shade: 0,
+  }));
+  const free: number[] = pool.map((_, i) => PARTICLE_BUDGET - 1 - i);
+  const smokeTimers = new Map<string, number>();
+  let fires: Fire[] = [];
+  let shake = 0;
+  let flash = 0;
+  let clock = 0;
+  let reduced = reducedMotion;
+
+  function spawn(props: Partial<Particle> & Pick<Particle, 'kind' | 'x' | 'y' | 'life' | 'palette'>): boolean {
+    const index = free.pop();
+    if (index === undefined) return false;
+    Object.assign(pool[index], { vx: 0, vy: 0, gravity: 0, age: 0, size: 2, grow: 0, alpha: 1, shade: 0 }, props, { active: true });
+    return true;
+  }
+
+  function release(index: number) {
+    pool[index].active = false;
+    free.push(index);
+  }
+
+  function burst(at: Point, count: number, kind: ParticleKind, palette: keyof ParticleColors, speed: number, life: number, gravity: number) {
+    for (let k = 0; k < count; k++) {
+      const angle = Math.random() * Math.PI * 2;
+      const v = speed * (0.3 + Math.random() * 0.7);
+      spawn({
+        kind,
+        x: at.x,
+        y: at.y,
+        vx: Math.cos(angle) * v,
+        vy: Math.sin(angle) * v - speed * 0.3,
+        gravity,
+        life: life * (0.6 + Math.random() * 0.4),
+        size: 1 + Math.random() * 2,
+        palette,
+        shade: k,
+      });
+    }
+  }
+
+  // Stars take the first slots of the pool and stay for good
+  STAR_LAYERS.forEach(layer => {
+    for (let k = 0; k < layer.count; k++) {
+      spawn({
+        kind: 'star',
+        x: Math.random() * WORLD_WIDTH,
+        y: Math.random() * GROUND_Y,
+        vx: layer.speed,
+        life: Infinity,
+        size: layer.size,
+        alpha: layer.alpha,
+        palette: 'star',
+        shade: k,
+      });
+    }
+  });
+
+  return {
+    setReducedMotion(value) {
+      reduced = value;
+    },
+
+    handleEvents(events) {
+      events.forEach(e => {
+        switch (e.type) {
+          case 'cityDestroyed':
+            burst(e.city, 40, 'debris', 'cityDebris', 140, 1.6, 220);
+            fires.push({ x: e.city.x, y: e.city.y, left: FIRE_MS, next: 0 });
+            shake = Math.max(shake, 8);
+            break;
+          case 'turretDestroyed':
+            burst(e.turret, 30, 'debris', 'turretDebris', 150, 1.4, 220);
+            shake = Math.max(shake, 10);
+            break;
+          case 'explosion':
+            burst(e.explosion, e.explosion.chain > 0 ? 6 : 12, 'spark', 'spark', 90, 0.5, 40);
+            break;
+          case 'mirvSplit':
+            burst(e.enemy, 16, 'spark', 'mirvSpark', 120, 0.4, 0);
+            flash = Math.max(flash, 0.35);
+            break;
+          case 'waveStarted':
+          case 'waveCleared':
+            fires = [];
+            break;
+        }
+      });
+    },
+
+    update(ms, state) {
+      if (ms <= 0) return;
+      const seconds = ms / 1000;
+      clock += ms;
+
+      // Smoke behind everything that falls, kept after the warhead is gone
+      const seen = new Set<string>();
+      state.enemies.forEach(e => {
+        if (e.type === 'bomber' || e.type === 'satellite') return;
+        seen.add(e.id);
+        const due = (smokeTimers.get(e.id) ?? 0) - ms;
+        if (due > 0) {
+          smokeTimers.set(e.id, due);
+          return;
+        }
+        smokeTimers.set(e.id, due + SMOKE_INTERVAL_MS);
+        spawn({ kind: 'smoke', x: e.x, y: e.y, vx: (Math.random() - 0.5) * 6, vy: -4, life: 2.5, size: 1.5, grow: 3, alpha: 0.35, palette: 'smoke' });
+      });
+      smokeTimers.forEach((_, id) => {
+        if (!seen.has(id)) smokeTimers.delete(id);
+      });
+
+      fires = fires.filter(f => {
+        f.left -= ms;
+        f.next -= ms;
+        if (f.next <= 0) {
+          f.next = FIRE_INTERVAL_MS;
+          spawn({ kind: 'fire', x: f.x + (Math.random() - 0.5) * 20, y: f.y, vx: (Math.random() - 0.5) * 8, vy: -25 - Math.random() * 20, life: 0.9, size: 2.5, grow: -1.5, palette: 'fire', shade: Math.random() < 0.5 ? 0 : 1 });
+        }
+        return f.left > 0;
+      });
+
+      pool.forEach((p, i) => {
+        if (!p.active) return;
+        if (p.kind === 'star') {
+          if (reduced) return;
+          p.x += p.vx * seconds;
+          if (p.x > WORLD_WIDTH) p.x -= WORLD_WIDTH;
+          return;
+        }
+        p.age += seconds;
+        if (p.age >= p.life) {
+          release(i);
+          return;
+        }
+        p.vy += p.gravity * seconds;
+        p.x += p.vx * seconds;
+        p.y = Math.min(GROUND_Y + 40, p.y + p.vy * seconds);
+        p.size = Math.max(0.2, p.size + p.grow * seconds);
+      });
+
+      shake = Math.max(0, shake - shake * SHAKE_DECAY * seconds - seconds);
+      flash = Math.max(0, flash - FLASH_DECAY * seconds);
+    },
+
+    reset() {
+      pool.forEach((p, i) => {
+        if (p.active && p.kind !== 'star') release(i);
+      });
+      smokeTimers.clear();
+      fires = [];
+      shake = 0;
+      flash = 0;
+    },
+
+    camera() {
+      if (reduced || shake <= 0) return { x: 0, y: 0 };
+      return { x: (Math.random() - 0.5) * shake * 2, y: (Math.random() - 0.5) * shake * 2 };
+    },
+
+    drawBackground(ctx, theme) {
+      pool.forEach((p, k) => {
+        if (!p.active || p.kind !== 'star') return;
+        const twinkle = reduced ? 1 : 0.7 + 0.3 * Math.sin(clock / 400 + k);
+        ctx.globalAlpha = p.alpha * twinkle;
+        ctx.fillStyle = shadeOf(p, theme);
+        ctx.fillRect(p.x, p.y, p.size, p.size);
+      });
+      ctx.globalAlpha = 1;
+    },
+
+    drawForeground(ctx, theme) {
+      pool.forEach(p => {
+        if (!p.active || p.kind === 'star') return;
+        ctx.globalAlpha = p.alpha * (1 - p.age / p.life);
+        ctx.fillStyle = shadeOf(p, theme);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      ctx.globalAlpha = 1;
+    },
+
+    drawFlash(ctx, theme) {
+      if (reduced || flash <= 0) return;
+      ctx.fillStyle = `rgba(${theme.flash}, ${flash})`;
+      ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+    },
+
+    liveParticles() {
+      return PARTICLE_BUDGET - free.length;
+    },
+  };
+}
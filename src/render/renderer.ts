@@ -0,0 +1,351 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { City, Enemy, GameEvent, GameState, Point, Turret } from '../types';
+import { GROUND_Y, WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+import { Translate } from '../i18n';
+import { applyViewport, Viewport } from './viewport';
+import { Effects } from './effects';
+import { Theme } from './theme';
+
+// Simulated ms a floating score stays on screen
+const POPUP_MS = 900;
+
+// Sprite geometry, in world units around the entity's position
+const CITY = { width: 30, height: 20, rubble: 10 };
+const CITY_TOWERS: [number, number, number, number][] = [
+  [-10, -15, 10, 10],
+  [2, -12, 8, 8],
+];
+const TURRET = { halfBase: 20, base: 20, tip: 10, wreck: 15, selection: 26, label: 35, pips: 40 };
+const PIP = { size: 4, gap: 6 };
+const CROSSHAIR = { ring: 8, arm: 14, gap: 4 };
+const PAD_CROSSHAIR = { ring: 10, arm: 3 };
+const ATTACK_MARKER = { size: 8, dash: [6, 6] };
+
+// How far past the world edges the ground extends, so shaking never shows a gap
+const SHAKE_MARGIN = 20;
+
+export interface ScorePopup {
+  x: number;
+  y: number;
+  text: string;
+  kind: keyof Theme['popup'];
+  born: number; // game time it appeared
+}
+
+export interface Crosshair {
+  position: Point;
+  color: string;
+}
+
+/** Where the versus attacker's next warhead would enter and what it would hit. */
+export interface AttackMarker {
+  x: number;
+  target: Point | null;
+  ready: boolean; // false while the launcher cools down
+  remaining: number; // warheads left to launch this wave
+  color: string;
+}
+
+/** What gets drawn over the world besides the game state itself. */
+export interface Hud {
+  selectedTurretId: string | null;
+  crosshair: Crosshair | null; // null while not aiming
+  pads: Crosshair[];
+  attack: AttackMarker | null;
+  popups: ScorePopup[];
+  effects: Effects;
+  theme: Theme;
+  t: Translate;
+}
+
+export function scorePopups(events: GameEvent[], time: number, t: Translate): ScorePopup[] {
+  return events.flatMap(e => {
+    if (e.type !== 'enemyDestroyed') return [];
+    const combo = e.multiplier > 1;
+    return [{
+      x: e.enemy.x,
+      y: e.enemy.y,
+      text: combo ? t('comboPopup', { points: e.points, multiplier: e.multiplier }) : `+${e.points}`,
+      kind: combo ? 'combo' : e.chain ? 'chain' : 'points',
+      born: time,
+    }];
+  });
+}
+
+/** Popups still showing at `time`; seeking back in a replay drops the ones not yet born. */
+export function livePopups(popups: ScorePopup[], time: number): ScorePopup[] {
+  return popups.filter(p => p.born <= time && time - p.born < POPUP_MS);
+}
+
+function drawCity(ctx: CanvasRenderingContext2D, c: City, theme: Theme) {
+  if (c.active) {
+    ctx.fillStyle = theme.city;
+    ctx.fillRect(c.x - CITY.width / 2, c.y - CITY.height / 2, CITY.width, CITY.height);
+    ctx.fillStyle = theme.cityTower;
+    CITY_TOWERS.forEach(([dx, dy, w, h]) => ctx.fillRect(c.x + dx, c.y + dy, w, h));
+  } else {
+    ctx.fillStyle = theme.rubble;
+    ctx.beginPath();
+    ctx.arc(c.x, c.y, CITY.rubble, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+function drawTurret(ctx: CanvasRenderingContext2D, t: Turret, selected: boolean, color: string, theme: Theme, translate: Translate) {
+  if (!t.active) {
+    ctx.strokeStyle = theme.wreck;
+    ctx.lineWidth = theme.lineWidth;
+    ctx.beginPath();
+    ctx.moveTo(t.x - TURRET.wreck, t.y + TURRET.wreck);
+    ctx.lineTo(t.x + TURRET.wreck, t.y - TURRET.wreck);
+    ctx.moveTo(t.x + TURRET.wreck, t.y + TURRET.wreck);
+    ctx.lineTo(t.x - TURRET.wreck, t.y - TURRET.wreck);
+    ctx.stroke();
+    return;
+  }
+
+  if (selected) {
+    ctx.strokeStyle = theme.selection;
+    ctx.lineWidth = 2 * theme.lineWidth;
+    ctx.beginPath();
+    ctx.arc(t.x, t.y + (TURRET.base - TURRET.tip) / 2, TURRET.selection, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.lineWidth = theme.lineWidth;
+  }
+
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.moveTo(t.x - TURRET.halfBase, t.y + TURRET.base);
+  ctx.lineTo(t.x + TURRET.halfBase, t.y + TURRET.base);
+  ctx.lineTo(t.x, t.y - TURRET.tip);
+  ctx.closePath();
+  ctx.fill();
+
+  // Ammo indicator
+  ctx.fillStyle = theme.ammo;
+  ctx.font = '10px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(t.ammo > 0 ? t.ammo.toString() : translate('outOfAmmo'), t.x, t.y + TURRET.label);
+
+  // Upgrade pips: speed, blast, capacity, then a flak marker
+  const pips = [
+    ...Array(t.upgrades.speed).fill(theme.upgrades.speed),
+    ...Array(t.upgrades.blast).fill(theme.upgrades.blast),
+    ...Array(t.upgrades.capacity).fill(theme.upgrades.capacity),
+    ...Array(t.upgrades.flak).fill(theme.upgrades.flak),
+  ];
+  pips.forEach((color, k) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(t.x - (pips.length * PIP.gap) / 2 + k * PIP.gap, t.y + TURRET.pips, PIP.size, PIP.size);
+  });
+}
+
+function drawEnemy(ctx: CanvasRenderingContext2D, e: Enemy, time: number, theme: Theme) {
+  switch (e.type) {
+    case 'rocket':
+    case 'mirv': {
+      const mirv = e.type === 'mirv';
+      ctx.strokeStyle = mirv ? theme.mirv : theme.rocket;
+      ctx.lineWidth = (mirv ? 2 : 1) * theme.lineWidth;
+      ctx.beginPath();
+      ctx.moveTo(e.x - (e.targetX - e.x) * 0.1, e.y - (e.targetY - e.y) * 0.1);
+      ctx.lineTo(e.x, e.y);
+      ctx.stroke();
+      ctx.lineWidth = theme.lineWidth;
+
+      ctx.fillStyle = mirv ? theme.mirvHead : theme.rocketHead;
+      ctx.beginPath();
+      if (mirv) {
+        ctx.moveTo(e.x, e.y - 4);
+        ctx.lineTo(e.x + 4, e.y);
+        ctx.lineTo(e.x, e.y + 4);
+        ctx.lineTo(e.x - 4, e.y);
+        ctx.closePath();
+      } else {
+        ctx.arc(e.x, e.y, 2, 0, Math.PI * 2);
+      }
+      ctx.fill();
+      break;
+    }
+    case 'smartBomb': {
+      const pulse = 4 + Math.sin(time / 80) * 1.5;
+      ctx.strokeStyle = theme.smartBomb;
+      ctx.beginPath();
+      for (let k = 0; k < 4; k++) {
+        const a = (k * Math.PI) / 4 + time / 300;
+        ctx.moveTo(e.x + Math.cos(a) * (pulse + 4), e.y + Math.sin(a) * (pulse + 4));
+        ctx.lineTo(e.x - Math.cos(a) * (pulse + 4), e.y - Math.sin(a) * (pulse + 4));
+      }
+      ctx.stroke();
+      ctx.fillStyle = theme.smartBombCore;
+      ctx.beginPath();
+      ctx.arc(e.x, e.y, pulse, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+    case 'bomber': {
+      const dir = Math.sign(e.vx);
+      ctx.fillStyle = theme.bomber;
+      ctx.beginPath();
+      ctx.moveTo(e.x + dir * 16, e.y);
+      ctx.lineTo(e.x - dir * 14, e.y - 4);
+      ctx.lineTo(e.x - dir * 14, e.y + 4);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillRect(e.x - 4, e.y - 10, 6, 20);
+      break;
+    }
+    case 'satellite': {
+      ctx.fillStyle = theme.satellite;
+      ctx.fillRect(e.x - 5, e.y - 5, 10, 10);
+      ctx.fillStyle = theme.satellitePanel;
+      ctx.fillRect(e.x - 17, e.y - 3, 10, 6);
+      ctx.fillRect(e.x + 7, e.y - 3, 10, 6);
+      break;
+    }
+  }
+}
+
+function drawCrosshairs(ctx: CanvasRenderingContext2D, hud: Hud) {
+  if (hud.crosshair) {
+    const { position: { x, y }, color } = hud.crosshair;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(x, y, CROSSHAIR.ring, 0, Math.PI * 2);
+    ctx.moveTo(x - CROSSHAIR.arm, y);
+    ctx.lineTo(x - CROSSHAIR.gap, y);
+    ctx.moveTo(x + CROSSHAIR.gap, y);
+    ctx.lineTo(x + CROSSHAIR.arm, y);
+    ctx.moveTo(x, y - CROSSHAIR.arm);
+    ctx.lineTo(x, y - CROSSHAIR.gap);
+    ctx.moveTo(x, y + CROSSHAIR.gap);
+    ctx.lineTo(x, y + CROSSHAIR.arm);
+    ctx.stroke();
+  }
+
+  // One ring per connected pad
+  hud.pads.forEach(({ position: p, color }) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, PAD_CROSSHAIR.ring, 0, Math.PI * 2);
+    ctx.moveTo(p.x - PAD_CROSSHAIR.arm, p.y);
+    ctx.lineTo(p.x + PAD_CROSSHAIR.arm, p.y);
+    ctx.moveTo(p.x, p.y - PAD_CROSSHAIR.arm);
+    ctx.lineTo(p.x, p.y + PAD_CROSSHAIR.arm);
+    ctx.stroke();
+    ctx.lineWidth = 1;
+  });
+}
+
+function drawAttackMarker(ctx: CanvasRenderingContext2D, attack: AttackMarker) {
+  const { x, target, color } = attack;
+  ctx.globalAlpha = attack.ready ? 1 : 0.35;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  if (target) {
+    ctx.setLineDash(ATTACK_MARKER.dash);
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(target.x, target.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.arc(target.x, target.y, ATTACK_MARKER.size * 2, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  // Downward chevron on the top edge where the warhead will enter
+  ctx.beginPath();
+  ctx.moveTo(x - ATTACK_MARKER.size, 0);
+  ctx.lineTo(x + ATTACK_MARKER.size, 0);
+  ctx.lineTo(x, ATTACK_MARKER.size * 1.5);
+  ctx.closePath();
+  ctx.fill();
+  ctx.font = 'bold 10px monospace';
+  ctx.textAlign = 'center';
+  ctx.fillText(`×${attack.remaining}`, x, ATTACK_MARKER.size * 3);
+  ctx.globalAlpha = 1;
+}
+
+/** Draws one frame: letterbox bars, then the world scaled into the viewport. */
+export function renderFrame(ctx: CanvasRenderingContext2D, viewport: Viewport, game: GameState, hud: Hud) {
+  const { theme } = hud;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = theme.letterbox;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  applyViewport(ctx, viewport);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  ctx.clip();
+
+  ctx.fillStyle = theme.sky;
+  ctx.fillRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+  // Screen shake moves everything inside the clip, sky included
+  const camera = hud.effects.camera();
+  ctx.translate(camera.x, camera.y);
+
+  // Stars, then the ground over them
+  hud.effects.drawBackground(ctx, theme);
+  ctx.fillStyle = theme.ground;
+  ctx.fillRect(-SHAKE_MARGIN, GROUND_Y, WORLD_WIDTH + SHAKE_MARGIN * 2, WORLD_HEIGHT - GROUND_Y + SHAKE_MARGIN);
+
+  game.cities.forEach(c => drawCity(ctx, c, theme));
+  game.turrets.forEach(t => {
+    const color = game.mode === 'coop' ? theme.players[t.owner] : theme.turret;
+    drawTurret(ctx, t, t.id === hud.selectedTurretId, color, theme, hud.t);
+  });
+
+  ctx.lineWidth = theme.lineWidth;
+  game.enemies.forEach(e => drawEnemy(ctx, e, game.time, theme));
+
+  // Interceptors, with an X on their target
+  ctx.strokeStyle = theme.interceptor;
+  game.interceptors.forEach(i => {
+    ctx.beginPath();
+    ctx.moveTo(i.startX, i.startY);
+    ctx.lineTo(i.x, i.y);
+    ctx.moveTo(i.targetX - 5, i.targetY - 5);
+    ctx.lineTo(i.targetX + 5, i.targetY + 5);
+    ctx.moveTo(i.targetX + 5, i.targetY - 5);
+    ctx.lineTo(i.targetX - 5, i.targetY + 5);
+    ctx.stroke();
+  });
+
+  game.explosions.forEach(e => {
+    const gradient = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
+    gradient.addColorStop(0, `rgba(${theme.explosion.core}, ${e.life})`);
+    gradient.addColorStop(0.4, `rgba(${theme.explosion.middle}, ${e.life})`);
+    gradient.addColorStop(1, `rgba(${theme.explosion.edge}, 0)`);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+    ctx.fill();
+  });
+
+  // Smoke, debris and fire
+  hud.effects.drawForeground(ctx, theme);
+
+  // Score popups drift up as they fade
+  ctx.font = 'bold 12px monospace';
+  ctx.textAlign = 'center';
+  hud.popups.forEach(p => {
+    const age = (game.time - p.born) / POPUP_MS;
+    ctx.globalAlpha = 1 - age;
+    ctx.fillStyle = theme.popup[p.kind];
+    ctx.fillText(p.text, p.x, p.y - 10 - age * 25);
+  });
+  ctx.globalAlpha = 1;
+
+  ctx.translate(-camera.x, -camera.y);
+  if (hud.attack) drawAttackMarker(ctx, hud.attack);
+  drawCrosshairs(ctx, hud);
+  hud.effects.drawFlash(ctx, theme);
+  ctx.restore();
+}
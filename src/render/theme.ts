@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * - standard: the original colours
+ * - deuteranopia, protanopia: no entity relies on telling red from green
+ * - highContrast: saturated colours on black and thicker lines
+ */
+export type Palette = 'standard' | 'deuteranopia' | 'protanopia' | 'highContrast';
+
+export const PALETTES: Palette[] = ['standard', 'deuteranopia', 'protanopia', 'highContrast'];
+
+/** Colours of each kind of particle; a burst cycles through its list. */
+export interface ParticleColors {
+  star: string[];
+  smoke: string[];
+  fire: string[];
+  spark: string[]; // from explosions
+  mirvSpark: string[];
+  cityDebris: string[];
+  turretDebris: string[];
+}
+
+/** Every colour the battlefield is drawn with. Explosions are RGB triples so their alpha can fade. */
+export interface Theme {
+  letterbox: string;
+  sky: string;
+  ground: string;
+  city: string;
+  cityTower: string;
+  rubble: string;
+  turret: string; // solo and versus; co-op turrets take their owner's colour
+  wreck: string;
+  selection: string;
+  ammo: string;
+  upgrades: { speed: string; blast: string; capacity: string; flak: string };
+  rocket: string;
+  rocketHead: string;
+  mirv: string;
+  mirvHead: string;
+  smartBomb: string;
+  smartBombCore: string;
+  bomber: string;
+  satellite: string;
+  satellitePanel: string;
+  interceptor: string;
+  explosion: { core: string; middle: string; edge: string }; // "r, g, b"
+  flash: string; // "r, g, b"
+  particles: ParticleColors;
+  popup: { points: string; chain: string; combo: string };
+  players: string[];
+  pads: string[]; // crosshairs of the pads sharing a solo game
+  lineWidth: number; // multiplies every stroke
+}
+
+const STANDARD: Theme = {
+  letterbox: '#000',
+  sky: '#0a0a0a',
+  ground: '#1a1a1a',
+  city: '#3b82f6',
+  cityTower: '#60a5fa',
+  rubble: '#451a03',
+  turret: '#10b981',
+  wreck: '#ef4444',
+  selection: '#fbbf24',
+  ammo: '#fff',
+  upgrades: { speed: '#22d3ee', blast: '#fbbf24', capacity: '#a3e635', flak: '#f472b6' },
+  rocket: '#ef4444',
+  rocketHead: '#f87171',
+  mirv: '#f97316',
+  mirvHead: '#fdba74',
+  smartBomb: '#e879f9',
+  smartBombCore: '#d946ef',
+  bomber: '#a3a3a3',
+  satellite: '#22d3ee',
+  satellitePanel: '#0e7490',
+  interceptor: '#fff',
+  explosion: { core: '255, 255, 255', middle: '251, 191, 36', edge: '239, 68, 68' },
+  flash: '255, 255, 255',
+  particles: {
+    star: ['#ffffff'],
+    smoke: ['#9ca3af'],
+    fire: ['#f97316', '#facc15'],
+    spark: ['#fde68a', '#fbbf24', '#ffffff'],
+    mirvSpark: ['#ffffff', '#fdba74'],
+    cityDebris: ['#78350f', '#a16207', '#525252'],
+    turretDebris: ['#065f46', '#525252', '#ef4444'],
+  },
+  popup: { points: '#ffffff', chain: '#fb923c', combo: '#fbbf24' },
+  players: ['#34d399', '#f472b6'],
+  pads: ['#38bdf8', '#f472b6'],
+  lineWidth: 1,
+};
+
+// Built on the Okabe-Ito set: blue and orange stay apart for both red-green deficiencies
+export const THEMES: Record<Palette, Theme> = {
+  standard: STANDARD,
+  deuteranopia: {
+    ...STANDARD,
+    city: '#0072b2',
+    cityTower: '#56b4e9',
+    rubble: '#5c4a1e',
+    turret: '#f0e442',
+    wreck: '#d55e00',
+    selection: '#ffffff',
+    upgrades: { speed: '#56b4e9', blast: '#e69f00', capacity: '#f0e442', flak: '#cc79a7' },
+    rocket: '#e69f00',
+    rocketHead: '#ffc14d',
+    mirv: '#d55e00',
+    mirvHead: '#ff8c42',
+    smartBomb: '#cc79a7',
+    smartBombCore: '#e3a6c8',
+    satellite: '#56b4e9',
+    satellitePanel: '#0072b2',
+    explosion: { core: '255, 255, 255', middle: '240, 228, 66', edge: '230, 159, 0' },
+    particles: {
+      ...STANDARD.particles,
+      fire: ['#e69f00', '#f0e442'],
+      spark: ['#f0e442', '#e69f00', '#ffffff'],
+      mirvSpark: ['#ffffff', '#ff8c42'],
+      cityDebris: ['#5c4a1e', '#0072b2', '#525252'],
+      turretDebris: ['#8a7f1c', '#525252', '#d55e00'],
+    },
+    popup: { points: '#ffffff', chain: '#56b4e9', combo: '#f0e442' },
+    players: ['#f0e442', '#56b4e9'],
+    pads: ['#56b4e9', '#e69f00'],
+  },
+  // Reds look dark to protanopes, so warheads use bright oranges and yellows instead
+  protanopia: {
+    ...STANDARD,
+    city: '#0072b2',
+    cityTower: '#56b4e9',
+    rubble: '#4a4a4a',
+    turret: '#ffffff',
+    wreck: '#f0e442',
+    selection: '#56b4e9',
+    upgrades: { speed: '#56b4e9', blast: '#ffb000', capacity: '#f0e442', flak: '#cc79a7' },
+    rocket: '#ffb000',
+    rocketHead: '#ffd166',
+    mirv: '#f0e442',
+    mirvHead: '#fff59d',
+    smartBomb: '#cc79a7',
+    smartBombCore: '#e3a6c8',
+    satellite: '#56b4e9',
+    satellitePanel: '#0072b2',
+    explosion: { core: '255, 255, 255', middle: '255, 209, 102', edge: '255, 176, 0' },
+    particles: {
+      ...STANDARD.particles,
+      fire: ['#ffb000', '#f0e442'],
+      spark: ['#ffd166', '#ffb000', '#ffffff'],
+      mirvSpark: ['#ffffff', '#fff59d'],
+      cityDebris: ['#4a4a4a', '#0072b2', '#8a8a8a'],
+      turretDebris: ['#bdbdbd', '#4a4a4a', '#f0e442'],
+    },
+    popup: { points: '#ffffff', chain: '#56b4e9', combo: '#ffd166' },
+    players: ['#ffb000', '#56b4e9'],
+    pads: ['#56b4e9', '#ffb000'],
+  },
+  highContrast: {
+    ...STANDARD,
+    sky: '#000000',
+    ground: '#404040',
+    city: '#00e5ff',
+    cityTower: '#ffffff',
+    rubble: '#7f1d1d',
+    turret: '#ffff00',
+    wreck: '#ff0000',
+    selection: '#ffffff',
+    rocket: '#ff3030',
+    rocketHead: '#ffffff',
+    mirv: '#ff9900',
+    mirvHead: '#ffffff',
+    smartBomb: '#ff00ff',
+    smartBombCore: '#ffffff',
+    bomber: '#ffffff',
+    satellite: '#00ff00',
+    satellitePanel: '#ffffff',
+    particles: {
+      star: ['#ffffff'],
+      smoke: ['#d4d4d4'],
+      fire: ['#ff9900', '#ffff00'],
+      spark: ['#ffff00', '#ffffff'],
+      mirvSpark: ['#ffffff', '#ff9900'],
+      cityDebris: ['#00e5ff', '#ffffff', '#808080'],
+      turretDebris: ['#ffff00', '#ffffff', '#ff0000'],
+    },
+    popup: { points: '#ffffff', chain: '#00e5ff', combo: '#ffff00' },
+    players: ['#ffff00', '#00e5ff'],
+    pads: ['#00e5ff', '#ff00ff'],
+    lineWidth: 2,
+  },
+};
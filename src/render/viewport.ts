@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Point } from '../types';
+import { WORLD_HEIGHT, WORLD_WIDTH } from '../game/constants';
+
+/**
+ * Where the world sits on the canvas. Sizes and offsets are in CSS pixels;
+ * the backing store is `dpr` times larger so lines stay sharp on high-DPI screens.
+ */
+export interface Viewport {
+  width: number;
+  height: number;
+  dpr: number;
+  scale: number; // CSS pixels per world unit
+  offsetX: number; // letterbox bar widths
+  offsetY: number;
+}
+
+/** Fits the whole world into a `width` × `height` box, centred, keeping its aspect ratio. */
+export function fitViewport(width: number, height: number, dpr: number): Viewport {
+  const scale = Math.max(Number.MIN_VALUE, Math.min(width / WORLD_WIDTH, height / WORLD_HEIGHT));
+  return {
+    width,
+    height,
+    dpr,
+    scale,
+    offsetX: (width - WORLD_WIDTH * scale) / 2,
+    offsetY: (height - WORLD_HEIGHT * scale) / 2,
+  };
+}
+
+export function backingSize(viewport: Viewport): { width: number; height: number } {
+  return {
+    width: Math.max(1, Math.round(viewport.width * viewport.dpr)),
+    height: Math.max(1, Math.round(viewport.height * viewport.dpr)),
+  };
+}
+
+/** World point under a position given in CSS pixels from the canvas's top-left corner. */
+export function toWorld(viewport: Viewport, x: number, y: number): Point {
+  return {
+    x: (x - viewport.offsetX) / viewport.scale,
+    y: (y - viewport.offsetY) / viewport.scale,
+  };
+}
+
+export function insideWorld(p: Point): boolean {
+  return p.x >= 0 && p.x <= WORLD_WIDTH && p.y >= 0 && p.y <= WORLD_HEIGHT;
+}
+
+/** Sets `ctx` up so drawing in world units lands in the right backing-store pixels. */
+export function applyViewport(ctx: CanvasRenderingContext2D, viewport: Viewport) {
+  const k = viewport.dpr * viewport.scale;
+  ctx.setTransform(k, 0, 0, k, viewport.dpr * viewport.offsetX, viewport.dpr * viewport.offsetY);
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import { GameInput, GameState, GameStatus } from '../types';
+import { createBot } from '../game/bot';
+import { createGameState, step } from '../game/engine';
+import { createReplay, createReplayPlayer, finishReplay, recordInputs, Replay } from '../game/replay';
+import { createRunStats } from '../game/stats';
+import { nextUpgradeCost } from '../game/upgrades';
+import { createSnapshot, isNewerSnapshot, parseSnapshot, SNAPSHOT_VERSION } from './snapshot';
+
+const SEED = 2024;
+
+interface Run {
+  state: GameState;
+  replay: Replay;
+}
+
+/** Steps and records the way the live game does, inputs under the tick the step moves to. */
+function runStep(run: Run, inputs: GameInput[]) {
+  const tick = run.state.tick + 1;
+  step(run.state, inputs);
+  recordInputs(run.replay, tick, inputs);
+}
+
+function playToNextRound(): Run {
+  const run = { state: createGameState(SEED), replay: createReplay(SEED) };
+  const bot = createBot('intercept', 3);
+  while (run.state.status === GameStatus.PLAYING) runStep(run, bot.decide(run.state));
+  expect(run.state.status).toBe(GameStatus.NEXT_ROUND);
+  return run;
+}
+
+/** Saves `run` and reads the save back, as a reload would. */
+function saveAndLoad(run: Run) {
+  return parseSnapshot(structuredClone(createSnapshot(run.state, createRunStats().snapshot(), run.replay, null)));
+}
+
+describe('saved runs', () => {
+  it('survives buying an upgrade between waves', () => {
+    const run = playToNextRound();
+    expect(() => saveAndLoad(run)).not.toThrow();
+
+    const turret = run.state.turrets[0];
+    expect(run.state.credits).toBeGreaterThanOrEqual(nextUpgradeCost(turret, 'speed')!);
+    runStep(run, [{ type: 'buyUpgrade', turretId: turret.id, upgrade: 'speed' }]);
+    expect(run.state.turrets[0].upgrades.speed).toBe(1);
+
+    const loaded = saveAndLoad(run);
+    expect(loaded.state).toEqual(run.state);
+    expect(loaded.replay!.inputs.at(-1)).toEqual([run.state.tick + 1, { type: 'buyUpgrade', turretId: turret.id, upgrade: 'speed' }]);
+  });
+
+  it('replays a resumed run exactly, purchases made before the save included', () => {
+    const run = playToNextRound();
+    runStep(run, [{ type: 'buyUpgrade', turretId: run.state.turrets[0].id, upgrade: 'speed' }]);
+    const loaded = saveAndLoad(run);
+
+    const resumed: Run = { state: loaded.state, replay: loaded.replay! };
+    const bot = createBot('intercept', 3);
+    runStep(resumed, [{ type: 'continue' }]);
+    for (let i = 0; i < 600 && resumed.state.status === GameStatus.PLAYING; i++) runStep(resumed, bot.decide(resumed.state));
+    finishReplay(resumed.replay, resumed.state);
+
+    const player = createReplayPlayer(resumed.replay);
+    player.seek(resumed.replay.finalTick);
+    expect(player.state.turrets[0].upgrades.speed).toBe(1);
+    expect(player.state).toEqual(resumed.state);
+  });
+
+  it('rejects inputs recorded ahead of the game', () => {
+    const run = playToNextRound();
+    recordInputs(run.replay, run.state.tick + 2, [{ type: 'continue' }]);
+    expect(() => saveAndLoad(run)).toThrow('replay.inputs: malformed or ahead of the game');
+
+    const playing = { state: createGameState(SEED), replay: createReplay(SEED) };
+    runStep(playing, []);
+    recordInputs(playing.replay, playing.state.tick + 1, [{ type: 'fire', x: 100, y: 100 }]);
+    expect(() => saveAndLoad(playing)).toThrow('replay.inputs: malformed or ahead of the game');
+  });
+
+  it('tells a save from a newer version apart from a broken one', () => {
+    const newer = { ...createSnapshot(createGameState(SEED), createRunStats().snapshot(), null, null), version: SNAPSHOT_VERSION + 1 };
+    expect(isNewerSnapshot(newer)).toBe(true);
+    expect(() => parseSnapshot(newer)).toThrow('newer version');
+
+    const run = playToNextRound();
+    expect(isNewerSnapshot(createSnapshot(run.state, createRunStats().snapshot(), run.replay, null))).toBe(false);
+    [null, 'save', { version: 'x' }, { version: 0 }].forEach(data => expect(isNewerSnapshot(data)).toBe(false));
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DailyRun, GameState, GameStatus, RunStats } from '../types';
+import { MODIFIERS } from '../game/modifiers';
+import { RULE_SETS } from '../game/rules';
+import { isInput, lastInputTick, Replay } from '../game/replay';
+import { parseCampaign } from '../game/waves';
+import { GAME_MODES } from '../input/players';
+import { isCount } from '../validation';
+
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * An offline run frozen between waves or while paused. The engine keeps
+ * everything it needs in `state`, random generator and spawn schedule
+ * included, so stepping a restored state carries on exactly as before.
+ */
+export interface Snapshot {
+  version: number;
+  savedAt: number; // unix ms
+  state: GameState;
+  stats: RunStats; // the run so far, for the end screen, the profile and achievements
+  replay: Replay | null; // the recording up to `state.tick`, so the finished run can still be watched
+  daily: DailyRun | null;
+}
+
+type SnapshotData = Record<string, unknown>;
+
+/**
+ * Upgrades a snapshot from the version it is keyed by to the next one. A change
+ * to GameState that older saves lack bumps SNAPSHOT_VERSION and adds a step here
+ * that fills in or converts the missing parts.
+ */
+const MIGRATIONS: Record<number, (snapshot: SnapshotData) => SnapshotData> = {};
+
+// Only runs that can go on are saved
+const RESUMABLE: GameStatus[] = [GameStatus.PLAYING, GameStatus.PAUSED, GameStatus.NEXT_ROUND];
+
+export function createSnapshot(state: GameState, stats: RunStats, replay: Replay | null, daily: DailyRun | null, now = Date.now()): Snapshot {
+  return structuredClone({ version: SNAPSHOT_VERSION, savedAt: now, state, stats, replay, daily });
+}
+
+function checkState(state: GameState, issues: string[]) {
+  if (typeof state !== 'object' || state === null) {
+    issues.push('state: expected an object');
+    return;
+  }
+  if (!RESUMABLE.includes(state.status)) issues.push(`state.status: cannot resume a ${state.status} game`);
+  if (!GAME_MODES.includes(state.mode)) issues.push(`state.mode: unknown mode ${state.mode}`);
+  if (!RULE_SETS.includes(state.rules)) issues.push(`state.rules: unknown rules ${state.rules}`);
+  if (state.modifier !== null && !MODIFIERS.includes(state.modifier)) issues.push(`state.modifier: unknown modifier ${state.modifier}`);
+  (['score', 'credits', 'level', 'tick', 'nextId', 'rngState'] as const).forEach(key => {
+    if (!isCount(state[key])) issues.push(`state.${key}: expected a non-negative integer`);
+  });
+  if (!Number.isFinite(state.time) || state.time < 0) issues.push('state.time: expected a non-negative number');
+  (['enemies', 'interceptors', 'explosions', 'cities', 'turrets', 'players'] as const).forEach(key => {
+    if (!Array.isArray(state[key])) issues.push(`state.${key}: expected an array`);
+  });
+  if (typeof state.wave !== 'object' || state.wave === null || !Array.isArray(state.wave.schedule)) {
+    issues.push('state.wave: expected a wave with a spawn schedule');
+  }
+  try {
+    parseCampaign(state.campaign);
+  } catch (err) {
+    issues.push(`state.campaign: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function checkStats(stats: RunStats, issues: string[]) {
+  if (typeof stats !== 'object' || stats === null || !Array.isArray(stats.losses)) {
+    issues.push('stats: expected run stats');
+    return;
+  }
+  (['shots', 'hitShots', 'kills'] as const).forEach(key => {
+    if (!isCount(stats[key])) issues.push(`stats.${key}: expected a non-negative integer`);
+  });
+}
+
+function checkReplay(replay: Replay | null, state: GameState, issues: string[]) {
+  if (replay === null) return;
+  if (typeof replay !== 'object' || !Number.isInteger(replay.seed) || !Array.isArray(replay.inputs)) {
+    issues.push('replay: expected a recording');
+    return;
+  }
+  const last = lastInputTick(state);
+  if (!replay.inputs.every(e => Array.isArray(e) && Number.isInteger(e[0]) && e[0] <= last && isInput(e[1]))) {
+    issues.push('replay.inputs: malformed or ahead of the game');
+  }
+}
+
+/** Whether untrusted data was saved by a newer version of the game than this one. */
+export function isNewerSnapshot(data: unknown): boolean {
+  if (typeof data !== 'object' || data === null) return false;
+  const { version } = data as SnapshotData;
+  return Number.isInteger(version) && (version as number) > SNAPSHOT_VERSION;
+}
+
+/**
+ * Brings a stored snapshot of any earlier version up to date and checks it,
+ * listing every problem found. Saves from a newer version are refused rather than guessed at.
+ */
+export function parseSnapshot(data: unknown): Snapshot {
+  if (typeof data !== 'object' || data === null) throw new Error('Invalid saved run: expected an object');
+  let snapshot = data as SnapshotData;
+  if (!Number.isInteger(snapshot.version) || (snapshot.version as number) < 1) {
+    throw new Error(`Invalid saved run: unknown version ${snapshot.version}`);
+  }
+  if (isNewerSnapshot(snapshot)) throw new Error(`Saved run is from a newer version (${snapshot.version})`);
+  while ((snapshot.version as number) < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version as number];
+    if (!migrate) throw new Error(`No migration from saved run version ${snapshot.version}`);
+    snapshot = { ...migrate(snapshot), version: (snapshot.version as number) + 1 };
+  }
+
+  const { savedAt, state, stats, replay, daily } = snapshot as unknown as Snapshot;
+  const issues: string[] = [];
+  if (!isCount(savedAt)) issues.push('savedAt: expected a timestamp');
+  checkState(state, issues);
+  checkStats(stats, issues);
+  if (issues.length === 0) checkReplay(replay ?? null, state, issues);
+  if (daily != null && (typeof daily.challenge?.date !== 'string' || typeof daily.ranked !== 'boolean')) {
+    issues.push('daily: expected a daily challenge');
+  }
+  if (issues.length > 0) throw new Error(`Invalid saved run:\n${issues.map(issue => `- ${issue}`).join('\n')}`);
+  return { version: SNAPSHOT_VERSION, savedAt, state, stats, replay: replay ?? null, daily: daily ?? null };
+}
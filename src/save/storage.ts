@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { isNewerSnapshot, parseSnapshot, Snapshot } from './snapshot';
+
+const DB_NAME = 'starry-defense';
+const DB_VERSION = 1;
+const STORE = 'saves';
+// One autosave slot; a new run replaces it
+const SLOT = 'current';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE);
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+  // A failed open, e.g. in a private window, is retried on the next call
+  database.catch(() => (database = null));
+  return database;
+}
+
+async function transact<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * The saved run, migrated to the current format, or null without one. A save that fails
+ * validation is dropped; one from a newer version is left for that version to pick up.
+ */
+export async function loadSavedRun(): Promise<Snapshot | null> {
+  const data = await transact('readonly', store => store.get(SLOT));
+  // Kept after a rollback, or while another tab runs a newer build
+  if (data === undefined || isNewerSnapshot(data)) return null;
+  try {
+    return parseSnapshot(data);
+  } catch {
+    // Corrupt: start over
+    await clearSavedRun();
+    return null;
+  }
+}
+
+export async function saveRun(snapshot: Snapshot): Promise<void> {
+  await transact('readwrite', store => store.put(snapshot, SLOT));
+}
+
+export async function clearSavedRun(): Promise<void> {
+  await transact('readwrite', store => store.delete(SLOT));
+}
@@ -3,7 +3,9 @@ export enum GameStatus {
   PLAYING = 'PLAYING',
   WON = 'WON',
   LOST = 'LOST',
-  NEXT_ROUND = 'NEXT_ROUND'
+  NEXT_ROUND = 'NEXT_ROUND',
+  PAUSED = 'PAUSED',
+  REPLAY = 'REPLAY'
 }
 
 export interface Point {
@@ -15,20 +17,53 @@ export interface Entity extends Point {
   id: string;
 }
 
+/** Straight-line warhead flying from its start point to a city or turret. */
 export interface Rocket extends Entity {
+  type: 'rocket';
+  startX: number;
+  startY: number;
   targetX: number;
   targetY: number;
-  speed: number;
+  speed: number; // progress per second
   progress: number; // 0 to 1
 }
 
+/** Flies like a rocket, then splits into `fragments` rockets once `progress` reaches `splitAt`. */
+export interface Mirv extends Omit<Rocket, 'type'> {
+  type: 'mirv';
+  splitAt: number;
+  fragments: number;
+}
+
+/** Homes in on its target and steers around explosions in its path. */
+export interface SmartBomb extends Entity {
+  type: 'smartBomb';
+  targetX: number;
+  targetY: number;
+  speed: number; // px per second
+}
+
+/** Crosses the screen horizontally, dropping rockets while over the battlefield. */
+export interface Flyer extends Entity {
+  type: 'bomber' | 'satellite';
+  vx: number; // px per second, signed
+  dropsLeft: number;
+  dropTimer: number; // seconds until the next drop
+}
+
+export type Enemy = Rocket | Mirv | SmartBomb | Flyer;
+
 export interface Interceptor extends Entity {
   startX: number;
   startY: number;
   targetX: number;
   targetY: number;
-  speed: number;
+  speed: number; // progress per second
   progress: number; // 0 to 1
+  blastRadius: number;
+  blastFade: number; // life per second
+  shot: string; // shared by the shells of one flak shot
+  owner: number; // player who fired it
 }
 
 export interface Explosion extends Entity {
@@ -36,25 +71,291 @@ export interface Explosion extends Entity {
   maxRadius: number;
   expanding: boolean;
   life: number; // 0 to 1
+  fade: number; // life per second
+  shot: string; // interceptor shot that started this blast or its chain
+  chain: number; // 0 for an interceptor blast, 1+ for warheads set off by one
+  owner: number; // player whose shot started it
 }
 
 export interface City extends Entity {
   active: boolean;
 }
 
+export type UpgradeKind = 'speed' | 'blast' | 'capacity' | 'flak';
+
+/** Level bought per upgrade; flak is either 0 or 1. */
+export type TurretUpgrades = Record<UpgradeKind, number>;
+
 export interface Turret extends Entity {
   ammo: number;
   maxAmmo: number;
   active: boolean;
+  upgrades: TurretUpgrades;
+  owner: number; // the only player who may fire it
+}
+
+/**
+ * - solo: one player defends
+ * - coop: two players defend the same cities, each with their own turrets
+ * - versus: player 1 defends, player 2 aims the incoming warheads
+ */
+export type GameMode = 'solo' | 'coop' | 'versus';
+
+/**
+ * A rule tweak for a daily challenge, applied to the starting layout and the campaign.
+ * - halfAmmo: every battery holds and receives half as many interceptors
+ * - fastRockets: every wave flies half again as fast
+ * - noCenterTurret: the center battery is missing
+ * - ruinedCities: the two middle cities start destroyed and must be rebuilt
+ */
+export type Modifier = 'halfAmmo' | 'fastRockets' | 'noCenterTurret' | 'ruinedCities';
+
+/**
+ * How a run is won and scored. Every rule set is lost once all cities or all turrets are gone.
+ * - classic: won by clearing the campaign's last wave
+ * - endless: waves keep coming, harder each time; surviving earns points by the second
+ * - timeAttack: as many points as possible before the clock runs out
+ */
+export type RuleSet = 'classic' | 'endless' | 'timeAttack';
+
+/** One player's share of a run. For the versus attacker, shots are launches and kills are hits. */
+export interface PlayerStats {
+  score: number;
+  shots: number;
+  kills: number;
 }
 
 export interface GameState {
   score: number;
+  credits: number; // earned alongside score, spent in the upgrade shop
   level: number;
   status: GameStatus;
-  rockets: Rocket[];
+  enemies: Enemy[];
   interceptors: Interceptor[];
   explosions: Explosion[];
   cities: City[];
   turrets: Turret[];
+  campaign: Campaign;
+  mode: GameMode;
+  modifier: Modifier | null;
+  rules: RuleSet;
+  players: PlayerStats[]; // indexed by player; one entry in solo, two otherwise
+  attackReadyAt: number; // versus: simulated ms from which the attacker may launch again
+  wave: WaveState;
+  tally: WaveTally | null; // set while between waves
+  rebuildProgress: number; // bonus points banked toward the next rebuilt city
+  scoreBreakdown: Record<ScoreReason, number>;
+  shotKills: Record<string, number>; // kills so far by each shot still exploding
+  streak: { count: number; lastKillAt: number };
+  tick: number; // fixed steps simulated so far
+  time: number; // simulated milliseconds
+  rngState: number;
+  nextId: number;
+}
+
+export type EnemyType = Enemy['type'];
+
+export type ScoreReason = 'direct' | 'chain' | 'combo' | 'bonus' | 'survival';
+
+/**
+ * How a wave's enemies are spread over time.
+ * - steady: one enemy every `interval` ms
+ * - burst: `size` enemies `spacing` ms apart, then `interval` ms until the next burst
+ * - salvo: `size` enemies at the same instant every `interval` ms
+ */
+export type SpawnPattern =
+  | { kind: 'steady'; interval: number }
+  | { kind: 'burst'; size: number; spacing: number; interval: number }
+  | { kind: 'salvo'; size: number; interval: number };
+
+/** One enemy placed by hand on a custom wave's timeline. */
+export interface ScriptedSpawn {
+  at: number; // ms after the wave starts
+  type: EnemyType;
+  x: number; // where it enters along the top edge; flyers enter from the nearer side
+  target: string; // id of the city or turret it is aimed at; a random one if that is already gone
+  speed: number; // progress per second, as in WaveDefinition.speed; flyers keep their own
+}
+
+export interface WaveDefinition {
+  name?: string;
+  enemies: { type: EnemyType; count: number }[];
+  pattern: SpawnPattern;
+  script?: ScriptedSpawn[]; // custom levels: replaces the shuffled pattern, spawn for spawn
+  startDelay: number; // ms between the wave starting and its first spawn
+  speed: { min: number; max: number }; // progress per second
+  targets: { cities: number; turrets: number }; // relative weights
+  ammo: number | 'full'; // granted to every active turret when the wave starts
+  bonus: { perInterceptor: number; perCity: number }; // awarded when the wave is cleared
+}
+
+/** Where the cities and turrets stand; turret ammo is also their capacity. */
+export interface BaseLayout {
+  cities: { id: string; x: number }[];
+  turrets: { id: string; x: number; ammo: number }[];
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  layout?: BaseLayout; // custom levels; the standard base otherwise
+  waves: WaveDefinition[];
+}
+
+/** A wave built in the level editor. */
+export interface LevelWave {
+  ammo: number | 'full'; // granted to every active turret when the wave starts
+  spawns: ScriptedSpawn[];
+}
+
+/** A level file from the editor: a base layout and waves scripted spawn by spawn. */
+export interface Level {
+  version: number;
+  name: string;
+  layout: BaseLayout;
+  waves: LevelWave[];
+}
+
+export interface ScheduledSpawn {
+  at: number; // simulated ms
+  type: EnemyType;
+  aim?: Omit<ScriptedSpawn, 'at' | 'type'>; // scripted waves only
+}
+
+export interface WaveState {
+  index: number; // into campaign.waves
+  schedule: ScheduledSpawn[]; // pending spawns, earliest first
+}
+
+/** Bonus breakdown for a cleared wave, shown between waves. */
+export interface WaveTally {
+  level: number;
+  interceptorsLeft: number;
+  perInterceptor: number;
+  citiesLeft: number;
+  perCity: number;
+  bonus: number;
+  citiesRebuilt: string[];
+}
+
+export type GameInput =
+  | { type: 'fire'; x: number; y: number; turretId?: string; player?: number } // without turretId the player's nearest turret fires
+  | { type: 'launch'; x: number; targetId: string } // versus attacker: next warhead enters at x, aimed at a city or turret
+  | { type: 'continue' } // leaves the between-wave phase
+  | { type: 'buyUpgrade'; turretId: string; upgrade: UpgradeKind };
+
+export type GameEvent =
+  | { type: 'enemySpawned'; enemy: Enemy }
+  | { type: 'mirvSplit'; enemy: Mirv; fragments: Rocket[] }
+  | { type: 'interceptorLaunched'; interceptors: Interceptor[]; turretId: string } // several for a flak shot
+  | { type: 'explosion'; explosion: Explosion }
+  | { type: 'enemyDestroyed'; enemy: Enemy; points: number; multiplier: number; chain: boolean; shot: string }
+  | { type: 'score'; reason: ScoreReason; points: number; at?: Point }
+  | { type: 'cityDestroyed'; city: City }
+  | { type: 'turretDestroyed'; turret: Turret }
+  | { type: 'waveStarted'; level: number }
+  | { type: 'waveCleared'; tally: WaveTally }
+  | { type: 'cityRebuilt'; city: City }
+  | { type: 'turretRepaired'; turret: Turret }
+  | { type: 'upgradePurchased'; turret: Turret; upgrade: UpgradeKind; level: number; cost: number }
+  | { type: 'statusChanged'; status: GameStatus };
+
+export type LeaderboardPeriod = 'all' | 'day' | 'week';
+
+export interface RunSubmission {
+  playerName: string;
+  score: number;
+  level: number;
+  citiesSurviving: number;
+  durationMs: number;
+}
+
+export interface LeaderboardEntry extends RunSubmission {
+  id: number;
+  createdAt: number; // unix ms
+}
+
+/** The shared setup everyone plays on one UTC day. */
+export interface DailyChallenge {
+  date: string; // YYYY-MM-DD, UTC
+  seed: number;
+  modifier: Modifier;
+}
+
+/** A daily challenge being played; only the first attempt of the day is ranked. */
+export interface DailyRun {
+  challenge: DailyChallenge;
+  ranked: boolean;
+}
+
+/** A ranked daily attempt; the server only accepts one per player name and day. */
+export interface DailySubmission extends RunSubmission, DailyChallenge {}
+
+export type Locale = 'zh' | 'zh-TW' | 'en' | 'ja';
+
+/** Plural forms keyed by `Intl.PluralRules` category; `other` is always required. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+/** What happened over a whole run, gathered from its events for the debrief. */
+export interface RunStats {
+  shots: number; // fire commands that launched something
+  hitShots: number; // shots whose blast, or its chain, destroyed at least one enemy
+  kills: number;
+  losses: { kind: 'city' | 'turret'; id: string; level: number; time: number }[];
+}
+
+/** A commentary line in the player's language plus a translation for the second language. */
+export interface Commentary {
+  text: string;
+  translation: string;
+}
+
+/** Totals over every finished game on this device. */
+export interface LifetimeStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  kills: number;
+  shots: number;
+  hitShots: number;
+  bestScore: number;
+  highestLevel: number;
+  citiesSaved: number; // cities still standing when each game ended
+}
+
+export type AchievementId =
+  | 'firstContact'
+  | 'chainReaction'
+  | 'maxCombo'
+  | 'southpaw'
+  | 'victory'
+  | 'flawless'
+  | 'lastStand'
+  | 'sharpshooter'
+  | 'centurion'
+  | 'veteran';
+
+/** The player's lifetime record, kept in localStorage and merged with the server's copy when there is one. */
+export interface Profile {
+  id: string;
+  stats: LifetimeStats;
+  achievements: Partial<Record<AchievementId, number>>; // unix ms of each unlock
+  updatedAt: number; // unix ms
+}
+
+export interface BriefingRequest {
+  locale: Locale;
+  level: number;
+  totalWaves: number;
+  wave: WaveDefinition;
+  citiesLeft: number;
+}
+
+export interface DebriefRequest {
+  locale: Locale;
+  won: boolean;
+  score: number;
+  level: number;
+  stats: RunStats;
 }
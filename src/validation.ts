@@ -0,0 +1,19 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** Whether untrusted data is a whole number from 0 up, like a counter, a tick or a timestamp. */
+export function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+/** Whether untrusted data is a non-null object, whose fields can then be checked one by one. */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/** Whether untrusted data is one of `options`. */
+export function isOneOf<T>(value: unknown, options: readonly T[]): value is T {
+  return (options as readonly unknown[]).includes(value);
+}